@@ -0,0 +1,5 @@
+import RedirectToActiveLeague from "@/src/components/RedirectToActiveLeague";
+
+export default function AdminRedirectPage() {
+  return <RedirectToActiveLeague path="/admin" />;
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import {
+  errorStatus,
+  getRequestUser,
+  requireCommissioner,
+} from "@/src/lib/serverAuth";
+import { winnerOf, type GameStatus } from "@/src/lib/providers/types";
+
+const STATUSES: GameStatus[] = ["scheduled", "inprogress", "final"];
+
+function scoreOrNull(v: unknown) {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`Invalid score: ${v}`);
+  return n;
+}
+
+/**
+ * Commissioner correction of a game result. The game is flagged
+ * result_override so sync-games stops overwriting it; send
+ * { clear_override: true } to hand it back to the provider.
+ *
+ * Body: { league_id, season_year?, game_id, status, home_score, away_score }
+ */
+export async function PATCH(req: Request) {
+  try {
+    const user = await getRequestUser(req);
+
+    const body = await req.json().catch(() => ({} as any));
+    const league_id = String(body.league_id ?? "").trim();
+    const game_id = String(body.game_id ?? "").trim();
+    if (!league_id || !game_id) {
+      return NextResponse.json(
+        { error: "Missing league_id or game_id" },
+        { status: 400 }
+      );
+    }
+
+    await requireCommissioner(league_id, user.id);
+
+    const { data: lg, error: lgErr } = await supabaseAdmin
+      .from("leagues")
+      .select("season_year")
+      .eq("id", league_id)
+      .single();
+
+    if (lgErr) throw lgErr;
+
+    const season_year = Number(body.season_year ?? lg.season_year);
+
+    const { data: game, error: gameErr } = await supabaseAdmin
+      .from("games")
+      .select("game_id,home_abbr,away_abbr")
+      .eq("league_id", league_id)
+      .eq("season_year", season_year)
+      .eq("game_id", game_id)
+      .maybeSingle();
+
+    if (gameErr) throw gameErr;
+    if (!game) {
+      return NextResponse.json({ error: "Game not found" }, { status: 404 });
+    }
+
+    let update: Record<string, unknown>;
+
+    if (body.clear_override) {
+      update = { result_override: false };
+    } else {
+      const status = String(body.status ?? "") as GameStatus;
+      if (!STATUSES.includes(status)) {
+        return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+      }
+
+      let home_score: number | null;
+      let away_score: number | null;
+      try {
+        home_score = scoreOrNull(body.home_score);
+        away_score = scoreOrNull(body.away_score);
+      } catch (e: any) {
+        return NextResponse.json({ error: e.message }, { status: 400 });
+      }
+
+      if (status === "final" && (home_score == null || away_score == null)) {
+        return NextResponse.json(
+          { error: "A final game needs both scores" },
+          { status: 400 }
+        );
+      }
+
+      update = {
+        status,
+        home_score,
+        away_score,
+        winner_abbr: winnerOf({ ...game, status, home_score, away_score }),
+        result_override: true,
+      };
+    }
+
+    const { error: updErr } = await supabaseAdmin
+      .from("games")
+      .update(update)
+      .eq("league_id", league_id)
+      .eq("season_year", season_year)
+      .eq("game_id", game_id);
+
+    if (updErr) throw updErr;
+
+    return NextResponse.json({ ok: true, game_id, ...update });
+  } catch (e: any) {
+    console.error("admin games error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
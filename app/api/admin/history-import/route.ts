@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import {
+  errorStatus,
+  getRequestUser,
+  requireCommissioner,
+} from "@/src/lib/serverAuth";
+import { normalizeRules } from "@/src/lib/rules";
+import {
+  parseHistoryCsv,
+  planHistoryImport,
+  seasonsWithData,
+  writeHistoryImport,
+} from "@/src/lib/historyImport";
+
+/**
+ * Commissioner import of past seasons from a spreadsheet export (see
+ * historyImport.ts). All or nothing: a bad row, a rules violation or a
+ * member name that maps to nobody fails the whole file with
+ * 422 { ok: false, errors, unmatched }. With dry_run nothing is written and
+ * the response says what would be imported. A season that already has
+ * data in the app is only overwritten with replace set.
+ *
+ * Body: { league_id, file, mapping?: { "CSV name": user_id }, dry_run?,
+ *   replace? }
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await getRequestUser(req);
+
+    const body = await req.json().catch(() => ({} as any));
+    const league_id = String(body.league_id ?? "").trim();
+    if (!league_id) {
+      return NextResponse.json({ error: "Missing league_id" }, { status: 400 });
+    }
+
+    await requireCommissioner(league_id, user.id);
+
+    const { data: lg, error: lgErr } = await supabaseAdmin
+      .from("leagues")
+      .select("season_year,rules")
+      .eq("id", league_id)
+      .single();
+
+    if (lgErr) throw lgErr;
+
+    const { data: members, error: memErr } = await supabaseAdmin
+      .from("league_members")
+      .select("user_id,display_name")
+      .eq("league_id", league_id);
+
+    if (memErr) throw memErr;
+
+    // A spreadsheet row is one team, with no confidence value, so history
+    // is scored as standard pick'em whatever the league plays now
+    const rules = {
+      ...normalizeRules(lg.rules),
+      pick_mode: "standard" as const,
+    };
+
+    const { rows, errors } = parseHistoryCsv(String(body.file ?? ""));
+    if (errors.length === 0 && rows.length === 0) {
+      errors.push("The file has no rows.");
+    }
+
+    const mapping =
+      body.mapping && typeof body.mapping === "object" ? body.mapping : {};
+    const plan = planHistoryImport({
+      rows,
+      members: members ?? [],
+      mapping,
+      rules,
+      current_season: lg.season_year,
+    });
+
+    const allErrors = [...errors, ...plan.errors];
+    if (plan.unmatched.length > 0) {
+      allErrors.push(
+        `No member matches ${plan.unmatched
+          .map((n) => `"${n}"`)
+          .join(", ")}; pick who they are.`
+      );
+    }
+
+    const existing = await seasonsWithData(
+      league_id,
+      plan.seasons.map((s) => s.season_year)
+    );
+    if (existing.length > 0 && !body.replace) {
+      allErrors.push(
+        `${existing.join(", ")} already ${
+          existing.length === 1 ? "has" : "have"
+        } data in the app; tick “Replace” to import over it.`
+      );
+    }
+
+    if (allErrors.length > 0) {
+      return NextResponse.json(
+        { ok: false, errors: allErrors, unmatched: plan.unmatched },
+        { status: 422 }
+      );
+    }
+
+    if (!body.dry_run) {
+      await writeHistoryImport({
+        league_id,
+        plan,
+        rules,
+        actor_id: user.id,
+        replace: !!body.replace,
+      });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      league_id,
+      dry_run: !!body.dry_run,
+      seasons: plan.seasons,
+      replaced: existing,
+    });
+  } catch (e: any) {
+    console.error("admin history import error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
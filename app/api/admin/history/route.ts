@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import {
+  errorStatus,
+  getRequestUser,
+  requireCommissioner,
+} from "@/src/lib/serverAuth";
+import { PICK_EVENT_COLUMNS } from "@/src/lib/pickHistory";
+
+/**
+ * A week's full pick history for the commissioner, once the week has locked
+ * (its last kickoff). Before that it would give away picks whose games
+ * haven't started, so the response is empty with `opens_at` set.
+ *
+ * Query: ?league_id=...&week_number=...&user_id=...
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getRequestUser(req);
+
+    const url = new URL(req.url);
+    const league_id = String(url.searchParams.get("league_id") ?? "").trim();
+    const week_number = Number(url.searchParams.get("week_number"));
+    const user_id = String(url.searchParams.get("user_id") ?? "").trim();
+    if (!league_id || !Number.isInteger(week_number)) {
+      return NextResponse.json(
+        { error: "Missing league_id or week_number" },
+        { status: 400 }
+      );
+    }
+
+    await requireCommissioner(league_id, user.id);
+
+    const { data: lg, error: lgErr } = await supabaseAdmin
+      .from("leagues")
+      .select("season_year")
+      .eq("id", league_id)
+      .single();
+
+    if (lgErr) throw lgErr;
+
+    const { data: weekRow, error: weekErr } = await supabaseAdmin
+      .from("weeks")
+      .select("lock_time")
+      .eq("league_id", league_id)
+      .eq("season_year", lg.season_year)
+      .eq("week_number", week_number)
+      .maybeSingle();
+
+    if (weekErr) throw weekErr;
+
+    const locked =
+      !!weekRow?.lock_time &&
+      new Date(weekRow.lock_time).getTime() <= Date.now();
+    if (!locked) {
+      return NextResponse.json({
+        ok: true,
+        league_id,
+        week_number,
+        locked: false,
+        opens_at: weekRow?.lock_time ?? null,
+        events: [],
+      });
+    }
+
+    let q = supabaseAdmin
+      .from("pick_events")
+      .select(PICK_EVENT_COLUMNS)
+      .eq("league_id", league_id)
+      .eq("season_year", lg.season_year)
+      .eq("week_number", week_number);
+
+    if (user_id) q = q.eq("user_id", user_id);
+
+    const { data: events, error } = await q.order("created_at", {
+      ascending: false,
+    });
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      ok: true,
+      league_id,
+      week_number,
+      locked: true,
+      opens_at: weekRow!.lock_time,
+      events: events ?? [],
+    });
+  } catch (e: any) {
+    console.error("admin history error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
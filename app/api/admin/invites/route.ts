@@ -0,0 +1,207 @@
+import { randomBytes } from "node:crypto";
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import {
+  errorStatus,
+  getRequestUser,
+  requireCommissioner,
+} from "@/src/lib/serverAuth";
+import { normalizeInviteCode } from "@/src/lib/invites";
+
+const INVITE_COLUMNS =
+  "id,code,label,expires_at,max_uses,uses,revoked_at,created_at";
+
+// No 0/O or 1/I, so codes read out loud or off a screen survive
+const ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function randomCode() {
+  return [...randomBytes(8)]
+    .map((b) => ALPHABET[b % ALPHABET.length])
+    .join("");
+}
+
+async function readLeague(req: Request) {
+  const user = await getRequestUser(req);
+
+  const body = await req.json().catch(() => ({} as any));
+  const league_id = String(body.league_id ?? "").trim();
+  if (!league_id) throw new Error("Missing league_id");
+
+  await requireCommissioner(league_id, user.id);
+
+  return { body, league_id, user };
+}
+
+function respondError(e: any) {
+  console.error("admin invites error:", e);
+  // Unique violation on league_invites.code
+  if (e?.code === "23505") {
+    return NextResponse.json(
+      { error: "That code is already taken" },
+      { status: 409 }
+    );
+  }
+  const status = e?.message?.startsWith("Missing") ? 400 : errorStatus(e);
+  return NextResponse.json({ error: e?.message ?? String(e) }, { status });
+}
+
+/**
+ * expires_at / max_uses from the body; null clears them, undefined leaves
+ * them alone. Returns an error message for bad values.
+ */
+function readLimits(body: any) {
+  const limits: { expires_at?: string | null; max_uses?: number | null } = {};
+
+  if (body.expires_at !== undefined) {
+    if (body.expires_at === null || body.expires_at === "") {
+      limits.expires_at = null;
+    } else {
+      const t = new Date(String(body.expires_at)).getTime();
+      if (!Number.isFinite(t)) return { error: "Invalid expires_at" };
+      limits.expires_at = new Date(t).toISOString();
+    }
+  }
+
+  if (body.max_uses !== undefined) {
+    if (body.max_uses === null || body.max_uses === "") {
+      limits.max_uses = null;
+    } else {
+      const n = Number(body.max_uses);
+      if (!Number.isInteger(n) || n < 1) return { error: "Invalid max_uses" };
+      limits.max_uses = n;
+    }
+  }
+
+  return { limits };
+}
+
+/**
+ * Create a code: the one given, or a random one.
+ *
+ * Body: { league_id, code?, label?, expires_at?, max_uses? }
+ */
+export async function POST(req: Request) {
+  try {
+    const { body, league_id, user } = await readLeague(req);
+
+    const code = body.code ? normalizeInviteCode(String(body.code)) : null;
+    if (code !== null && !/^[A-Z0-9-]{4,32}$/.test(code)) {
+      return NextResponse.json(
+        { error: "Codes are 4–32 letters, digits or dashes" },
+        { status: 400 }
+      );
+    }
+
+    const { limits, error: limitErr } = readLimits(body);
+    if (limitErr) {
+      return NextResponse.json({ error: limitErr }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("league_invites")
+      .insert({
+        league_id,
+        code: code ?? randomCode(),
+        label: String(body.label ?? "").trim() || null,
+        created_by: user.id,
+        ...limits,
+      })
+      .select(INVITE_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, league_id, invite: data });
+  } catch (e: any) {
+    return respondError(e);
+  }
+}
+
+/**
+ * Change a code's limits or label, revoke it, or rotate it (revoke it and
+ * create a random replacement with the same label and limits; an expiry
+ * that has already passed isn't carried over).
+ *
+ * Body: { league_id, id, label?, expires_at?, max_uses?, revoked?, rotate? }
+ */
+export async function PATCH(req: Request) {
+  try {
+    const { body, league_id, user } = await readLeague(req);
+    const id = String(body.id ?? "").trim();
+    if (!id) throw new Error("Missing id");
+
+    const { data: invite, error: inviteErr } = await supabaseAdmin
+      .from("league_invites")
+      .select(INVITE_COLUMNS)
+      .eq("league_id", league_id)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (inviteErr) throw inviteErr;
+    if (!invite) {
+      return NextResponse.json({ error: "Invite not found" }, { status: 404 });
+    }
+
+    const { limits, error: limitErr } = readLimits(body);
+    if (limitErr) {
+      return NextResponse.json({ error: limitErr }, { status: 400 });
+    }
+
+    const update: Record<string, unknown> = { ...limits };
+    if (body.label !== undefined) {
+      update.label = String(body.label ?? "").trim() || null;
+    }
+    if (body.revoked !== undefined || body.rotate) {
+      update.revoked_at =
+        body.revoked === false && !body.rotate
+          ? null
+          : invite.revoked_at ?? new Date().toISOString();
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const { data: updated, error: updErr } = await supabaseAdmin
+      .from("league_invites")
+      .update(update)
+      .eq("league_id", league_id)
+      .eq("id", id)
+      .select(INVITE_COLUMNS)
+      .single();
+
+    if (updErr) throw updErr;
+
+    if (!body.rotate) {
+      return NextResponse.json({ ok: true, league_id, invite: updated });
+    }
+
+    const { data: replacement, error: newErr } = await supabaseAdmin
+      .from("league_invites")
+      .insert({
+        league_id,
+        code: randomCode(),
+        label: updated.label,
+        expires_at:
+          updated.expires_at &&
+          new Date(updated.expires_at).getTime() > Date.now()
+            ? updated.expires_at
+            : null,
+        max_uses: updated.max_uses,
+        created_by: user.id,
+      })
+      .select(INVITE_COLUMNS)
+      .single();
+
+    if (newErr) throw newErr;
+
+    return NextResponse.json({
+      ok: true,
+      league_id,
+      invite: updated,
+      replacement,
+    });
+  } catch (e: any) {
+    return respondError(e);
+  }
+}
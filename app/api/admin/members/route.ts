@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import {
+  errorStatus,
+  getRequestUser,
+  requireCommissioner,
+} from "@/src/lib/serverAuth";
+
+const ROLES = ["member", "commissioner"];
+
+async function readTarget(req: Request) {
+  const user = await getRequestUser(req);
+
+  const body = await req.json().catch(() => ({} as any));
+  const league_id = String(body.league_id ?? "").trim();
+  const user_id = String(body.user_id ?? "").trim();
+  if (!league_id || !user_id) throw new Error("Missing league_id or user_id");
+
+  await requireCommissioner(league_id, user.id);
+
+  return { body, league_id, user_id, isSelf: user_id === user.id };
+}
+
+function respondError(e: any) {
+  console.error("admin members error:", e);
+  const status = e?.message?.startsWith("Missing") ? 400 : errorStatus(e);
+  return NextResponse.json({ error: e?.message ?? String(e) }, { status });
+}
+
+/**
+ * Rename a member or change their role.
+ *
+ * Body: { league_id, user_id, display_name?, role? }
+ */
+export async function PATCH(req: Request) {
+  try {
+    const { body, league_id, user_id, isSelf } = await readTarget(req);
+
+    const update: Record<string, unknown> = {};
+
+    if (body.display_name !== undefined) {
+      const name = String(body.display_name ?? "").trim();
+      update.display_name = name || null;
+    }
+
+    if (body.role !== undefined) {
+      const role = String(body.role);
+      if (!ROLES.includes(role)) {
+        return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+      }
+      // Don't let the last person who can get in here lock themselves out
+      if (isSelf && role !== "commissioner") {
+        return NextResponse.json(
+          { error: "You can't remove your own commissioner role" },
+          { status: 400 }
+        );
+      }
+      update.role = role;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from("league_members")
+      .update(update)
+      .eq("league_id", league_id)
+      .eq("user_id", user_id);
+
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, league_id, user_id, ...update });
+  } catch (e: any) {
+    return respondError(e);
+  }
+}
+
+/**
+ * Remove a member from the league. Their picks stay for the record.
+ *
+ * Body: { league_id, user_id }
+ */
+export async function DELETE(req: Request) {
+  try {
+    const { league_id, user_id, isSelf } = await readTarget(req);
+
+    if (isSelf) {
+      return NextResponse.json(
+        { error: "You can't remove yourself" },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabaseAdmin
+      .from("league_members")
+      .delete()
+      .eq("league_id", league_id)
+      .eq("user_id", user_id);
+
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, league_id, user_id, removed: true });
+  } catch (e: any) {
+    return respondError(e);
+  }
+}
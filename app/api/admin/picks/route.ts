@@ -0,0 +1,164 @@
+import { NextResponse } from "next/server";
+import {
+  errorStatus,
+  getRequestUser,
+  requireCommissioner,
+  requireMember,
+} from "@/src/lib/serverAuth";
+import {
+  loadPickContext,
+  parsePickSubmission,
+  savePickSubmission,
+  validatePickSubmission,
+} from "@/src/lib/pickSubmission";
+import { isByeWeek } from "@/src/lib/rules";
+import { isTeamLocked, kickoffByTeam } from "@/src/lib/locks";
+
+function weekParam(v: unknown) {
+  return v != null && v !== "" ? Number(v) : undefined;
+}
+
+/**
+ * A member's saved picks for a week, for the commissioner override form.
+ * Goes through the service role, but follows the reveal rule members get:
+ * a pick shows once its team's game has kicked off, a bye once the week has
+ * locked. Anything still hidden is only counted (`hidden`); an override
+ * replaces it.
+ *
+ * Query: ?league_id=...&user_id=...&week_number=...
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getRequestUser(req);
+
+    const url = new URL(req.url);
+    const league_id = String(url.searchParams.get("league_id") ?? "").trim();
+    const user_id = String(url.searchParams.get("user_id") ?? "").trim();
+    if (!league_id || !user_id) {
+      return NextResponse.json(
+        { error: "Missing league_id or user_id" },
+        { status: 400 }
+      );
+    }
+
+    await requireCommissioner(league_id, user.id);
+    await requireMember(league_id, user_id);
+
+    const ctx = await loadPickContext({
+      league_id,
+      user_id,
+      week_number: weekParam(url.searchParams.get("week_number")),
+    });
+
+    const now = Date.now();
+    const kickoffs = kickoffByTeam(ctx.games);
+    const weekLocked =
+      !!ctx.weekCfg && new Date(ctx.weekCfg.lock_time).getTime() <= now;
+
+    const picks = Object.fromEntries(
+      Object.entries(ctx.saved.picks).filter(
+        ([, team]) => team && isTeamLocked(kickoffs, team, now)
+      )
+    );
+    const bye = ctx.saved.bye && weekLocked;
+    const hidden =
+      Object.keys(ctx.saved.picks).length -
+      Object.keys(picks).length +
+      (ctx.saved.bye && !bye ? 1 : 0);
+
+    return NextResponse.json({
+      ok: true,
+      league_id,
+      user_id,
+      season_year: ctx.league.season_year,
+      week_number: ctx.week_number,
+      picks_required: ctx.weekCfg?.picks_required ?? null,
+      saved: { bye, picks },
+      hidden,
+      games: ctx.games,
+      bye_allowed: isByeWeek(ctx.league.rules, ctx.week_number),
+      byes_left: Math.max(
+        0,
+        ctx.league.rules.byes_per_season - ctx.byesUsedElsewhere
+      ),
+    });
+  } catch (e: any) {
+    console.error("admin picks error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
+
+/**
+ * Enter or change a member's picks (or bye) on their behalf, including after
+ * lock. The reason is mandatory and lands in the pick history.
+ *
+ * Body: { league_id, user_id, week_number?, bye, picks: { 1?, 2? }, reason }
+ *
+ * 422 with { ok: false, errors: PickError[] } when a league rule is violated.
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await getRequestUser(req);
+
+    const body = await req.json().catch(() => ({} as any));
+    const league_id = String(body.league_id ?? "").trim();
+    const user_id = String(body.user_id ?? "").trim();
+    const reason = String(body.reason ?? "").trim();
+    if (!league_id || !user_id) {
+      return NextResponse.json(
+        { error: "Missing league_id or user_id" },
+        { status: 400 }
+      );
+    }
+    if (!reason) {
+      return NextResponse.json(
+        { error: "A reason is required for an override" },
+        { status: 400 }
+      );
+    }
+
+    await requireCommissioner(league_id, user.id);
+    await requireMember(league_id, user_id);
+
+    const ctx = await loadPickContext({
+      league_id,
+      user_id,
+      week_number: weekParam(body.week_number),
+    });
+
+    const sub = parsePickSubmission(body, ctx.league.rules.pick_mode);
+    const errors = validatePickSubmission(ctx, sub, { override: true });
+
+    if (errors.length > 0) {
+      return NextResponse.json({ ok: false, errors }, { status: 422 });
+    }
+
+    const saved = await savePickSubmission(ctx, user_id, sub, {
+      actor_id: user.id,
+      reason,
+    });
+    if (!saved.ok) {
+      return NextResponse.json(saved, { status: 422 });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      league_id,
+      user_id,
+      season_year: ctx.league.season_year,
+      week_number: ctx.week_number,
+      reason,
+      bye: saved.bye,
+      picks: saved.picks,
+    });
+  } catch (e: any) {
+    console.error("admin picks error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
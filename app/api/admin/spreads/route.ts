@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import {
+  errorStatus,
+  getRequestUser,
+  requireCommissioner,
+} from "@/src/lib/serverAuth";
+import { LAST_WEEK } from "@/src/lib/season";
+import { formatSpread, parseSpreadFile } from "@/src/lib/spreads";
+
+/**
+ * Commissioner import of a week's point spreads from a CSV or JSON file
+ * (see parseSpreadFile). A line may be given for either team of a game.
+ * All or nothing: a bad row, a team not playing, two lines that disagree or
+ * a game that has already kicked off (its line is frozen) fails the whole
+ * file with 422 { ok: false, errors }. Games not in the file keep their line.
+ *
+ * Body: { league_id, season_year?, week_number, file: "team,spread\nKC,-3.5" }
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await getRequestUser(req);
+
+    const body = await req.json().catch(() => ({} as any));
+    const league_id = String(body.league_id ?? "").trim();
+    if (!league_id) {
+      return NextResponse.json({ error: "Missing league_id" }, { status: 400 });
+    }
+
+    await requireCommissioner(league_id, user.id);
+
+    const { data: lg, error: lgErr } = await supabaseAdmin
+      .from("leagues")
+      .select("season_year")
+      .eq("id", league_id)
+      .single();
+
+    if (lgErr) throw lgErr;
+
+    const season_year = Number(body.season_year ?? lg.season_year);
+    const week_number = Number(body.week_number);
+    if (
+      !Number.isInteger(week_number) ||
+      week_number < 1 ||
+      week_number > LAST_WEEK
+    ) {
+      return NextResponse.json({ error: "Invalid week_number" }, { status: 400 });
+    }
+
+    const { lines, errors } = parseSpreadFile(String(body.file ?? ""));
+    if (errors.length === 0 && lines.length === 0) {
+      errors.push("The file has no lines.");
+    }
+
+    const { data: games, error: gamesErr } = await supabaseAdmin
+      .from("games")
+      .select("game_id,kickoff_time,home_abbr,away_abbr")
+      .eq("league_id", league_id)
+      .eq("season_year", season_year)
+      .eq("week_number", week_number);
+
+    if (gamesErr) throw gamesErr;
+
+    const now = Date.now();
+    const homeSpreadById = new Map<string, number>();
+
+    for (const line of lines) {
+      const g = (games ?? []).find(
+        (x: any) => x.home_abbr === line.team || x.away_abbr === line.team
+      );
+      if (!g) {
+        errors.push(`${line.team} is not playing this week.`);
+        continue;
+      }
+
+      const matchup = `${g.away_abbr} @ ${g.home_abbr}`;
+      if (new Date(g.kickoff_time).getTime() <= now) {
+        errors.push(`${matchup} has kicked off; its line is locked.`);
+        continue;
+      }
+
+      const home_spread = line.team === g.home_abbr ? line.spread : -line.spread;
+      const prev = homeSpreadById.get(g.game_id);
+      if (prev !== undefined && prev !== home_spread) {
+        errors.push(
+          `Conflicting lines for ${matchup}: ${g.home_abbr} ${formatSpread(
+            prev
+          )} and ${formatSpread(home_spread)}.`
+        );
+        continue;
+      }
+      homeSpreadById.set(g.game_id, home_spread);
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({ ok: false, errors }, { status: 422 });
+    }
+
+    const spread_updated_at = new Date().toISOString();
+
+    for (const [game_id, home_spread] of homeSpreadById) {
+      const { error: updErr } = await supabaseAdmin
+        .from("games")
+        .update({ home_spread, spread_updated_at })
+        .eq("league_id", league_id)
+        .eq("season_year", season_year)
+        .eq("game_id", game_id);
+
+      if (updErr) throw updErr;
+    }
+
+    return NextResponse.json({
+      ok: true,
+      league_id,
+      season_year,
+      week_number,
+      updated: homeSpreadById.size,
+      gamesFound: games?.length ?? 0,
+    });
+  } catch (e: any) {
+    console.error("admin spreads error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { randomBytes } from "node:crypto";
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import {
+  errorStatus,
+  getRequestUser,
+  requireCommissioner,
+} from "@/src/lib/serverAuth";
+import { WEBHOOK_EVENTS, WEBHOOK_FORMATS } from "@/src/lib/webhooks/types";
+
+async function readLeague(req: Request) {
+  const user = await getRequestUser(req);
+
+  const body = await req.json().catch(() => ({} as any));
+  const league_id = String(body.league_id ?? "").trim();
+  if (!league_id) throw new Error("Missing league_id");
+
+  await requireCommissioner(league_id, user.id);
+
+  return { body, league_id };
+}
+
+function respondError(e: any) {
+  console.error("admin webhooks error:", e);
+  const status = e?.message?.startsWith("Missing") ? 400 : errorStatus(e);
+  return NextResponse.json({ error: e?.message ?? String(e) }, { status });
+}
+
+function parseUrl(raw: unknown) {
+  try {
+    const url = new URL(String(raw ?? "").trim());
+    return url.protocol === "https:" || url.protocol === "http:"
+      ? url.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseEvents(raw: unknown) {
+  if (!Array.isArray(raw)) return null;
+  const known = new Set<string>(WEBHOOK_EVENTS.map((e) => e.type));
+  const events = [...new Set(raw.map(String))];
+  return events.every((e) => known.has(e)) ? events : null;
+}
+
+/**
+ * Add a destination. Generic JSON destinations get a signing secret.
+ *
+ * Body: { league_id, url, format, events? }
+ */
+export async function POST(req: Request) {
+  try {
+    const { body, league_id } = await readLeague(req);
+
+    const url = parseUrl(body.url);
+    if (!url) {
+      return NextResponse.json(
+        { error: "URL must start with https:// or http://" },
+        { status: 400 }
+      );
+    }
+
+    const format = String(body.format ?? "");
+    if (!WEBHOOK_FORMATS.some((f) => f.format === format)) {
+      return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+    }
+
+    const events =
+      body.events === undefined
+        ? WEBHOOK_EVENTS.map((e) => e.type)
+        : parseEvents(body.events);
+    if (!events) {
+      return NextResponse.json({ error: "Invalid events" }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("webhooks")
+      .insert({
+        league_id,
+        url,
+        format,
+        events,
+        secret: format === "json" ? randomBytes(24).toString("hex") : null,
+      })
+      .select("id,url,format,events,secret,enabled,created_at")
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, league_id, webhook: data });
+  } catch (e: any) {
+    return respondError(e);
+  }
+}
+
+/**
+ * Enable/disable a destination or change its events.
+ *
+ * Body: { league_id, id, enabled?, events? }
+ */
+export async function PATCH(req: Request) {
+  try {
+    const { body, league_id } = await readLeague(req);
+    const id = String(body.id ?? "").trim();
+    if (!id) throw new Error("Missing id");
+
+    const update: Record<string, unknown> = {};
+
+    if (body.enabled !== undefined) update.enabled = !!body.enabled;
+
+    if (body.events !== undefined) {
+      const events = parseEvents(body.events);
+      if (!events) {
+        return NextResponse.json({ error: "Invalid events" }, { status: 400 });
+      }
+      update.events = events;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from("webhooks")
+      .update(update)
+      .eq("league_id", league_id)
+      .eq("id", id);
+
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, league_id, id, ...update });
+  } catch (e: any) {
+    return respondError(e);
+  }
+}
+
+/**
+ * Remove a destination along with its delivery log.
+ *
+ * Body: { league_id, id }
+ */
+export async function DELETE(req: Request) {
+  try {
+    const { body, league_id } = await readLeague(req);
+    const id = String(body.id ?? "").trim();
+    if (!id) throw new Error("Missing id");
+
+    const { error } = await supabaseAdmin
+      .from("webhooks")
+      .delete()
+      .eq("league_id", league_id)
+      .eq("id", id);
+
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, league_id, id, removed: true });
+  } catch (e: any) {
+    return respondError(e);
+  }
+}
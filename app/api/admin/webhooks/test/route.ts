@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import {
+  errorStatus,
+  getRequestUser,
+  requireCommissioner,
+} from "@/src/lib/serverAuth";
+import { emitLeagueEvent } from "@/src/lib/webhooks/deliver";
+import { fetchEventLeague, testEvent } from "@/src/lib/webhooks/events";
+
+/**
+ * Sends a test message to one destination right away. It shows up in the
+ * delivery log like any other event (and is retried if it fails).
+ *
+ * Body: { league_id, id }
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await getRequestUser(req);
+
+    const body = await req.json().catch(() => ({} as any));
+    const league_id = String(body.league_id ?? "").trim();
+    const id = String(body.id ?? "").trim();
+    if (!league_id || !id) {
+      return NextResponse.json(
+        { error: "Missing league_id or id" },
+        { status: 400 }
+      );
+    }
+
+    await requireCommissioner(league_id, user.id);
+
+    const { data: hook, error: hookErr } = await supabaseAdmin
+      .from("webhooks")
+      .select("id,enabled")
+      .eq("league_id", league_id)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (hookErr) throw hookErr;
+    if (!hook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+    if (!hook.enabled) {
+      return NextResponse.json(
+        { error: "Enable the webhook to send a test" },
+        { status: 400 }
+      );
+    }
+
+    const lg = await fetchEventLeague(league_id);
+    const result = await emitLeagueEvent(testEvent(lg, lg.current_week), {
+      webhook_id: id,
+    });
+
+    return NextResponse.json({ ok: true, league_id, id, ...result });
+  } catch (e: any) {
+    console.error("admin webhooks test error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import {
+  errorStatus,
+  getRequestUser,
+  requireCommissioner,
+} from "@/src/lib/serverAuth";
+import { LAST_WEEK } from "@/src/lib/season";
+
+function isoOrNull(v: unknown) {
+  if (v == null || v === "") return null;
+  const d = new Date(String(v));
+  if (Number.isNaN(d.getTime())) throw new Error(`Invalid date: ${v}`);
+  return d.toISOString();
+}
+
+/**
+ * Commissioner edit of a `weeks` row (creates it if missing).
+ *
+ * Body: { league_id, season_year?, week_number, picks_required?, lock_time?,
+ *         reveal_time? }
+ */
+export async function PATCH(req: Request) {
+  try {
+    const user = await getRequestUser(req);
+
+    const body = await req.json().catch(() => ({} as any));
+    const league_id = String(body.league_id ?? "").trim();
+    if (!league_id) {
+      return NextResponse.json({ error: "Missing league_id" }, { status: 400 });
+    }
+
+    await requireCommissioner(league_id, user.id);
+
+    const { data: lg, error: lgErr } = await supabaseAdmin
+      .from("leagues")
+      .select("season_year")
+      .eq("id", league_id)
+      .single();
+
+    if (lgErr) throw lgErr;
+
+    const season_year = Number(body.season_year ?? lg.season_year);
+    const week_number = Number(body.week_number);
+    if (!Number.isInteger(week_number) || week_number < 1 || week_number > LAST_WEEK) {
+      return NextResponse.json({ error: "Invalid week_number" }, { status: 400 });
+    }
+
+    const { data: existing, error: exErr } = await supabaseAdmin
+      .from("weeks")
+      .select("picks_required,lock_time,reveal_time")
+      .eq("league_id", league_id)
+      .eq("season_year", season_year)
+      .eq("week_number", week_number)
+      .maybeSingle();
+
+    if (exErr) throw exErr;
+
+    let lock_time: string | null;
+    let reveal_time: string | null;
+    try {
+      lock_time = isoOrNull(body.lock_time) ?? existing?.lock_time ?? null;
+      reveal_time = isoOrNull(body.reveal_time) ?? existing?.reveal_time ?? null;
+    } catch (e: any) {
+      return NextResponse.json({ error: e.message }, { status: 400 });
+    }
+
+    const picks_required = Number(
+      body.picks_required ?? existing?.picks_required ?? NaN
+    );
+    if (picks_required !== 1 && picks_required !== 2) {
+      return NextResponse.json(
+        { error: "picks_required must be 1 or 2" },
+        { status: 400 }
+      );
+    }
+    if (!lock_time || !reveal_time) {
+      return NextResponse.json(
+        { error: "lock_time and reveal_time are required for a new week" },
+        { status: 400 }
+      );
+    }
+
+    const row = {
+      league_id,
+      season_year,
+      week_number,
+      picks_required,
+      lock_time,
+      reveal_time,
+    };
+
+    const { error: upErr } = await supabaseAdmin
+      .from("weeks")
+      .upsert(row, { onConflict: "league_id,season_year,week_number" });
+
+    if (upErr) throw upErr;
+
+    return NextResponse.json({ ok: true, week: row });
+  } catch (e: any) {
+    console.error("admin week error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { randomBytes } from "node:crypto";
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import { errorStatus, getRequestUser } from "@/src/lib/serverAuth";
+
+/**
+ * The signed-in user's calendar feed token, created on first use. Rotating
+ * it replaces the token, so every old feed URL stops working.
+ *
+ * Body: { rotate? }
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await getRequestUser(req);
+    const body = await req.json().catch(() => ({} as any));
+
+    if (!body.rotate) {
+      const { data, error } = await supabaseAdmin
+        .from("calendar_feeds")
+        .select("token")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) return NextResponse.json({ ok: true, token: data.token });
+    }
+
+    const token = randomBytes(24).toString("hex");
+
+    const { error } = await supabaseAdmin.from("calendar_feeds").upsert(
+      { user_id: user.id, token, created_at: new Date().toISOString() },
+      { onConflict: "user_id" }
+    );
+
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true, token, rotated: !!body.rotate });
+  } catch (e: any) {
+    console.error("calendar-token error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import { userCalendar } from "@/src/lib/calendar";
+
+/**
+ * A user's pick deadlines as an iCalendar feed, for subscribing from a
+ * calendar app. The token (see /api/calendar-token) is the credential, since
+ * calendar apps can't sign in.
+ *
+ * GET /api/calendar/<token>.ics[?games=1] — games=1 adds every kickoff.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const token = (await params).token.replace(/\.ics$/i, "");
+
+    const { data: feed, error: feedErr } = await supabaseAdmin
+      .from("calendar_feeds")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (feedErr) throw feedErr;
+    if (!feed) {
+      return NextResponse.json({ error: "Feed not found" }, { status: 404 });
+    }
+
+    const url = new URL(req.url);
+    const games = ["1", "true"].includes(url.searchParams.get("games") ?? "");
+    const appUrl = (process.env.APP_URL ?? url.origin).replace(/\/$/, "");
+
+    const ics = await userCalendar({ user_id: feed.user_id, games, appUrl });
+
+    return new NextResponse(ics, {
+      headers: {
+        "content-type": "text/calendar; charset=utf-8",
+        "content-disposition": 'inline; filename="pickem.ics"',
+        "cache-control": "private, max-age=300",
+      },
+    });
+  } catch (e: any) {
+    console.error("calendar error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import {
+  errorStatus,
+  isCronRequest,
+  requireCronOrCommissioner,
+} from "@/src/lib/serverAuth";
+import { deliverPending, emitLeagueEvent } from "@/src/lib/webhooks/deliver";
+import { fetchEventLeague, weekRevealedEvent } from "@/src/lib/webhooks/events";
+
+async function dispatchLeague(league_id: string) {
+  const lg = await fetchEventLeague(league_id);
+
+  const { data: weekRow, error: weekErr } = await supabaseAdmin
+    .from("weeks")
+    .select("reveal_time")
+    .eq("league_id", league_id)
+    .eq("season_year", lg.season_year)
+    .eq("week_number", lg.current_week)
+    .maybeSingle();
+
+  if (weekErr) throw weekErr;
+
+  // Grading and advancing emit their own events; the reveal has no job of
+  // its own, so it's noticed here once the week's reveal_time passes
+  const revealed =
+    !!weekRow?.reveal_time &&
+    new Date(weekRow.reveal_time).getTime() <= Date.now();
+
+  const reveal = revealed
+    ? await emitLeagueEvent(await weekRevealedEvent(lg, lg.current_week), {
+        occurred_at: weekRow!.reveal_time,
+      })
+    : null;
+
+  // Then retry anything earlier that failed and is due again
+  const retried = await deliverPending({ league_id });
+
+  return { league_id, week_number: lg.current_week, reveal, retried };
+}
+
+/**
+ * Emits the week_revealed event once the current week's picks have all been
+ * revealed, and retries failed webhook deliveries that are due. Meant to run
+ * every few minutes.
+ *
+ * Body: { league_id? } — one league (cron or its commissioner), or every
+ * league when omitted (cron only).
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({} as any));
+    const league_id = String(body.league_id ?? "").trim();
+
+    let leagueIds: string[];
+
+    if (league_id) {
+      await requireCronOrCommissioner(req, league_id);
+      leagueIds = [league_id];
+    } else {
+      if (!isCronRequest(req)) throw new Error("Unauthorized");
+
+      const { data, error } = await supabaseAdmin
+        .from("webhooks")
+        .select("league_id")
+        .eq("enabled", true);
+      if (error) throw error;
+      leagueIds = [...new Set((data ?? []).map((w: any) => w.league_id))];
+    }
+
+    const results: (
+      | Awaited<ReturnType<typeof dispatchLeague>>
+      | { league_id: string; error: string }
+    )[] = [];
+    for (const id of leagueIds) {
+      try {
+        results.push(await dispatchLeague(id));
+      } catch (e: any) {
+        console.error(`dispatch-webhooks error (league ${id}):`, e);
+        results.push({ league_id: id, error: e?.message ?? String(e) });
+      }
+    }
+
+    return NextResponse.json({ ok: true, results });
+  } catch (e: any) {
+    console.error("dispatch-webhooks error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
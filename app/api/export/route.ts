@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import {
+  errorStatus,
+  getRequestUser,
+  requireMember,
+} from "@/src/lib/serverAuth";
+import { buildSeasonExport, tableCsv } from "@/src/lib/seasonExport";
+import { EXPORT_TABLES, type ExportTable } from "@/src/lib/exportTables";
+
+/**
+ * Downloads a league season: every table as one JSON document, or one table
+ * as CSV. Members get the weeks that have fully revealed (reveal_time has
+ * passed); commissioners get everything.
+ *
+ * GET ?league_id&season_year?&format=json|csv&table? (table is required
+ * for CSV: members, picks, byes, results or weekly_scores)
+ */
+export async function GET(req: Request) {
+  try {
+    const user = await getRequestUser(req);
+
+    const params = new URL(req.url).searchParams;
+    const league_id = String(params.get("league_id") ?? "").trim();
+    if (!league_id) {
+      return NextResponse.json({ error: "Missing league_id" }, { status: 400 });
+    }
+
+    const me = await requireMember(league_id, user.id);
+
+    const format = params.get("format") ?? "json";
+    const table = params.get("table") as ExportTable | null;
+    if (format !== "json" && format !== "csv") {
+      return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+    }
+    if (format === "csv" && (!table || !EXPORT_TABLES.includes(table))) {
+      return NextResponse.json(
+        { error: `CSV needs a table: ${EXPORT_TABLES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    let season_year = Number(params.get("season_year"));
+    if (!params.get("season_year")) {
+      const { data: lg, error: lgErr } = await supabaseAdmin
+        .from("leagues")
+        .select("season_year")
+        .eq("id", league_id)
+        .single();
+
+      if (lgErr) throw lgErr;
+      season_year = lg.season_year;
+    }
+    if (!Number.isInteger(season_year)) {
+      return NextResponse.json({ error: "Invalid season_year" }, { status: 400 });
+    }
+
+    const data = await buildSeasonExport({
+      league_id,
+      season_year,
+      revealedOnly: me.role !== "commissioner",
+    });
+
+    const slug =
+      data.league.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "") || "league";
+    const filename =
+      format === "csv"
+        ? `${slug}-${season_year}-${table}.csv`
+        : `${slug}-${season_year}.json`;
+
+    return new NextResponse(
+      format === "csv"
+        ? tableCsv(data, table!)
+        : JSON.stringify(data, null, 2),
+      {
+        headers: {
+          "content-type":
+            format === "csv"
+              ? "text/csv; charset=utf-8"
+              : "application/json; charset=utf-8",
+          "content-disposition": `attachment; filename="${filename}"`,
+          "cache-control": "no-store",
+        },
+      }
+    );
+  } catch (e: any) {
+    console.error("export error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
@@ -1,21 +1,19 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
-
-function mustBeCron(req: Request) {
-  const isVercelCron = req.headers.get("x-vercel-cron") === "1";
-  const hasSecret =
-    req.headers.get("x-cron-secret") === process.env.CRON_SECRET;
-  if (!isVercelCron && !hasSecret) throw new Error("Unauthorized");
-}
-
-async function getLeagueContextFromBody(req: Request) {
-  const body = await req.json().catch(() => ({} as any));
-  const league_id = String(body.league_id ?? "").trim();
-  if (!league_id) throw new Error("Missing league_id");
-
+import { errorStatus, requireCronOrCommissioner } from "@/src/lib/serverAuth";
+import { normalizeRules, pointsFor } from "@/src/lib/rules";
+import { teamSpread } from "@/src/lib/spreads";
+import { gradePick } from "@/src/lib/grading";
+import {
+  emitLeagueEvent,
+  type DeliveryResult,
+} from "@/src/lib/webhooks/deliver";
+import { fetchEventLeague, weekGradedEvent } from "@/src/lib/webhooks/events";
+
+async function getLeagueContextById(league_id: string) {
   const { data, error } = await supabaseAdmin
     .from("leagues")
-    .select("id,season_year,current_week")
+    .select("id,season_year,current_week,rules")
     .eq("id", league_id)
     .single();
 
@@ -26,15 +24,26 @@ async function getLeagueContextFromBody(req: Request) {
     league_id: data.id as string,
     season_year: data.season_year as number,
     week_number: data.current_week as number,
+    rules: normalizeRules(data.rules),
   };
 }
 
 export async function POST(req: Request) {
   try {
-    mustBeCron(req);
+    const body = await req.json().catch(() => ({} as any));
+    const league_id = String(body.league_id ?? "").trim();
+    if (!league_id) {
+      return NextResponse.json({ error: "Missing league_id" }, { status: 400 });
+    }
+
+    // Scheduler (cron secret) or a commissioner running it from /admin
+    await requireCronOrCommissioner(req, league_id);
 
-    const { league_id, season_year, week_number } =
-      await getLeagueContextFromBody(req);
+    const ctx = await getLeagueContextById(league_id);
+
+    // Optional overrides (e.g. re-grading a past week), otherwise current week
+    const season_year = Number(body.season_year ?? ctx.season_year);
+    const week_number = Number(body.week_number ?? ctx.week_number);
 
     // 1) Load all picks for this league/week
     const { data: allPicks, error: picksErr } = await supabaseAdmin
@@ -46,28 +55,60 @@ export async function POST(req: Request) {
 
     if (picksErr) throw picksErr;
 
-    // 2) Load games for THIS league/week + compute winners
+    // 2) Load games for THIS league/week
     const { data: games, error: gamesErr } = await supabaseAdmin
       .from("games")
-      .select("status,winner_abbr")
+      .select(
+        "game_id,kickoff_time,status,winner_abbr,home_abbr,away_abbr,home_score,away_score,home_spread,locked_home_spread"
+      )
       .eq("league_id", league_id)
       .eq("season_year", season_year)
       .eq("week_number", week_number);
 
     if (gamesErr) throw gamesErr;
 
-    const winners = new Set<string>();
-    let allFinal = true;
+    // Against the spread: freeze each game's line once it has kicked off
+    if (ctx.rules.spread_picks) {
+      const now = Date.now();
+
+      for (const g of games ?? []) {
+        if (g.locked_home_spread != null || g.home_spread == null) continue;
+        if (new Date(g.kickoff_time).getTime() > now) continue;
+
+        const { error: lockErr } = await supabaseAdmin
+          .from("games")
+          .update({ locked_home_spread: g.home_spread })
+          .eq("league_id", league_id)
+          .eq("season_year", season_year)
+          .eq("game_id", g.game_id);
+
+        if (lockErr) throw lockErr;
+        g.locked_home_spread = g.home_spread;
+      }
+    }
+
+    // Each pick is graded as soon as its own game is final
+    const gameByTeam = new Map<string, any>();
+    let allFinal = (games ?? []).length > 0;
 
     for (const g of games ?? []) {
       if (g.status !== "final") allFinal = false;
-      if (g.winner_abbr) winners.add(g.winner_abbr);
+      gameByTeam.set(g.home_abbr, g);
+      gameByTeam.set(g.away_abbr, g);
     }
 
-    const results = (allPicks ?? []).map((p: any) => {
-      let result: "win" | "loss" | "pending" = "pending";
-      if (allFinal) result = winners.has(p.team_abbr) ? "win" : "loss";
+    // The picked team's line, when the league picks against the spread
+    function spreadFor(team_abbr: string) {
+      const g = gameByTeam.get(team_abbr);
+      return ctx.rules.spread_picks && g ? teamSpread(g, team_abbr) : null;
+    }
 
+    const results = (allPicks ?? []).map((p: any) => {
+      const spread = spreadFor(p.team_abbr);
+      const result = gradePick(gameByTeam.get(p.team_abbr), p.team_abbr, {
+        allFinal,
+        spread,
+      });
       return {
         league_id,
         season_year,
@@ -76,28 +117,83 @@ export async function POST(req: Request) {
         slot: p.slot,
         team_abbr: p.team_abbr,
         result,
+        spread,
+        // In confidence leagues the slot is the pick's confidence value
+        points:
+          result === "pending" ? null : pointsFor(ctx.rules, result, p.slot),
       };
     });
 
-    // Clear then write for deterministic re-runs
-    const { error: delErr } = await supabaseAdmin
+    // 3) Write only what changed, so re-runs every few minutes don't churn
+    // rows (and realtime listeners) while the week is in progress
+    const { data: existing, error: exErr } = await supabaseAdmin
       .from("pick_results")
-      .delete()
+      .select("user_id,slot,team_abbr,result,points,spread")
       .eq("league_id", league_id)
       .eq("season_year", season_year)
       .eq("week_number", week_number);
 
-    if (delErr) throw delErr;
+    if (exErr) throw exErr;
+
+    const key = (r: { user_id: string; slot: number }) => `${r.user_id}:${r.slot}`;
+    const existingByKey = new Map<string, any>();
+    (existing ?? []).forEach((r: any) => existingByKey.set(key(r), r));
+
+    const changed = results.filter((r) => {
+      const cur = existingByKey.get(key(r));
+      return (
+        !cur ||
+        cur.team_abbr !== r.team_abbr ||
+        cur.result !== r.result ||
+        (cur.points == null ? null : Number(cur.points)) !== r.points ||
+        (cur.spread == null ? null : Number(cur.spread)) !== r.spread
+      );
+    });
 
-    if (results.length > 0) {
+    if (changed.length > 0) {
       const { error: prErr } = await supabaseAdmin
         .from("pick_results")
-        .upsert(results, {
+        .upsert(changed, {
           onConflict: "league_id,season_year,week_number,user_id,slot",
         });
       if (prErr) throw prErr;
     }
 
+    // Drop results for picks that no longer exist (e.g. switched to a bye)
+    const current = new Set(results.map(key));
+    const stale = (existing ?? []).filter((r: any) => !current.has(key(r)));
+
+    for (const r of stale) {
+      const { error: delErr } = await supabaseAdmin
+        .from("pick_results")
+        .delete()
+        .eq("league_id", league_id)
+        .eq("season_year", season_year)
+        .eq("week_number", week_number)
+        .eq("user_id", r.user_id)
+        .eq("slot", r.slot);
+
+      if (delErr) throw delErr;
+    }
+
+    // Announce the current week once it's fully graded (the event key
+    // dedupes re-runs). Webhook trouble mustn't fail the grading itself.
+    let webhooks: DeliveryResult | null = null;
+    if (
+      allFinal &&
+      season_year === ctx.season_year &&
+      week_number === ctx.week_number
+    ) {
+      try {
+        const lg = await fetchEventLeague(league_id);
+        webhooks = await emitLeagueEvent(
+          await weekGradedEvent(lg, week_number)
+        );
+      } catch (e) {
+        console.error("grade-week webhook error:", e);
+      }
+    }
+
     return NextResponse.json({
       ok: true,
       league_id,
@@ -105,14 +201,20 @@ export async function POST(req: Request) {
       week_number,
       picksFound: allPicks?.length ?? 0,
       gamesFound: games?.length ?? 0,
-      resultsWritten: results.length,
+      resultsWritten: changed.length,
+      resultsRemoved: stale.length,
+      graded: results.filter((r) => r.result !== "pending").length,
+      pending: results.filter((r) => r.result === "pending").length,
+      pushes: results.filter((r) => r.result === "push").length,
+      points: results.reduce((sum, r) => sum + (r.points ?? 0), 0),
       allFinal,
+      webhooks,
     });
   } catch (e: any) {
     console.error("grade-week error:", e);
     return NextResponse.json(
       { error: e?.message ?? String(e) },
-      { status: e?.message === "Unauthorized" ? 401 : 500 }
+      { status: errorStatus(e) }
     );
   }
 }
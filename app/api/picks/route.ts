@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { errorStatus, getRequestUser, requireMember } from "@/src/lib/serverAuth";
+import {
+  loadPickContext,
+  parsePickSubmission,
+  savePickSubmission,
+  validatePickSubmission,
+} from "@/src/lib/pickSubmission";
+
+/**
+ * Save the caller's picks (or bye) for a week.
+ *
+ * Body: { league_id, week_number?, bye: boolean, picks: { 1?: "KC", 2?: "BUF" } }
+ * (confidence leagues: picks is { [confidence]: team } covering every game)
+ *
+ * 422 with { ok: false, errors: PickError[] } when any rule is violated;
+ * nothing is written in that case.
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await getRequestUser(req);
+
+    const body = await req.json().catch(() => ({} as any));
+    const league_id = String(body.league_id ?? "").trim();
+    if (!league_id) {
+      return NextResponse.json({ error: "Missing league_id" }, { status: 400 });
+    }
+
+    await requireMember(league_id, user.id);
+
+    const ctx = await loadPickContext({
+      league_id,
+      user_id: user.id,
+      week_number:
+        body.week_number != null ? Number(body.week_number) : undefined,
+    });
+
+    const sub = parsePickSubmission(body, ctx.league.rules.pick_mode);
+    const errors = validatePickSubmission(ctx, sub);
+
+    if (errors.length > 0) {
+      return NextResponse.json({ ok: false, errors }, { status: 422 });
+    }
+
+    const saved = await savePickSubmission(ctx, user.id, sub);
+    if (!saved.ok) {
+      return NextResponse.json(saved, { status: 422 });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      league_id,
+      season_year: ctx.league.season_year,
+      week_number: ctx.week_number,
+      bye: saved.bye,
+      picks: saved.picks,
+    });
+  } catch (e: any) {
+    console.error("picks error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
@@ -0,0 +1,211 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import { errorStatus, requireCronOrCommissioner } from "@/src/lib/serverAuth";
+import { normalizeRules } from "@/src/lib/rules";
+import { getScoreProvider } from "@/src/lib/providers";
+import { nextWeek, weekLabel } from "@/src/lib/season";
+import { archiveSeason } from "@/src/lib/seasonArchive";
+import { syncGames } from "@/src/lib/syncGames";
+import { syncWeekConfig } from "@/src/lib/syncWeek";
+
+async function getLeagueById(league_id: string) {
+  const { data, error } = await supabaseAdmin
+    .from("leagues")
+    .select("id,name,season_year,current_week,rules,score_provider")
+    .eq("id", league_id)
+    .single();
+
+  if (error) throw error;
+  if (!data) throw new Error("League not found");
+
+  return {
+    id: data.id as string,
+    name: data.name as string,
+    season_year: data.season_year as number,
+    current_week: data.current_week as number,
+    rules: normalizeRules(data.rules),
+    score_provider: data.score_provider as string | null,
+  };
+}
+
+/**
+ * Starts the next season for a league:
+ *   1) archives the finished season's standings (season_archives)
+ *   2) syncs week 1 games + week config for season_year + 1
+ *   3) moves the league to season_year + 1, week 1
+ *
+ * Used teams and byes reset on their own (picks/byes are keyed by
+ * season_year) and league_members is per league, so membership carries over.
+ *
+ * Body: { league_id, force?: boolean } — force skips the "season is over"
+ * check. The scheduler may always force; a commissioner only once every
+ * game of the season is final. A forced rollover is recorded on the
+ * archive row (forced_at, forced_by).
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({} as any));
+    const league_id = String(body.league_id ?? "").trim();
+    if (!league_id) {
+      return NextResponse.json({ error: "Missing league_id" }, { status: 400 });
+    }
+
+    // Scheduler (cron secret) or a commissioner running it from /admin
+    const caller = await requireCronOrCommissioner(req, league_id);
+
+    const force = Boolean(body.force ?? false);
+    const lg = await getLeagueById(league_id);
+
+    if (!force) {
+      if (nextWeek(lg.current_week, lg.rules.postseason) !== null) {
+        return NextResponse.json({
+          ok: true,
+          league_id,
+          rolled_over: false,
+          reason: `Season not over yet (${weekLabel(lg.current_week)})`,
+          season_year: lg.season_year,
+          current_week: lg.current_week,
+        });
+      }
+
+      const { data: curGames, error: curGamesErr } = await supabaseAdmin
+        .from("games")
+        .select("status")
+        .eq("league_id", league_id)
+        .eq("season_year", lg.season_year)
+        .eq("week_number", lg.current_week);
+
+      if (curGamesErr) throw curGamesErr;
+
+      const allFinal =
+        (curGames ?? []).length > 0 &&
+        (curGames ?? []).every((g: any) => g.status === "final");
+
+      if (!allFinal) {
+        return NextResponse.json({
+          ok: true,
+          league_id,
+          rolled_over: false,
+          reason: "Final week not finished",
+          season_year: lg.season_year,
+          current_week: lg.current_week,
+        });
+      }
+    } else if (caller.via === "commissioner") {
+      const { data: seasonGames, error: seasonGamesErr } = await supabaseAdmin
+        .from("games")
+        .select("status")
+        .eq("league_id", league_id)
+        .eq("season_year", lg.season_year);
+
+      if (seasonGamesErr) throw seasonGamesErr;
+
+      const unfinished = (seasonGames ?? []).filter(
+        (g: any) => g.status !== "final"
+      ).length;
+
+      if (unfinished > 0) {
+        return NextResponse.json({
+          ok: true,
+          league_id,
+          rolled_over: false,
+          reason:
+            `${unfinished} game${unfinished === 1 ? "" : "s"} not final; ` +
+            "a commissioner can only force a rollover once every game is",
+          season_year: lg.season_year,
+          current_week: lg.current_week,
+        });
+      }
+    }
+
+    // 1) Archive the finished season
+    const archive = await archiveSeason({
+      league_id,
+      season_year: lg.season_year,
+      final_week: lg.current_week,
+      rules: lg.rules,
+    });
+
+    if (force) {
+      const { error: forcedErr } = await supabaseAdmin
+        .from("season_archives")
+        .update({
+          forced_at: new Date().toISOString(),
+          forced_by: caller.user?.id ?? null,
+        })
+        .eq("league_id", league_id)
+        .eq("season_year", lg.season_year);
+
+      if (forcedErr) throw forcedErr;
+    }
+
+    const next_season = lg.season_year + 1;
+
+    // 2) Week 1 of the new season (retry-later if not published yet)
+    const sg = await syncGames({
+      league_id,
+      season_year: next_season,
+      week_number: 1,
+      provider: getScoreProvider(lg.score_provider),
+    });
+
+    if (!sg.ok) {
+      return NextResponse.json({
+        ok: true,
+        league_id,
+        rolled_over: false,
+        archived: true,
+        reason: sg.reason,
+        from_season: lg.season_year,
+        to_season: next_season,
+        sync_games: sg,
+      });
+    }
+
+    const sw = await syncWeekConfig({
+      league_id,
+      season_year: next_season,
+      week_number: 1,
+      rules: lg.rules,
+    });
+
+    if (!sw.ok) {
+      return NextResponse.json({
+        ok: true,
+        league_id,
+        rolled_over: false,
+        archived: true,
+        reason: sw.reason,
+        from_season: lg.season_year,
+        to_season: next_season,
+        sync_week: sw,
+      });
+    }
+
+    // 3) Move the league to the new season
+    const { error: updErr } = await supabaseAdmin
+      .from("leagues")
+      .update({ season_year: next_season, current_week: 1 })
+      .eq("id", league_id);
+
+    if (updErr) throw updErr;
+
+    return NextResponse.json({
+      ok: true,
+      league_id,
+      name: lg.name,
+      rolled_over: true,
+      from_season: lg.season_year,
+      to_season: next_season,
+      archived_members: archive.standings.length,
+      sync_games: sg,
+      sync_week: sw,
+    });
+  } catch (e: any) {
+    console.error("rollover-season error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
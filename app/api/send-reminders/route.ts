@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import {
+  errorStatus,
+  isCronRequest,
+  requireCronOrCommissioner,
+} from "@/src/lib/serverAuth";
+import { getMailTransport } from "@/src/lib/mail";
+import { sendPickReminders, type ReminderResult } from "@/src/lib/reminders";
+
+/**
+ * Emails members who have neither picks nor a bye for their league's current
+ * week, at rules.reminder_hours before its next kickoff (see reminders.ts);
+ * leagues without reminder_hours get none. Meant to run every few minutes.
+ *
+ * Body: { league_id? } — one league (cron or its commissioner), or every
+ * league when omitted (cron only). Mail goes through MAIL_TRANSPORT; links
+ * point at APP_URL (default: this request's origin).
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({} as any));
+    const league_id = String(body.league_id ?? "").trim();
+
+    let leagueIds: string[];
+
+    if (league_id) {
+      await requireCronOrCommissioner(req, league_id);
+      leagueIds = [league_id];
+    } else {
+      if (!isCronRequest(req)) throw new Error("Unauthorized");
+
+      const { data, error } = await supabaseAdmin.from("leagues").select("id");
+      if (error) throw error;
+      leagueIds = (data ?? []).map((l: any) => l.id as string);
+    }
+
+    const transport = getMailTransport();
+    const appUrl = (process.env.APP_URL ?? new URL(req.url).origin).replace(
+      /\/$/,
+      ""
+    );
+
+    // One league's trouble shouldn't stop the others' reminders
+    const results: (ReminderResult | { league_id: string; error: string })[] =
+      [];
+    for (const id of leagueIds) {
+      try {
+        results.push(
+          await sendPickReminders({ league_id: id, transport, appUrl })
+        );
+      } catch (e: any) {
+        console.error(`send-reminders error (league ${id}):`, e);
+        results.push({ league_id: id, error: e?.message ?? String(e) });
+      }
+    }
+
+    return NextResponse.json({
+      ok: true,
+      transport: transport.name,
+      sent: results.reduce((sum, r) => sum + ("sent" in r ? r.sent : 0), 0),
+      results,
+    });
+  } catch (e: any) {
+    console.error("send-reminders error:", e);
+    return NextResponse.json(
+      { error: e?.message ?? String(e) },
+      { status: errorStatus(e) }
+    );
+  }
+}
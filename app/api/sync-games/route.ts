@@ -1,17 +1,13 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
-
-function mustBeCron(req: Request) {
-  const isVercelCron = req.headers.get("x-vercel-cron") === "1";
-  const hasSecret =
-    req.headers.get("x-cron-secret") === process.env.CRON_SECRET;
-  if (!isVercelCron && !hasSecret) throw new Error("Unauthorized");
-}
+import { errorStatus, requireCronOrCommissioner } from "@/src/lib/serverAuth";
+import { getScoreProvider } from "@/src/lib/providers";
+import { syncGames } from "@/src/lib/syncGames";
 
 async function getLeagueContextById(league_id: string) {
   const { data, error } = await supabaseAdmin
     .from("leagues")
-    .select("id,season_year,current_week")
+    .select("id,season_year,current_week,score_provider")
     .eq("id", league_id)
     .single();
 
@@ -22,21 +18,12 @@ async function getLeagueContextById(league_id: string) {
     league_id: data.id,
     season_year: data.season_year,
     week_number: data.current_week,
+    score_provider: data.score_provider as string | null,
   };
 }
 
-function mapStatus(
-  state: string | undefined
-): "scheduled" | "inprogress" | "final" {
-  if (state === "in") return "inprogress";
-  if (state === "post") return "final";
-  return "scheduled";
-}
-
 export async function POST(req: Request) {
   try {
-    mustBeCron(req);
-
     const body = await req.json().catch(() => ({} as any));
 
     const league_id = String(body.league_id ?? "").trim();
@@ -44,104 +31,57 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Missing league_id" }, { status: 400 });
     }
 
+    // Scheduler (cron secret) or a commissioner running it from /admin
+    await requireCronOrCommissioner(req, league_id);
+
     const ctx = await getLeagueContextById(league_id);
 
     const season_year = Number(body.season_year ?? ctx.season_year);
+    // Postseason rounds are weeks 19–22; the provider's season type is
+    // derived from the week (see season.ts)
     const week_number = Number(body.week_number ?? ctx.week_number);
-    const season_type = Number(body.season_type ?? 2); // 2=regular, 3=postseason
-    const provider = String(body.provider ?? "espn");
 
-    const url = new URL(
-      "https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard"
-    );
-    url.searchParams.set("seasontype", String(season_type));
-    url.searchParams.set("week", String(week_number));
-    url.searchParams.set("dates", String(season_year));
+    // Per-league provider; a body override is handy for testing
+    const provider = getScoreProvider(body.provider ?? ctx.score_provider);
 
-    const r = await fetch(url.toString(), {
-      headers: { accept: "application/json" },
+    const sg = await syncGames({
+      league_id: ctx.league_id,
+      season_year,
+      week_number,
+      provider,
     });
-    if (!r.ok)
-      throw new Error(`ESPN fetch failed: ${r.status} ${await r.text()}`);
-
-    const json: any = await r.json();
-    const events: any[] = json.events ?? [];
-
-    const rows: any[] = [];
-
-    for (const ev of events) {
-      const comp = ev.competitions?.[0];
-      if (!comp) continue;
 
-      const competitors = comp.competitors ?? [];
-      const home = competitors.find((c: any) => c.homeAway === "home");
-      const away = competitors.find((c: any) => c.homeAway === "away");
-      if (!home?.team?.abbreviation || !away?.team?.abbreviation) continue;
-
-      const home_abbr = home.team.abbreviation;
-      const away_abbr = away.team.abbreviation;
-
-      const statusType = comp.status?.type;
-      const state = statusType?.state; // pre / in / post
-      const completed = !!statusType?.completed;
-
-      const status = mapStatus(state);
-      const kickoff_time = comp.date;
-
-      const home_score = home.score != null ? Number(home.score) : null;
-      const away_score = away.score != null ? Number(away.score) : null;
-
-      let winner_abbr: string | null = null;
-      if (completed && home_score != null && away_score != null) {
-        if (home_score > away_score) winner_abbr = home_abbr;
-        else if (away_score > home_score) winner_abbr = away_abbr;
-      }
-
-      rows.push({
-        league_id: ctx.league_id,
-        season_year,
-        week_number,
-        provider,
-        game_id: String(ev.id),
-        home_abbr,
-        away_abbr,
-        kickoff_time,
-        status,
-        home_score,
-        away_score,
-        winner_abbr,
-      });
+    if (!sg.ok && sg.code === "fetch_failed") {
+      throw new Error(
+        `${provider.name} fetch failed: ${sg.provider_status ?? ""} ${sg.provider_error ?? ""}`.trim()
+      );
     }
 
-    if (rows.length === 0) {
+    if (!sg.ok) {
       return NextResponse.json({
         ok: true,
         league_id: ctx.league_id,
         season_year,
         week_number,
+        provider: provider.name,
         upserted: 0,
         note: "No events returned",
       });
     }
 
-    const { error: upErr } = await supabaseAdmin
-      .from("games")
-      .upsert(rows, { onConflict: "league_id,season_year,game_id" });
-
-    if (upErr) throw upErr;
-
     return NextResponse.json({
       ok: true,
       league_id: ctx.league_id,
       season_year,
       week_number,
-      upserted: rows.length,
+      provider: provider.name,
+      upserted: sg.upserted,
     });
   } catch (e: any) {
     console.error("sync-games error:", e);
     return NextResponse.json(
       { error: e?.message ?? String(e) },
-      { status: e?.message === "Unauthorized" ? 401 : 500 }
+      { status: errorStatus(e) }
     );
   }
 }
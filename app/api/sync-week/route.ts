@@ -1,17 +1,13 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
-
-function mustBeCron(req: Request) {
-  const isVercelCron = req.headers.get("x-vercel-cron") === "1";
-  const hasSecret =
-    req.headers.get("x-cron-secret") === process.env.CRON_SECRET;
-  if (!isVercelCron && !hasSecret) throw new Error("Unauthorized");
-}
+import { errorStatus, requireCronOrCommissioner } from "@/src/lib/serverAuth";
+import { normalizeRules } from "@/src/lib/rules";
+import { syncWeekConfig } from "@/src/lib/syncWeek";
 
 async function getLeagueContextById(league_id: string) {
   const { data, error } = await supabaseAdmin
     .from("leagues")
-    .select("id,season_year,current_week")
+    .select("id,season_year,current_week,rules")
     .eq("id", league_id)
     .single();
 
@@ -22,13 +18,12 @@ async function getLeagueContextById(league_id: string) {
     league_id: data.id as string,
     season_year: data.season_year as number,
     week_number: data.current_week as number,
+    rules: normalizeRules(data.rules),
   };
 }
 
 export async function POST(req: Request) {
   try {
-    mustBeCron(req);
-
     const body = await req.json().catch(() => ({} as any));
 
     const league_id = String(body.league_id ?? "").trim();
@@ -36,6 +31,9 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Missing league_id" }, { status: 400 });
     }
 
+    // Scheduler (cron secret) or a commissioner running it from /admin
+    await requireCronOrCommissioner(req, league_id);
+
     const ctx = await getLeagueContextById(league_id);
 
     // Optional overrides (handy for testing), otherwise uses league context
@@ -45,23 +43,16 @@ export async function POST(req: Request) {
     // Only allow the old "+24h fallback" behavior if explicitly requested
     const allow_fallback_lock = Boolean(body.allow_fallback_lock ?? false);
 
-    // Keep your existing rule (adjust if playoffs differ)
-    const picks_required = week_number >= 17 ? 1 : 2;
-
-    // Earliest kickoff for THIS league/week
-    const { data: games, error: gamesErr } = await supabaseAdmin
-      .from("games")
-      .select("kickoff_time")
-      .eq("league_id", ctx.league_id)
-      .eq("season_year", season_year)
-      .eq("week_number", week_number)
-      .order("kickoff_time", { ascending: true })
-      .limit(1);
-
-    if (gamesErr) throw gamesErr;
+    const sw = await syncWeekConfig({
+      league_id: ctx.league_id,
+      season_year,
+      week_number,
+      rules: ctx.rules,
+      allow_fallback_lock,
+    });
 
     // If no games exist, refuse to create config unless fallback is allowed
-    if (!games?.length && !allow_fallback_lock) {
+    if (!sw.ok) {
       return NextResponse.json(
         {
           error:
@@ -74,43 +65,23 @@ export async function POST(req: Request) {
       );
     }
 
-    const lockIso = games?.[0]?.kickoff_time
-      ? new Date(games[0].kickoff_time).toISOString()
-      : new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(); // fallback only if allowed
-
-    const revealIso = lockIso;
-
-    const { error: weekErr } = await supabaseAdmin.from("weeks").upsert(
-      {
-        league_id: ctx.league_id,
-        season_year,
-        week_number,
-        picks_required,
-        lock_time: lockIso,
-        reveal_time: revealIso,
-      },
-      { onConflict: "league_id,season_year,week_number" }
-    );
-
-    if (weekErr) throw weekErr;
-
     return NextResponse.json({
       ok: true,
       league_id: ctx.league_id,
       season_year,
       week_number,
-      picks_required,
-      lock_time: lockIso,
-      reveal_time: revealIso,
-      note: games?.length
-        ? "lock set from games table"
-        : "no games found; used fallback lock time (allow_fallback_lock=true)",
+      picks_required: sw.picks_required,
+      lock_time: sw.lock_time,
+      reveal_time: sw.reveal_time,
+      note: sw.fallback_lock
+        ? "no games found; used fallback lock time (allow_fallback_lock=true)"
+        : "lock set from games table",
     });
   } catch (e: any) {
     console.error("sync-week error:", e);
     return NextResponse.json(
       { error: e?.message ?? String(e) },
-      { status: e?.message === "Unauthorized" ? 401 : 500 }
+      { status: errorStatus(e) }
     );
   }
 }
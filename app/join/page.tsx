@@ -1,31 +1,72 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { supabase } from "@/src/lib/supabaseClient";
 import { useRequireAuth } from "@/src/lib/useRequireAuth";
 import { useRouter } from "next/navigation";
+import { leaguePath, setActiveLeagueId } from "@/src/lib/leagues";
+import {
+  clearPendingInviteCode,
+  pendingInviteCode,
+  rememberInviteCode,
+} from "@/src/lib/invites";
 
 export default function JoinPage() {
   const router = useRouter();
-  const { loading } = useRequireAuth();
   const [code, setCode] = useState("");
   const [err, setErr] = useState<string | null>(null);
   const [busy, setBusy] = useState(false);
+  const autoJoined = useRef(false);
 
-  if (loading) return null;
+  // A /join?code=XYZ link: keep the code through login or signup (the auth
+  // check below sends signed-out visitors away before they can use it)
+  useEffect(() => {
+    const fromLink = new URLSearchParams(window.location.search).get("code");
+    if (fromLink) rememberInviteCode(fromLink);
 
-  async function onJoin(e: React.FormEvent) {
-    e.preventDefault();
+    const pending = pendingInviteCode();
+    if (pending) setCode(pending);
+  }, []);
+
+  const { loading } = useRequireAuth();
+
+  async function join(inviteCode: string) {
     setErr(null);
     setBusy(true);
 
-    const { data, error } = await supabase.rpc("join_league", { p_invite_code: code.trim() });
+    const { data, error } = await supabase.rpc("join_league", {
+      p_invite_code: inviteCode.trim(),
+    });
 
     setBusy(false);
+    // Used or rejected, the link's code has done its job
+    clearPendingInviteCode();
     if (error) return setErr(error.message);
 
-    // data is league_id
-    router.push("/picks");
+    // data is league_id; make the league just joined the active one
+    const leagueId = data ? String(data) : null;
+    if (!leagueId) return router.push("/picks");
+
+    setActiveLeagueId(leagueId);
+    router.push(leaguePath(leagueId, "/picks"));
+  }
+
+  // Signed in with a code from a link: join straight away
+  useEffect(() => {
+    if (loading || autoJoined.current) return;
+
+    const pending = pendingInviteCode();
+    if (!pending) return;
+
+    autoJoined.current = true;
+    join(pending);
+  }, [loading]);
+
+  if (loading) return null;
+
+  async function onJoin(e: React.FormEvent) {
+    e.preventDefault();
+    await join(code);
   }
 
   return (
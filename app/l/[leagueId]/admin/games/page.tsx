@@ -0,0 +1,299 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import { useParams } from "next/navigation";
+import { authedFetch } from "@/src/lib/api";
+import { normalizeRules, type LeagueRules } from "@/src/lib/rules";
+import { seasonWeeks, weekLabel } from "@/src/lib/season";
+import AdminNav from "@/src/components/AdminNav";
+
+type League = {
+  id: string;
+  name: string;
+  season_year: number;
+  current_week: number;
+  rules: LeagueRules;
+};
+
+type GameStatus = "scheduled" | "inprogress" | "final";
+
+type GameRow = {
+  game_id: string;
+  kickoff_time: string;
+  status: GameStatus;
+  home_abbr: string;
+  away_abbr: string;
+  home_score: number | null;
+  away_score: number | null;
+  winner_abbr: string | null;
+  result_override: boolean;
+};
+
+type GameEdit = { status: GameStatus; home_score: string; away_score: string };
+
+function fmtKickoff(dtIso: string) {
+  const d = new Date(dtIso);
+  return d.toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function editOf(g: GameRow): GameEdit {
+  return {
+    status: g.status,
+    home_score: g.home_score == null ? "" : String(g.home_score),
+    away_score: g.away_score == null ? "" : String(g.away_score),
+  };
+}
+
+export default function AdminGamesPage() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { loading } = useRequireAuth({ leagueId, requireCommissioner: true });
+
+  const [league, setLeague] = useState<League | null>(null);
+  const [week, setWeek] = useState<number | null>(null);
+  const [games, setGames] = useState<GameRow[]>([]);
+  const [edits, setEdits] = useState<Record<string, GameEdit>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(true);
+
+  useEffect(() => {
+    if (loading) return;
+
+    async function loadLeague() {
+      setBusy(true);
+      setErr(null);
+
+      const { data: leagueRow, error } = await supabase
+        .from("leagues")
+        .select("id,name,season_year,current_week,rules")
+        .eq("id", leagueId)
+        .maybeSingle();
+
+      if (error) {
+        setErr(error.message);
+        setBusy(false);
+        return;
+      }
+      if (!leagueRow) {
+        setErr("No league found.");
+        setBusy(false);
+        return;
+      }
+
+      const lg = {
+        ...leagueRow,
+        rules: normalizeRules(leagueRow.rules),
+      } as League;
+      setLeague(lg);
+      setWeek(lg.current_week);
+    }
+
+    loadLeague();
+  }, [loading, leagueId]);
+
+  useEffect(() => {
+    if (!league || week == null) return;
+
+    const leagueRowId = league.id;
+    const seasonYear = league.season_year;
+
+    async function loadGames() {
+      setBusy(true);
+      setErr(null);
+
+      const { data, error } = await supabase
+        .from("games")
+        .select(
+          "game_id,kickoff_time,status,home_abbr,away_abbr,home_score,away_score,winner_abbr,result_override"
+        )
+        .eq("league_id", leagueRowId)
+        .eq("season_year", seasonYear)
+        .eq("week_number", week!)
+        .order("kickoff_time", { ascending: true });
+
+      if (error) {
+        setErr(error.message);
+        setGames([]);
+        setBusy(false);
+        return;
+      }
+
+      const rows = (data ?? []) as GameRow[];
+      setGames(rows);
+      setEdits(Object.fromEntries(rows.map((g) => [g.game_id, editOf(g)])));
+      setBusy(false);
+    }
+
+    loadGames();
+  }, [league, week, reloadKey]);
+
+  async function patchGame(game: GameRow, body: Record<string, unknown>) {
+    setSavingId(game.game_id);
+    setErr(null);
+    setMsg(null);
+
+    try {
+      const res = await authedFetch("/api/admin/games", {
+        method: "PATCH",
+        body: JSON.stringify({
+          league_id: leagueId,
+          game_id: game.game_id,
+          ...body,
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+
+      setMsg(
+        `${game.away_abbr} @ ${game.home_abbr} saved. Run Grade week to update results.`
+      );
+      setReloadKey((k) => k + 1);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  function setEdit(game_id: string, patch: Partial<GameEdit>) {
+    setEdits((prev) => ({ ...prev, [game_id]: { ...prev[game_id], ...patch } }));
+  }
+
+  if (loading || (busy && !league)) return null;
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+      <h1 className="text-xl font-semibold">{league?.name} Admin • Games</h1>
+      <p className="mt-1 text-sm text-gray-600">
+        Corrected games are marked “Manual” and skipped by sync until released
+        back to the score provider.
+      </p>
+
+      <AdminNav leagueId={leagueId} />
+
+      <div className="mt-4 flex items-center justify-between gap-3">
+        <span className="text-sm font-medium">Week</span>
+        <select
+          className="rounded border p-2 text-sm"
+          value={week ?? ""}
+          onChange={(e) => setWeek(Number(e.target.value))}
+        >
+          {seasonWeeks(league?.rules.postseason ?? false).map((w) => (
+            <option key={w} value={w}>
+              {weekLabel(w)}
+              {w === league?.current_week ? " (current)" : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {err && (
+        <div className="mt-4 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          {err}
+        </div>
+      )}
+      {msg && <p className="mt-4 text-sm text-green-700">{msg}</p>}
+
+      <section className="mt-4 space-y-3">
+        {games.map((g) => {
+          const edit = edits[g.game_id] ?? editOf(g);
+          const saving = savingId === g.game_id;
+
+          return (
+            <div key={g.game_id} className="rounded border p-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-sm font-semibold">
+                  {g.away_abbr} @ {g.home_abbr}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {fmtKickoff(g.kickoff_time)}
+                  {g.result_override && (
+                    <span className="ml-2 rounded border border-amber-300 bg-amber-50 px-1 text-amber-800">
+                      Manual
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              <div className="mt-2 grid grid-cols-3 gap-2 text-sm">
+                <label className="block">
+                  <span className="text-xs text-gray-500">{g.away_abbr}</span>
+                  <input
+                    inputMode="numeric"
+                    className="mt-1 w-full rounded border p-2"
+                    value={edit.away_score}
+                    onChange={(e) =>
+                      setEdit(g.game_id, { away_score: e.target.value })
+                    }
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-xs text-gray-500">{g.home_abbr}</span>
+                  <input
+                    inputMode="numeric"
+                    className="mt-1 w-full rounded border p-2"
+                    value={edit.home_score}
+                    onChange={(e) =>
+                      setEdit(g.game_id, { home_score: e.target.value })
+                    }
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-xs text-gray-500">Status</span>
+                  <select
+                    className="mt-1 w-full rounded border p-2"
+                    value={edit.status}
+                    onChange={(e) =>
+                      setEdit(g.game_id, {
+                        status: e.target.value as GameStatus,
+                      })
+                    }
+                  >
+                    <option value="scheduled">Scheduled</option>
+                    <option value="inprogress">In progress</option>
+                    <option value="final">Final</option>
+                  </select>
+                </label>
+              </div>
+
+              <div className="mt-3 flex gap-2">
+                <button
+                  className="rounded border px-3 py-2 text-sm font-medium disabled:opacity-50"
+                  disabled={savingId !== null}
+                  onClick={() => patchGame(g, edit)}
+                >
+                  {saving ? "Saving..." : "Set result"}
+                </button>
+                {g.result_override && (
+                  <button
+                    className="rounded border px-3 py-2 text-sm disabled:opacity-50"
+                    disabled={savingId !== null}
+                    onClick={() => patchGame(g, { clear_override: true })}
+                  >
+                    Release to provider
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {!busy && games.length === 0 && (
+          <div className="rounded border p-3 text-sm text-gray-600">
+            No games for this week. Run Sync games first.
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import { useParams } from "next/navigation";
+import { authedFetch } from "@/src/lib/api";
+import { normalizeRules, type LeagueRules } from "@/src/lib/rules";
+import { seasonWeeks, weekLabel } from "@/src/lib/season";
+import type { PickEvent } from "@/src/lib/pickHistory";
+import AdminNav from "@/src/components/AdminNav";
+import PickHistory from "@/src/components/PickHistory";
+
+type League = {
+  id: string;
+  name: string;
+  season_year: number;
+  current_week: number;
+  rules: LeagueRules;
+};
+
+type RosterRow = { user_id: string; display_name: string | null };
+
+export default function AdminHistoryPage() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { loading } = useRequireAuth({ leagueId, requireCommissioner: true });
+
+  const [league, setLeague] = useState<League | null>(null);
+  const [roster, setRoster] = useState<RosterRow[]>([]);
+  const [week, setWeek] = useState<number | null>(null);
+  const [member, setMember] = useState<string>("");
+  const [events, setEvents] = useState<PickEvent[]>([]);
+  // Set while the week's history isn't open yet (before lock)
+  const [opensAt, setOpensAt] = useState<string | null>(null);
+  const [locked, setLocked] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(true);
+
+  useEffect(() => {
+    if (loading) return;
+
+    async function loadLeague() {
+      setBusy(true);
+      setErr(null);
+
+      const { data: leagueRow, error } = await supabase
+        .from("leagues")
+        .select("id,name,season_year,current_week,rules")
+        .eq("id", leagueId)
+        .maybeSingle();
+
+      if (error) {
+        setErr(error.message);
+        setBusy(false);
+        return;
+      }
+      if (!leagueRow) {
+        setErr("No league found.");
+        setBusy(false);
+        return;
+      }
+
+      const { data: rosterRows, error: rosterErr } = await supabase
+        .from("league_members")
+        .select("user_id,display_name")
+        .eq("league_id", leagueId);
+
+      if (rosterErr) {
+        setErr(rosterErr.message);
+        setBusy(false);
+        return;
+      }
+      setRoster((rosterRows ?? []) as RosterRow[]);
+
+      const lg = {
+        ...leagueRow,
+        rules: normalizeRules(leagueRow.rules),
+      } as League;
+      setLeague(lg);
+      setWeek(lg.current_week);
+    }
+
+    loadLeague();
+  }, [loading, leagueId]);
+
+  useEffect(() => {
+    if (!league || week == null) return;
+
+    async function loadEvents() {
+      setBusy(true);
+      setErr(null);
+
+      const qs = new URLSearchParams({
+        league_id: leagueId,
+        week_number: String(week),
+      });
+      if (member) qs.set("user_id", member);
+
+      const res = await authedFetch(`/api/admin/history?${qs}`);
+      const json = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        setErr(json.error ?? `HTTP ${res.status}`);
+        setEvents([]);
+        setBusy(false);
+        return;
+      }
+
+      setLocked(!!json.locked);
+      setOpensAt(json.opens_at ?? null);
+      setEvents((json.events ?? []) as PickEvent[]);
+      setBusy(false);
+    }
+
+    loadEvents();
+  }, [league, leagueId, week, member]);
+
+  function nameOf(user_id: string) {
+    const m = roster.find((r) => r.user_id === user_id);
+    return m?.display_name || user_id.slice(0, 8);
+  }
+
+  if (loading || (busy && !league)) return null;
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+      <h1 className="text-xl font-semibold">{league?.name} Admin • History</h1>
+      <p className="mt-1 text-sm text-gray-600">
+        Every pick and bye change, newest first, with the server time it was
+        saved. A week’s history opens once it has locked, so it can’t give
+        away picks before their games kick off.
+      </p>
+
+      <AdminNav leagueId={leagueId} />
+
+      <div className="mt-4 flex items-center gap-3">
+        <select
+          className="w-full rounded border p-2 text-sm"
+          value={week ?? ""}
+          onChange={(e) => setWeek(Number(e.target.value))}
+        >
+          {seasonWeeks(league?.rules.postseason ?? false).map((w) => (
+            <option key={w} value={w}>
+              {weekLabel(w)}
+              {w === league?.current_week ? " (current)" : ""}
+            </option>
+          ))}
+        </select>
+
+        <select
+          className="w-full rounded border p-2 text-sm"
+          value={member}
+          onChange={(e) => setMember(e.target.value)}
+        >
+          <option value="">All members</option>
+          {roster.map((m) => (
+            <option key={m.user_id} value={m.user_id}>
+              {nameOf(m.user_id)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {err && (
+        <div className="mt-4 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          {err}
+        </div>
+      )}
+
+      <section className="mt-4 rounded border p-4">
+        {locked ? (
+          <PickHistory events={events} nameOf={nameOf} />
+        ) : (
+          <p className="text-sm text-gray-600">
+            {opensAt
+              ? `${weekLabel(week ?? 1)} history opens at lock, ${new Date(
+                  opensAt
+                ).toLocaleString()}.`
+              : `${weekLabel(week ?? 1)} has no lock time yet.`}
+          </p>
+        )}
+      </section>
+    </main>
+  );
+}
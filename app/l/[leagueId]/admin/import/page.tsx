@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import { useParams } from "next/navigation";
+import { authedFetch } from "@/src/lib/api";
+import AdminNav from "@/src/components/AdminNav";
+
+type RosterRow = { user_id: string; display_name: string | null };
+
+type SeasonSummary = {
+  season_year: number;
+  weeks: number[];
+  picks: number;
+  byes: number;
+};
+
+const EXAMPLE = [
+  "season,week,member,team,result,bye",
+  "2019,1,Curly,GB,win,",
+  "2019,1,Curly,KC,loss,",
+  "2019,2,Curly,,,yes",
+].join("\n");
+
+export default function AdminImportPage() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { loading } = useRequireAuth({ leagueId, requireCommissioner: true });
+
+  const [leagueName, setLeagueName] = useState<string>("");
+  const [seasonYear, setSeasonYear] = useState<number | null>(null);
+  const [roster, setRoster] = useState<RosterRow[]>([]);
+  const [file, setFile] = useState("");
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [unmatched, setUnmatched] = useState<string[]>([]);
+  const [checked, setChecked] = useState<SeasonSummary[] | null>(null);
+  const [replace, setReplace] = useState(false);
+  const [replaced, setReplaced] = useState<number[]>([]);
+  const [working, setWorking] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(true);
+
+  useEffect(() => {
+    if (loading) return;
+
+    async function load() {
+      setErr(null);
+
+      const { data: leagueRow, error: leagueErr } = await supabase
+        .from("leagues")
+        .select("name,season_year")
+        .eq("id", leagueId)
+        .maybeSingle();
+
+      if (leagueErr) {
+        setErr(leagueErr.message);
+        setBusy(false);
+        return;
+      }
+      setLeagueName(leagueRow?.name ?? "");
+      setSeasonYear(leagueRow?.season_year ?? null);
+
+      const { data, error } = await supabase
+        .from("league_members")
+        .select("user_id,display_name")
+        .eq("league_id", leagueId)
+        .order("display_name", { ascending: true });
+
+      if (error) {
+        setErr(error.message);
+        setBusy(false);
+        return;
+      }
+
+      setRoster((data ?? []) as RosterRow[]);
+      setBusy(false);
+    }
+
+    load();
+  }, [loading, leagueId]);
+
+  // Any edit means the file has to be checked again before importing
+  function changeFile(text: string) {
+    setFile(text);
+    setChecked(null);
+    setUnmatched([]);
+    setMapping({});
+  }
+
+  async function readFile(f: File | undefined) {
+    if (!f) return;
+    changeFile(await f.text());
+  }
+
+  async function run(dry_run: boolean) {
+    setWorking(true);
+    setErr(null);
+    setMsg(null);
+    setErrors([]);
+
+    try {
+      const res = await authedFetch("/api/admin/history-import", {
+        method: "POST",
+        body: JSON.stringify({
+          league_id: leagueId,
+          file,
+          mapping,
+          dry_run,
+          replace,
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+
+      if (res.status === 422 && Array.isArray(json.errors)) {
+        setErrors(json.errors);
+        setUnmatched(json.unmatched ?? []);
+        setChecked(null);
+        return;
+      }
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+
+      const seasons = json.seasons as SeasonSummary[];
+      if (dry_run) {
+        setChecked(seasons);
+        setReplaced(json.replaced ?? []);
+      } else {
+        setMsg(
+          `Imported ${seasons.map((s) => s.season_year).join(", ")}. ` +
+            "They’re in the standings’ season picker."
+        );
+        changeFile("");
+      }
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  if (loading || busy) return null;
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+      <h1 className="text-xl font-semibold">{leagueName} Admin • Import</h1>
+      <p className="mt-1 text-sm text-gray-600">
+        Bring in seasons played before {seasonYear ?? "this one"} from a
+        spreadsheet. A season already in the app is only overwritten if you
+        tick Replace.
+      </p>
+
+      <AdminNav leagueId={leagueId} />
+
+      {err && (
+        <div className="mt-4 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          {err}
+        </div>
+      )}
+      {msg && <p className="mt-4 text-sm text-green-700">{msg}</p>}
+
+      <section className="mt-4 space-y-3 rounded border p-4">
+        <h2 className="text-base font-semibold">CSV</h2>
+        <p className="text-xs text-gray-500">
+          One row per pick (<code>team</code> and <code>result</code>: win,
+          loss or push) or per bye (<code>bye</code> = yes, no team). Weeks
+          are numbers or playoff rounds (“WC”, “Super Bowl”). Members are
+          matched by display name.
+        </p>
+
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          className="block w-full text-sm"
+          onChange={(e) => readFile(e.target.files?.[0])}
+        />
+        <textarea
+          className="w-full rounded border p-2 font-mono text-xs"
+          rows={8}
+          placeholder={EXAMPLE}
+          value={file}
+          onChange={(e) => changeFile(e.target.value)}
+        />
+
+        {unmatched.length > 0 && (
+          <div className="space-y-2 rounded border border-amber-300 bg-amber-50 p-3 text-sm">
+            <div className="font-medium text-amber-800">
+              Who are these players?
+            </div>
+            {unmatched.map((name) => (
+              <div
+                key={name}
+                className="flex items-center justify-between gap-3"
+              >
+                <span>{name}</span>
+                <select
+                  className="rounded border p-1 text-sm"
+                  value={mapping[name] ?? ""}
+                  onChange={(e) => {
+                    setChecked(null);
+                    setMapping((prev) => ({
+                      ...prev,
+                      [name]: e.target.value,
+                    }));
+                  }}
+                >
+                  <option value="">Choose a member…</option>
+                  {roster.map((m) => (
+                    <option key={m.user_id} value={m.user_id}>
+                      {m.display_name || m.user_id.slice(0, 8)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <ul className="list-disc space-y-1 rounded border border-red-300 bg-red-50 p-3 pl-6 text-xs text-red-700">
+            {errors.map((e, i) => (
+              <li key={i}>{e}</li>
+            ))}
+          </ul>
+        )}
+
+        {checked && (
+          <ul className="space-y-1 rounded border p-3 text-sm">
+            {checked.map((s) => (
+              <li key={s.season_year}>
+                <span className="font-medium">{s.season_year}</span>:{" "}
+                {s.weeks.length} weeks, {s.picks} picks, {s.byes} byes
+                {replaced.includes(s.season_year) && (
+                  <span className="text-red-700">
+                    {" "}
+                    (replaces what’s stored)
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={replace}
+            onChange={(e) => {
+              setReplace(e.target.checked);
+              setChecked(null);
+            }}
+          />
+          Replace seasons that already have data in the app
+        </label>
+
+        <div className="flex gap-2">
+          <button
+            className="w-full rounded-lg border p-3 font-semibold disabled:cursor-not-allowed disabled:opacity-50"
+            disabled={working || !file.trim()}
+            onClick={() => run(true)}
+          >
+            {working && !checked ? "Checking..." : "Check file"}
+          </button>
+          <button
+            className="w-full rounded-lg bg-emerald-600 p-3 font-semibold text-white shadow-md hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-50"
+            disabled={working || !checked}
+            onClick={() => {
+              const years = checked!.map((s) => s.season_year).join(", ");
+              if (!window.confirm(`Import ${years}?`)) return;
+              run(false);
+            }}
+          >
+            {working && checked ? "Importing..." : "Import"}
+          </button>
+        </div>
+      </section>
+    </main>
+  );
+}
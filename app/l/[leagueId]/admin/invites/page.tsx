@@ -0,0 +1,416 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import { useParams } from "next/navigation";
+import { authedFetch } from "@/src/lib/api";
+import {
+  inviteLink,
+  inviteStatus,
+  type Invite,
+  type InviteStatus,
+} from "@/src/lib/invites";
+import AdminNav from "@/src/components/AdminNav";
+
+type JoinRow = {
+  id: number;
+  user_id: string;
+  code: string;
+  joined_at: string;
+};
+
+const STATUS_LABELS: Record<InviteStatus, string> = {
+  active: "Active",
+  expired: "Expired",
+  used_up: "Used up",
+  revoked: "Revoked",
+};
+
+function fmt(dtIso: string) {
+  const d = new Date(dtIso);
+  return d.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/** datetime-local input value → ISO, or null when empty */
+function localToIso(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+export default function AdminInvitesPage() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { loading } = useRequireAuth({ leagueId, requireCommissioner: true });
+
+  const [leagueName, setLeagueName] = useState<string>("");
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [joins, setJoins] = useState<JoinRow[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [label, setLabel] = useState("");
+  const [customCode, setCustomCode] = useState("");
+  const [expires, setExpires] = useState("");
+  const [maxUses, setMaxUses] = useState("");
+  const [showRevoked, setShowRevoked] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(true);
+
+  useEffect(() => {
+    if (loading) return;
+
+    async function load() {
+      setErr(null);
+
+      const { data: leagueRow, error: leagueErr } = await supabase
+        .from("leagues")
+        .select("name")
+        .eq("id", leagueId)
+        .maybeSingle();
+
+      if (leagueErr) {
+        setErr(leagueErr.message);
+        setBusy(false);
+        return;
+      }
+      setLeagueName(leagueRow?.name ?? "");
+
+      const { data: inviteRows, error: invitesErr } = await supabase
+        .from("league_invites")
+        .select("id,code,label,expires_at,max_uses,uses,revoked_at,created_at")
+        .eq("league_id", leagueId)
+        .order("created_at", { ascending: false });
+
+      if (invitesErr) {
+        setErr(invitesErr.message);
+        setBusy(false);
+        return;
+      }
+
+      const { data: joinRows, error: joinsErr } = await supabase
+        .from("league_joins")
+        .select("id,user_id,code,joined_at")
+        .eq("league_id", leagueId)
+        .order("joined_at", { ascending: false })
+        .limit(100);
+
+      if (joinsErr) {
+        setErr(joinsErr.message);
+        setBusy(false);
+        return;
+      }
+
+      const { data: memberRows, error: membersErr } = await supabase
+        .from("league_members")
+        .select("user_id,display_name")
+        .eq("league_id", leagueId);
+
+      if (membersErr) {
+        setErr(membersErr.message);
+        setBusy(false);
+        return;
+      }
+
+      setInvites((inviteRows ?? []) as Invite[]);
+      setJoins((joinRows ?? []) as JoinRow[]);
+      setNames(
+        Object.fromEntries(
+          (memberRows ?? []).map((m: any) => [
+            m.user_id,
+            m.display_name || m.user_id.slice(0, 8),
+          ])
+        )
+      );
+      setBusy(false);
+    }
+
+    load();
+  }, [loading, leagueId, reloadKey]);
+
+  async function send(
+    method: "POST" | "PATCH",
+    body: Record<string, unknown>,
+    done: (json: any) => string,
+    id: string
+  ) {
+    setSavingId(id);
+    setErr(null);
+    setMsg(null);
+
+    try {
+      const res = await authedFetch("/api/admin/invites", {
+        method,
+        body: JSON.stringify({ league_id: leagueId, ...body }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+
+      setMsg(done(json));
+      setReloadKey((k) => k + 1);
+      return true;
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+      return false;
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  async function create() {
+    const ok = await send(
+      "POST",
+      {
+        code: customCode.trim() || undefined,
+        label,
+        expires_at: localToIso(expires),
+        max_uses: maxUses ? Number(maxUses) : null,
+      },
+      (json) => `Created ${json.invite.code}.`,
+      "new"
+    );
+    if (ok) {
+      setLabel("");
+      setCustomCode("");
+      setExpires("");
+      setMaxUses("");
+    }
+  }
+
+  async function copyLink(code: string) {
+    try {
+      await navigator.clipboard.writeText(
+        inviteLink(window.location.origin, code)
+      );
+      setMsg(`Copied the link for ${code}.`);
+    } catch {
+      setErr("Couldn’t copy; select the link and copy it instead.");
+    }
+  }
+
+  if (loading || busy) return null;
+
+  const disabled = savingId !== null;
+  const shown = invites.filter((i) => showRevoked || !i.revoked_at);
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+      <h1 className="text-xl font-semibold">{leagueName} Admin • Invites</h1>
+      <p className="mt-1 text-sm text-gray-600">
+        Anyone with an active code or link can join. Rotating a code revokes
+        it and makes a new one with the same limits.
+      </p>
+
+      <AdminNav leagueId={leagueId} />
+
+      {err && (
+        <div className="mt-4 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          {err}
+        </div>
+      )}
+      {msg && <p className="mt-4 text-sm text-green-700">{msg}</p>}
+
+      <section className="mt-4 space-y-3">
+        {shown.map((inv) => {
+          const status = inviteStatus(inv);
+
+          return (
+            <div key={inv.id} className="rounded border p-3">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <div className="font-mono text-base font-semibold tracking-wider">
+                    {inv.code}
+                  </div>
+                  {inv.label && (
+                    <div className="text-xs text-gray-500">{inv.label}</div>
+                  )}
+                </div>
+                <span
+                  className={
+                    status === "active"
+                      ? "text-sm text-green-700"
+                      : "text-sm text-gray-500"
+                  }
+                >
+                  {STATUS_LABELS[status]}
+                </span>
+              </div>
+
+              <div className="mt-1 text-xs text-gray-500">
+                {inv.max_uses != null
+                  ? `${inv.uses} of ${inv.max_uses} uses`
+                  : `${inv.uses} ${inv.uses === 1 ? "use" : "uses"}`}{" "}
+                •{" "}
+                {inv.expires_at
+                  ? `${status === "expired" ? "Expired" : "Expires"} ` +
+                    fmt(inv.expires_at)
+                  : "No expiry"}
+              </div>
+
+              {inv.revoked_at ? (
+                <button
+                  className="mt-2 rounded border px-3 py-2 text-sm disabled:opacity-50"
+                  disabled={disabled}
+                  onClick={() =>
+                    send(
+                      "PATCH",
+                      { id: inv.id, revoked: false },
+                      () => `${inv.code} restored.`,
+                      inv.id
+                    )
+                  }
+                >
+                  Restore
+                </button>
+              ) : (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  <button
+                    className="rounded border px-3 py-2 text-sm disabled:opacity-50"
+                    disabled={disabled || status !== "active"}
+                    onClick={() => copyLink(inv.code)}
+                  >
+                    Copy link
+                  </button>
+                  <button
+                    className="rounded border px-3 py-2 text-sm disabled:opacity-50"
+                    disabled={disabled}
+                    onClick={() => {
+                      if (
+                        !window.confirm(
+                          `Rotate ${inv.code}? It stops working right away.`
+                        )
+                      ) {
+                        return;
+                      }
+                      send(
+                        "PATCH",
+                        { id: inv.id, rotate: true },
+                        (json) =>
+                          `${inv.code} revoked; the new code is ` +
+                          `${json.replacement.code}.`,
+                        inv.id
+                      );
+                    }}
+                  >
+                    Rotate
+                  </button>
+                  <button
+                    className="rounded border border-red-300 px-3 py-2 text-sm text-red-700 disabled:opacity-50"
+                    disabled={disabled}
+                    onClick={() => {
+                      if (!window.confirm(`Revoke ${inv.code}?`)) return;
+                      send(
+                        "PATCH",
+                        { id: inv.id, revoked: true },
+                        () => `${inv.code} revoked.`,
+                        inv.id
+                      );
+                    }}
+                  >
+                    Revoke
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {shown.length === 0 && (
+          <div className="rounded border p-3 text-sm text-gray-600">
+            No invite codes yet.
+          </div>
+        )}
+
+        {invites.some((i) => i.revoked_at) && (
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showRevoked}
+              onChange={(e) => setShowRevoked(e.target.checked)}
+            />
+            Show revoked codes
+          </label>
+        )}
+      </section>
+
+      <section className="mt-4 space-y-3 rounded border p-4">
+        <h2 className="text-base font-semibold">New code</h2>
+
+        <input
+          className="w-full rounded border p-2 text-sm"
+          placeholder="Label (optional), e.g. Group chat"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        <input
+          className="w-full rounded border p-2 text-sm uppercase tracking-wider"
+          placeholder="Code (optional; random if blank)"
+          value={customCode}
+          onChange={(e) => setCustomCode(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <label className="flex-1 text-xs text-gray-600">
+            Expires
+            <input
+              type="datetime-local"
+              className="mt-1 w-full rounded border p-2 text-sm"
+              value={expires}
+              onChange={(e) => setExpires(e.target.value)}
+            />
+          </label>
+          <label className="w-28 text-xs text-gray-600">
+            Max uses
+            <input
+              type="number"
+              min={1}
+              className="mt-1 w-full rounded border p-2 text-sm"
+              placeholder="No limit"
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+            />
+          </label>
+        </div>
+
+        <button
+          className="w-full rounded-lg bg-emerald-600 p-3 font-semibold text-white shadow-md hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-50"
+          disabled={disabled}
+          onClick={create}
+        >
+          {savingId === "new" ? "Creating..." : "Create code"}
+        </button>
+      </section>
+
+      <section className="mt-6">
+        <h2 className="text-base font-semibold">Who joined</h2>
+
+        <div className="mt-2 space-y-2">
+          {joins.map((j) => (
+            <div
+              key={j.id}
+              className="flex items-center justify-between gap-3 rounded border p-3 text-sm"
+            >
+              <span className="font-medium">
+                {names[j.user_id] ?? "Former member"}
+              </span>
+              <span className="text-xs text-gray-500">
+                <span className="font-mono">{j.code}</span> •{" "}
+                {fmt(j.joined_at)}
+              </span>
+            </div>
+          ))}
+
+          {joins.length === 0 && (
+            <div className="rounded border p-3 text-sm text-gray-600">
+              Nobody has joined with a code yet.
+            </div>
+          )}
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import { useParams } from "next/navigation";
+import { authedFetch } from "@/src/lib/api";
+import { normalizeRules, type LeagueRules } from "@/src/lib/rules";
+import { seasonWeeks, weekLabel } from "@/src/lib/season";
+import { formatSpread } from "@/src/lib/spreads";
+import AdminNav from "@/src/components/AdminNav";
+
+type League = {
+  id: string;
+  name: string;
+  season_year: number;
+  current_week: number;
+  rules: LeagueRules;
+};
+
+type GameRow = {
+  game_id: string;
+  kickoff_time: string;
+  home_abbr: string;
+  away_abbr: string;
+  home_spread: number | null;
+  locked_home_spread: number | null;
+  spread_updated_at: string | null;
+};
+
+const EXAMPLE = "team,spread\nKC,-3.5\nBUF,+1\nDAL,PK";
+
+function fmt(dtIso: string) {
+  const d = new Date(dtIso);
+  return d.toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function AdminLinesPage() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { loading } = useRequireAuth({ leagueId, requireCommissioner: true });
+
+  const [league, setLeague] = useState<League | null>(null);
+  const [week, setWeek] = useState<number | null>(null);
+  const [games, setGames] = useState<GameRow[]>([]);
+  const [file, setFile] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(true);
+
+  useEffect(() => {
+    if (loading) return;
+
+    async function loadLeague() {
+      setBusy(true);
+      setErr(null);
+
+      const { data: leagueRow, error } = await supabase
+        .from("leagues")
+        .select("id,name,season_year,current_week,rules")
+        .eq("id", leagueId)
+        .maybeSingle();
+
+      if (error) {
+        setErr(error.message);
+        setBusy(false);
+        return;
+      }
+      if (!leagueRow) {
+        setErr("No league found.");
+        setBusy(false);
+        return;
+      }
+
+      const lg = {
+        ...leagueRow,
+        rules: normalizeRules(leagueRow.rules),
+      } as League;
+      setLeague(lg);
+      setWeek(lg.current_week);
+    }
+
+    loadLeague();
+  }, [loading, leagueId]);
+
+  useEffect(() => {
+    if (!league || week == null) return;
+
+    const leagueRowId = league.id;
+    const seasonYear = league.season_year;
+
+    async function loadGames() {
+      setBusy(true);
+      setErr(null);
+
+      const { data, error } = await supabase
+        .from("games")
+        .select(
+          "game_id,kickoff_time,home_abbr,away_abbr,home_spread,locked_home_spread,spread_updated_at"
+        )
+        .eq("league_id", leagueRowId)
+        .eq("season_year", seasonYear)
+        .eq("week_number", week!)
+        .order("kickoff_time", { ascending: true });
+
+      if (error) {
+        setErr(error.message);
+        setGames([]);
+        setBusy(false);
+        return;
+      }
+
+      setGames((data ?? []) as GameRow[]);
+      setBusy(false);
+    }
+
+    loadGames();
+  }, [league, week, reloadKey]);
+
+  async function readFile(f: File | undefined) {
+    if (!f) return;
+    setFile(await f.text());
+  }
+
+  async function importLines() {
+    setImporting(true);
+    setErr(null);
+    setMsg(null);
+    setErrors([]);
+
+    try {
+      const res = await authedFetch("/api/admin/spreads", {
+        method: "POST",
+        body: JSON.stringify({ league_id: leagueId, week_number: week, file }),
+      });
+      const json = await res.json().catch(() => ({}));
+
+      if (res.status === 422 && Array.isArray(json.errors)) {
+        setErrors(json.errors);
+        return;
+      }
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+
+      setMsg(`Imported lines for ${json.updated} of ${json.gamesFound} games.`);
+      setFile("");
+      setReloadKey((k) => k + 1);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  if (loading || (busy && !league)) return null;
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+      <h1 className="text-xl font-semibold">{league?.name} Admin • Lines</h1>
+      <p className="mt-1 text-sm text-gray-600">
+        Import point spreads from a CSV or JSON file. A game’s line freezes at
+        kickoff and picks are graded against it.
+      </p>
+
+      <AdminNav leagueId={leagueId} />
+
+      {league && !league.rules.spread_picks && (
+        <p className="mt-4 rounded border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+          This league picks straight-up winners; lines are shown but not used
+          for grading. Set <code>spread_picks</code> in the league rules to
+          pick against the spread.
+        </p>
+      )}
+
+      <div className="mt-4 flex items-center justify-between gap-3">
+        <span className="text-sm font-medium">Week</span>
+        <select
+          className="rounded border p-2 text-sm"
+          value={week ?? ""}
+          onChange={(e) => setWeek(Number(e.target.value))}
+        >
+          {seasonWeeks(league?.rules.postseason ?? false).map((w) => (
+            <option key={w} value={w}>
+              {weekLabel(w)}
+              {w === league?.current_week ? " (current)" : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {err && (
+        <div className="mt-4 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          {err}
+        </div>
+      )}
+
+      <section className="mt-4 space-y-3 rounded border p-4">
+        <h2 className="text-base font-semibold">Import</h2>
+        <p className="text-xs text-gray-500">
+          CSV with a <code>team,spread</code> header, or JSON like{" "}
+          <code>[{`{ "team": "KC", "spread": -3.5 }`}]</code>. Give either
+          team’s line; “PK” is a pick’em.
+        </p>
+
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="block w-full text-sm"
+          onChange={(e) => readFile(e.target.files?.[0])}
+        />
+        <textarea
+          className="w-full rounded border p-2 font-mono text-xs"
+          rows={6}
+          placeholder={EXAMPLE}
+          value={file}
+          onChange={(e) => setFile(e.target.value)}
+        />
+
+        {errors.length > 0 && (
+          <ul className="list-disc space-y-1 rounded border border-red-300 bg-red-50 p-3 pl-6 text-xs text-red-700">
+            {errors.map((e, i) => (
+              <li key={i}>{e}</li>
+            ))}
+          </ul>
+        )}
+
+        <button
+          className="w-full rounded-lg bg-emerald-600 p-3 font-semibold text-white shadow-md hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-50"
+          disabled={importing || !file.trim()}
+          onClick={importLines}
+        >
+          {importing ? "Importing..." : "Import lines"}
+        </button>
+
+        {msg && <p className="text-sm text-green-700">{msg}</p>}
+      </section>
+
+      <section className="mt-4 space-y-2">
+        {games.map((g) => {
+          const locked = g.locked_home_spread != null;
+          const line = locked ? g.locked_home_spread : g.home_spread;
+
+          return (
+            <div
+              key={g.game_id}
+              className="flex items-center justify-between gap-3 rounded border p-3 text-sm"
+            >
+              <div>
+                <div className="font-semibold">
+                  {g.away_abbr} @ {g.home_abbr}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {fmt(g.kickoff_time)}
+                  {g.spread_updated_at &&
+                    ` • Imported ${fmt(g.spread_updated_at)}`}
+                </div>
+              </div>
+              <div className="text-right">
+                {line == null ? (
+                  <span className="text-gray-500">No line</span>
+                ) : (
+                  <span className="font-medium">
+                    {g.home_abbr} {formatSpread(Number(line))}
+                  </span>
+                )}
+                {locked && (
+                  <div className="text-xs text-gray-500">Locked at kickoff</div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {!busy && games.length === 0 && (
+          <div className="rounded border p-3 text-sm text-gray-600">
+            No games for this week. Run Sync games first.
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
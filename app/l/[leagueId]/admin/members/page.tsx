@@ -0,0 +1,201 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth, type MemberRole } from "@/src/lib/useRequireAuth";
+import { useParams } from "next/navigation";
+import { authedFetch } from "@/src/lib/api";
+import AdminNav from "@/src/components/AdminNav";
+
+type MemberRow = {
+  user_id: string;
+  display_name: string | null;
+  role: MemberRole;
+};
+
+export default function AdminMembersPage() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { userId, loading } = useRequireAuth({
+    leagueId,
+    requireCommissioner: true,
+  });
+
+  const [leagueName, setLeagueName] = useState<string>("");
+  const [members, setMembers] = useState<MemberRow[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(true);
+
+  useEffect(() => {
+    if (loading) return;
+
+    async function load() {
+      setErr(null);
+
+      const { data: leagueRow, error: leagueErr } = await supabase
+        .from("leagues")
+        .select("name")
+        .eq("id", leagueId)
+        .maybeSingle();
+
+      if (leagueErr) {
+        setErr(leagueErr.message);
+        setBusy(false);
+        return;
+      }
+      setLeagueName(leagueRow?.name ?? "");
+
+      const { data, error } = await supabase
+        .from("league_members")
+        .select("user_id,display_name,role")
+        .eq("league_id", leagueId)
+        .order("display_name", { ascending: true });
+
+      if (error) {
+        setErr(error.message);
+        setBusy(false);
+        return;
+      }
+
+      const rows = (data ?? []) as MemberRow[];
+      setMembers(rows);
+      setNames(
+        Object.fromEntries(rows.map((m) => [m.user_id, m.display_name ?? ""]))
+      );
+      setBusy(false);
+    }
+
+    load();
+  }, [loading, leagueId, reloadKey]);
+
+  async function send(
+    m: MemberRow,
+    method: "PATCH" | "DELETE",
+    body: Record<string, unknown>,
+    done: string
+  ) {
+    setSavingId(m.user_id);
+    setErr(null);
+    setMsg(null);
+
+    try {
+      const res = await authedFetch("/api/admin/members", {
+        method,
+        body: JSON.stringify({ league_id: leagueId, user_id: m.user_id, ...body }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+
+      setMsg(done);
+      setReloadKey((k) => k + 1);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  function label(m: MemberRow) {
+    return m.display_name || m.user_id.slice(0, 8);
+  }
+
+  if (loading || busy) return null;
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+      <h1 className="text-xl font-semibold">{leagueName} Admin • Members</h1>
+      <p className="mt-1 text-sm text-gray-600">
+        Removing a member keeps their past picks and results.
+      </p>
+
+      <AdminNav leagueId={leagueId} />
+
+      {err && (
+        <div className="mt-4 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          {err}
+        </div>
+      )}
+      {msg && <p className="mt-4 text-sm text-green-700">{msg}</p>}
+
+      <section className="mt-4 space-y-3">
+        {members.map((m) => {
+          const isSelf = m.user_id === userId;
+          const disabled = savingId !== null;
+
+          return (
+            <div key={m.user_id} className="rounded border p-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-sm font-semibold">
+                  {label(m)}
+                  {isSelf && (
+                    <span className="ml-2 text-xs text-gray-500">(you)</span>
+                  )}
+                </div>
+                <select
+                  className="rounded border p-1 text-sm"
+                  value={m.role}
+                  disabled={disabled || isSelf}
+                  onChange={(e) =>
+                    send(
+                      m,
+                      "PATCH",
+                      { role: e.target.value },
+                      `${label(m)} is now a ${e.target.value}.`
+                    )
+                  }
+                >
+                  <option value="member">Member</option>
+                  <option value="commissioner">Commissioner</option>
+                </select>
+              </div>
+
+              <div className="mt-2 flex gap-2">
+                <input
+                  className="w-full rounded border p-2 text-sm"
+                  placeholder="Display name"
+                  value={names[m.user_id] ?? ""}
+                  onChange={(e) =>
+                    setNames((prev) => ({ ...prev, [m.user_id]: e.target.value }))
+                  }
+                />
+                <button
+                  className="rounded border px-3 py-2 text-sm disabled:opacity-50"
+                  disabled={
+                    disabled || (names[m.user_id] ?? "") === (m.display_name ?? "")
+                  }
+                  onClick={() =>
+                    send(
+                      m,
+                      "PATCH",
+                      { display_name: names[m.user_id] ?? "" },
+                      "Name saved."
+                    )
+                  }
+                >
+                  Rename
+                </button>
+                {!isSelf && (
+                  <button
+                    className="rounded border border-red-300 px-3 py-2 text-sm text-red-700 disabled:opacity-50"
+                    disabled={disabled}
+                    onClick={() => {
+                      if (!window.confirm(`Remove ${label(m)} from the league?`)) {
+                        return;
+                      }
+                      send(m, "DELETE", {}, `${label(m)} removed.`);
+                    }}
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </section>
+    </main>
+  );
+}
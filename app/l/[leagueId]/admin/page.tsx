@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import { useParams } from "next/navigation";
+import { authedFetch } from "@/src/lib/api";
+import { normalizeRules, type LeagueRules } from "@/src/lib/rules";
+import { seasonWeeks, weekLabel } from "@/src/lib/season";
+import AdminNav from "@/src/components/AdminNav";
+
+type League = {
+  id: string;
+  name: string;
+  season_year: number;
+  current_week: number;
+  rules: LeagueRules;
+};
+
+type Job = {
+  route: string;
+  label: string;
+  help: string;
+  /** Sends the selected week (sync/grade); advance and rollover don't take one */
+  weekScoped: boolean;
+  confirm?: string;
+};
+
+const JOBS: Job[] = [
+  {
+    route: "/api/sync-games",
+    label: "Sync games",
+    help: "Pull schedule and scores from the score provider.",
+    weekScoped: true,
+  },
+  {
+    route: "/api/sync-week",
+    label: "Sync week config",
+    help: "Rebuild the week row (picks required, lock & reveal) from the games.",
+    weekScoped: true,
+  },
+  {
+    route: "/api/grade-week",
+    label: "Grade week",
+    help: "Grade every pick whose game is final.",
+    weekScoped: true,
+  },
+  {
+    route: "/api/send-reminders",
+    label: "Send reminders",
+    help: "Email members with no picks or bye this week (if a reminder is due).",
+    weekScoped: false,
+  },
+  {
+    route: "/api/dispatch-webhooks",
+    label: "Deliver webhooks",
+    help: "Announce revealed picks and retry failed webhook deliveries.",
+    weekScoped: false,
+  },
+  {
+    route: "/api/advance-week",
+    label: "Advance week",
+    help: "Move the league to the next week once every game is final.",
+    weekScoped: false,
+  },
+  {
+    route: "/api/rollover-season",
+    label: "Roll over season",
+    help: "Archive standings and start next season at week 1.",
+    weekScoped: false,
+    confirm: "Archive this season and start the next one?",
+  },
+];
+
+async function fetchLeague(leagueId: string): Promise<League> {
+  const { data: leagueRow, error } = await supabase
+    .from("leagues")
+    .select("id,name,season_year,current_week,rules")
+    .eq("id", leagueId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!leagueRow) throw new Error("No league found.");
+
+  return { ...leagueRow, rules: normalizeRules(leagueRow.rules) } as League;
+}
+
+export default function AdminJobsPage() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { loading } = useRequireAuth({ leagueId, requireCommissioner: true });
+
+  const [league, setLeague] = useState<League | null>(null);
+  const [week, setWeek] = useState<number>(1);
+  const [running, setRunning] = useState<string | null>(null);
+  const [output, setOutput] = useState<{ label: string; body: string } | null>(
+    null
+  );
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(true);
+
+  useEffect(() => {
+    if (loading) return;
+
+    async function load() {
+      setBusy(true);
+      setErr(null);
+      try {
+        const lg = await fetchLeague(leagueId);
+        setLeague(lg);
+        setWeek(lg.current_week);
+      } catch (e: any) {
+        setErr(e?.message ?? String(e));
+      }
+      setBusy(false);
+    }
+
+    load();
+  }, [loading, leagueId]);
+
+  async function run(job: Job) {
+    if (job.confirm && !window.confirm(job.confirm)) return;
+
+    setRunning(job.route);
+    setErr(null);
+    setOutput(null);
+
+    try {
+      const res = await authedFetch(job.route, {
+        method: "POST",
+        body: JSON.stringify(
+          job.weekScoped
+            ? { league_id: leagueId, week_number: week }
+            : { league_id: leagueId }
+        ),
+      });
+      const json = await res.json().catch(() => ({}));
+
+      setOutput({
+        label: `${job.label} (HTTP ${res.status})`,
+        body: JSON.stringify(json, null, 2),
+      });
+
+      // advance/rollover move the league along
+      setLeague(await fetchLeague(leagueId));
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setRunning(null);
+    }
+  }
+
+  if (loading || busy) return null;
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+      <h1 className="text-xl font-semibold">{league?.name} Admin</h1>
+      <p className="mt-1 text-sm text-gray-600">
+        Season {league?.season_year} • Current week:{" "}
+        {league ? weekLabel(league.current_week) : ""}
+      </p>
+
+      <AdminNav leagueId={leagueId} />
+
+      {err && (
+        <div className="mt-4 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          {err}
+        </div>
+      )}
+
+      <section className="mt-4 rounded border p-4">
+        <label className="flex items-center justify-between gap-3 text-sm">
+          <span className="font-medium">Week for sync &amp; grade</span>
+          <select
+            className="rounded border p-2 text-sm"
+            value={week}
+            onChange={(e) => setWeek(Number(e.target.value))}
+          >
+            {seasonWeeks(league?.rules.postseason ?? false).map((w) => (
+              <option key={w} value={w}>
+                {weekLabel(w)}
+                {w === league?.current_week ? " (current)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="mt-4 space-y-3">
+          {JOBS.map((job) => (
+            <div key={job.route} className="flex items-center gap-3">
+              <button
+                className="w-40 shrink-0 rounded border p-2 text-sm font-medium disabled:opacity-50"
+                disabled={running !== null}
+                onClick={() => run(job)}
+              >
+                {running === job.route ? "Running..." : job.label}
+              </button>
+              <p className="text-xs text-gray-500">{job.help}</p>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {output && (
+        <section className="mt-4 rounded border p-4">
+          <h2 className="text-sm font-semibold">{output.label}</h2>
+          <pre className="mt-2 overflow-x-auto text-xs">{output.body}</pre>
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,379 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import { useParams } from "next/navigation";
+import { authedFetch } from "@/src/lib/api";
+import { normalizeRules, type LeagueRules } from "@/src/lib/rules";
+import { seasonWeeks, weekLabel } from "@/src/lib/season";
+import type { KickoffGame } from "@/src/lib/locks";
+import type { PickError, SlotPicks } from "@/src/lib/pickSubmission";
+import {
+  gameKey,
+  initialRanking,
+  rankingPicks,
+  type ConfidenceEntry,
+} from "@/src/lib/confidence";
+import AdminNav from "@/src/components/AdminNav";
+import ConfidenceRanker from "@/src/components/ConfidenceRanker";
+
+type League = {
+  id: string;
+  name: string;
+  season_year: number;
+  current_week: number;
+  rules: LeagueRules;
+};
+
+type RosterRow = { user_id: string; display_name: string | null };
+
+type MemberWeek = {
+  picks_required: 1 | 2 | null;
+  saved: { bye: boolean; picks: SlotPicks };
+  /** Saved picks (or a bye) not revealed yet, so not shown */
+  hidden: number;
+  games: KickoffGame[];
+  bye_allowed: boolean;
+  byes_left: number;
+};
+
+type FieldErrors = { 1?: string; 2?: string; bye?: string };
+
+// Overrides aren't bound by kickoffs, so no ranking row is ever locked
+const OVERRIDE_NOW = Number.NEGATIVE_INFINITY;
+
+export default function AdminPicksPage() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { loading } = useRequireAuth({ leagueId, requireCommissioner: true });
+
+  const [league, setLeague] = useState<League | null>(null);
+  const [roster, setRoster] = useState<RosterRow[]>([]);
+  const [week, setWeek] = useState<number | null>(null);
+  const [member, setMember] = useState<string>("");
+  const [memberWeek, setMemberWeek] = useState<MemberWeek | null>(null);
+
+  const [bye, setBye] = useState(false);
+  const [pick1, setPick1] = useState("");
+  const [pick2, setPick2] = useState("");
+  const [ranking, setRanking] = useState<ConfidenceEntry[]>([]);
+  const [gameErrs, setGameErrs] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState("");
+
+  const [saving, setSaving] = useState(false);
+  const [fieldErrs, setFieldErrs] = useState<FieldErrors>({});
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(true);
+
+  useEffect(() => {
+    if (loading) return;
+
+    async function loadLeague() {
+      setBusy(true);
+      setErr(null);
+
+      const { data: leagueRow, error } = await supabase
+        .from("leagues")
+        .select("id,name,season_year,current_week,rules")
+        .eq("id", leagueId)
+        .maybeSingle();
+
+      if (error) {
+        setErr(error.message);
+        setBusy(false);
+        return;
+      }
+      if (!leagueRow) {
+        setErr("No league found.");
+        setBusy(false);
+        return;
+      }
+
+      const { data: rosterRows, error: rosterErr } = await supabase
+        .from("league_members")
+        .select("user_id,display_name")
+        .eq("league_id", leagueId)
+        .order("display_name", { ascending: true });
+
+      if (rosterErr) {
+        setErr(rosterErr.message);
+        setBusy(false);
+        return;
+      }
+      setRoster((rosterRows ?? []) as RosterRow[]);
+
+      const lg = {
+        ...leagueRow,
+        rules: normalizeRules(leagueRow.rules),
+      } as League;
+      setLeague(lg);
+      setWeek(lg.current_week);
+      setBusy(false);
+    }
+
+    loadLeague();
+  }, [loading, leagueId]);
+
+  const confidence = league?.rules.pick_mode === "confidence";
+
+  useEffect(() => {
+    if (!member || week == null) {
+      setMemberWeek(null);
+      return;
+    }
+
+    async function loadMemberWeek() {
+      setErr(null);
+      setFieldErrs({});
+      setGameErrs({});
+
+      const qs = new URLSearchParams({
+        league_id: leagueId,
+        user_id: member,
+        week_number: String(week),
+      });
+      const res = await authedFetch(`/api/admin/picks?${qs}`);
+      const json = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        setErr(json.error ?? `HTTP ${res.status}`);
+        setMemberWeek(null);
+        return;
+      }
+
+      const mw = json as MemberWeek;
+      setMemberWeek(mw);
+      setBye(mw.saved.bye);
+      setPick1(mw.saved.picks[1] ?? "");
+      setPick2(mw.saved.picks[2] ?? "");
+      if (confidence) {
+        setRanking(initialRanking(mw.games, mw.saved.picks, OVERRIDE_NOW));
+      }
+    }
+
+    loadMemberWeek();
+  }, [leagueId, member, week, confidence]);
+
+  async function save() {
+    setSaving(true);
+    setErr(null);
+    setMsg(null);
+    setFieldErrs({});
+    setGameErrs({});
+
+    try {
+      const res = await authedFetch("/api/admin/picks", {
+        method: "POST",
+        body: JSON.stringify({
+          league_id: leagueId,
+          user_id: member,
+          week_number: week,
+          bye,
+          picks: confidence ? rankingPicks(ranking) : { 1: pick1, 2: pick2 },
+          reason,
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+
+      if (res.status === 422 && Array.isArray(json.errors)) {
+        const errs: FieldErrors = {};
+        const byGame: Record<string, string> = {};
+        const general: string[] = [];
+        for (const e of json.errors as PickError[]) {
+          const game = e.team
+            ? memberWeek?.games.find(
+                (g) => g.home_abbr === e.team || g.away_abbr === e.team
+              )
+            : undefined;
+
+          if (e.field === "bye") errs.bye = e.message;
+          else if (game) byGame[gameKey(game)] ??= e.message;
+          else if (e.field === "pick" && e.slot) errs[e.slot] = e.message;
+          else general.push(e.message);
+        }
+        setFieldErrs(errs);
+        setGameErrs(byGame);
+        if (general.length) setErr(general.join(" "));
+        return;
+      }
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+
+      setMemberWeek((mw) =>
+        mw
+          ? { ...mw, saved: { bye: json.bye, picks: json.picks }, hidden: 0 }
+          : mw
+      );
+      setReason("");
+      setMsg(
+        week === league?.current_week
+          ? "Override saved."
+          : "Override saved. Run Grade week for this week to update results."
+      );
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading || busy) return null;
+
+  const teams = (memberWeek?.games ?? [])
+    .flatMap((g) => [g.away_abbr, g.home_abbr])
+    .sort();
+  const required = memberWeek?.picks_required ?? null;
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+      <h1 className="text-xl font-semibold">{league?.name} Admin • Picks</h1>
+      <p className="mt-1 text-sm text-gray-600">
+        Enter or fix a member’s picks, even after lock. A reason is required;
+        it’s shown in the pick history and the pick is flagged on the week
+        page.
+      </p>
+
+      <AdminNav leagueId={leagueId} />
+
+      <div className="mt-4 flex items-center gap-3">
+        <select
+          className="w-full rounded border p-2 text-sm"
+          value={week ?? ""}
+          onChange={(e) => setWeek(Number(e.target.value))}
+        >
+          {seasonWeeks(league?.rules.postseason ?? false).map((w) => (
+            <option key={w} value={w}>
+              {weekLabel(w)}
+              {w === league?.current_week ? " (current)" : ""}
+            </option>
+          ))}
+        </select>
+
+        <select
+          className="w-full rounded border p-2 text-sm"
+          value={member}
+          onChange={(e) => setMember(e.target.value)}
+        >
+          <option value="">Choose member…</option>
+          {roster.map((m) => (
+            <option key={m.user_id} value={m.user_id}>
+              {m.display_name || m.user_id.slice(0, 8)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {err && (
+        <div className="mt-4 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          {err}
+        </div>
+      )}
+
+      {memberWeek && required == null && (
+        <p className="mt-4 text-sm text-gray-600">
+          No week config for {weekLabel(week ?? 1)} yet.
+        </p>
+      )}
+
+      {memberWeek && required != null && (
+        <section className="mt-4 space-y-4 rounded border p-4">
+          <p className="text-xs text-gray-500">
+            Saved:{" "}
+            {memberWeek.saved.bye
+              ? "Bye"
+              : Object.entries(memberWeek.saved.picks)
+                  .sort(([a], [b]) =>
+                    confidence ? Number(b) - Number(a) : Number(a) - Number(b)
+                  )
+                  .map(([slot, team]) => (confidence ? `${team} ${slot}` : team))
+                  .join(", ") || (memberWeek.hidden ? "" : "No picks")}
+            {memberWeek.hidden > 0 && (
+              <span className="block">
+                {memberWeek.hidden} not revealed until kickoff; an override
+                replaces {memberWeek.hidden === 1 ? "it" : "them"}.
+              </span>
+            )}
+          </p>
+
+          {memberWeek.bye_allowed && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="h-5 w-5"
+                checked={bye}
+                onChange={(e) => setBye(e.target.checked)}
+              />
+              Bye ({memberWeek.byes_left} left)
+            </label>
+          )}
+          {fieldErrs.bye && (
+            <p className="text-xs text-red-700">{fieldErrs.bye}</p>
+          )}
+
+          {!bye && confidence && (
+            <ConfidenceRanker
+              ranking={ranking}
+              onChange={setRanking}
+              now={OVERRIDE_NOW}
+              errors={gameErrs}
+            />
+          )}
+
+          {!bye &&
+            !confidence &&
+            ([1, 2] as const)
+              .filter((slot) => slot <= required)
+              .map((slot) => (
+                <div key={slot}>
+                  <label className="block text-sm font-medium">
+                    Pick {slot}
+                  </label>
+                  <select
+                    className="mt-1 w-full rounded border p-2"
+                    value={slot === 1 ? pick1 : pick2}
+                    onChange={(e) =>
+                      slot === 1
+                        ? setPick1(e.target.value)
+                        : setPick2(e.target.value)
+                    }
+                  >
+                    <option value="">Select team…</option>
+                    {teams.map((t) => (
+                      <option key={t} value={t}>
+                        {t}
+                      </option>
+                    ))}
+                  </select>
+                  {fieldErrs[slot] && (
+                    <p className="mt-1 text-xs text-red-700">
+                      {fieldErrs[slot]}
+                    </p>
+                  )}
+                </div>
+              ))}
+
+          <label className="block text-sm">
+            <span className="font-medium">Reason (required)</span>
+            <textarea
+              className="mt-1 w-full rounded border p-2"
+              rows={2}
+              placeholder="e.g. Texted picks Sunday 12:40pm, site was down"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </label>
+
+          <button
+            className="w-full rounded-lg bg-emerald-600 p-3 font-semibold text-white shadow-md hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-50"
+            disabled={saving || !reason.trim()}
+            onClick={save}
+          >
+            {saving ? "Saving..." : "Save override"}
+          </button>
+
+          {msg && <p className="text-sm text-green-700">{msg}</p>}
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,423 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import { useParams } from "next/navigation";
+import { authedFetch } from "@/src/lib/api";
+import { weekLabel } from "@/src/lib/season";
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_FORMATS,
+  type WebhookEventType,
+  type WebhookFormat,
+} from "@/src/lib/webhooks/types";
+import AdminNav from "@/src/components/AdminNav";
+
+type WebhookRow = {
+  id: string;
+  url: string;
+  format: WebhookFormat;
+  secret: string | null;
+  events: WebhookEventType[];
+  enabled: boolean;
+  created_at: string;
+};
+
+type DeliveryRow = {
+  id: number;
+  webhook_id: string;
+  event: WebhookEventType;
+  payload: { week_number?: number } | null;
+  status: "pending" | "sending" | "delivered" | "failed";
+  attempts: number;
+  last_status: number | null;
+  last_error: string | null;
+  next_attempt_at: string;
+  delivered_at: string | null;
+  created_at: string;
+};
+
+const ALL_EVENTS = WEBHOOK_EVENTS.map((e) => e.type);
+
+function fmt(dtIso: string) {
+  const d = new Date(dtIso);
+  return d.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatLabel(format: WebhookFormat) {
+  return WEBHOOK_FORMATS.find((f) => f.format === format)?.label ?? format;
+}
+
+function eventLabel(type: WebhookEventType) {
+  return type === "test"
+    ? "Test"
+    : WEBHOOK_EVENTS.find((e) => e.type === type)?.label ?? type;
+}
+
+/** Hides most of a URL, which for chat webhooks is itself the credential */
+function shortUrl(url: string) {
+  try {
+    const u = new URL(url);
+    return `${u.host}${u.pathname.slice(0, 16)}…`;
+  } catch {
+    return url;
+  }
+}
+
+export default function AdminWebhooksPage() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { loading } = useRequireAuth({ leagueId, requireCommissioner: true });
+
+  const [leagueName, setLeagueName] = useState<string>("");
+  const [hooks, setHooks] = useState<WebhookRow[]>([]);
+  const [deliveries, setDeliveries] = useState<DeliveryRow[]>([]);
+  const [url, setUrl] = useState("");
+  const [format, setFormat] = useState<WebhookFormat>("discord");
+  const [events, setEvents] = useState<WebhookEventType[]>(ALL_EVENTS);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(true);
+
+  useEffect(() => {
+    if (loading) return;
+
+    async function load() {
+      setErr(null);
+
+      const { data: leagueRow, error: leagueErr } = await supabase
+        .from("leagues")
+        .select("name")
+        .eq("id", leagueId)
+        .maybeSingle();
+
+      if (leagueErr) {
+        setErr(leagueErr.message);
+        setBusy(false);
+        return;
+      }
+      setLeagueName(leagueRow?.name ?? "");
+
+      const { data: hookRows, error: hooksErr } = await supabase
+        .from("webhooks")
+        .select("id,url,format,secret,events,enabled,created_at")
+        .eq("league_id", leagueId)
+        .order("created_at", { ascending: true });
+
+      if (hooksErr) {
+        setErr(hooksErr.message);
+        setBusy(false);
+        return;
+      }
+
+      const { data: deliveryRows, error: deliveriesErr } = await supabase
+        .from("webhook_deliveries")
+        .select(
+          "id,webhook_id,event,payload,status,attempts,last_status,last_error,next_attempt_at,delivered_at,created_at"
+        )
+        .eq("league_id", leagueId)
+        .order("id", { ascending: false })
+        .limit(50);
+
+      if (deliveriesErr) {
+        setErr(deliveriesErr.message);
+        setBusy(false);
+        return;
+      }
+
+      setHooks((hookRows ?? []) as WebhookRow[]);
+      setDeliveries((deliveryRows ?? []) as DeliveryRow[]);
+      setBusy(false);
+    }
+
+    load();
+  }, [loading, leagueId, reloadKey]);
+
+  async function send(
+    route: string,
+    method: "POST" | "PATCH" | "DELETE",
+    body: Record<string, unknown>,
+    done: string | ((json: any) => string),
+    id: string
+  ) {
+    setSavingId(id);
+    setErr(null);
+    setMsg(null);
+
+    try {
+      const res = await authedFetch(route, {
+        method,
+        body: JSON.stringify({ league_id: leagueId, ...body }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+
+      setMsg(typeof done === "string" ? done : done(json));
+      setReloadKey((k) => k + 1);
+      return true;
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+      return false;
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  async function add() {
+    const ok = await send(
+      "/api/admin/webhooks",
+      "POST",
+      { url, format, events },
+      "Webhook added.",
+      "new"
+    );
+    if (ok) setUrl("");
+  }
+
+  function toggle(list: WebhookEventType[], type: WebhookEventType) {
+    return list.includes(type)
+      ? list.filter((t) => t !== type)
+      : ALL_EVENTS.filter((t) => t === type || list.includes(t));
+  }
+
+  if (loading || busy) return null;
+
+  const hookById = new Map(hooks.map((h) => [h.id, h]));
+  const disabled = savingId !== null;
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+      <h1 className="text-xl font-semibold">{leagueName} Admin • Webhooks</h1>
+      <p className="mt-1 text-sm text-gray-600">
+        Post to Discord, Slack or your own endpoint when picks are revealed, a
+        week is graded and a new week opens. Failed deliveries are retried by
+        the Deliver webhooks job.
+      </p>
+
+      <AdminNav leagueId={leagueId} />
+
+      {err && (
+        <div className="mt-4 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          {err}
+        </div>
+      )}
+      {msg && <p className="mt-4 text-sm text-green-700">{msg}</p>}
+
+      <section className="mt-4 space-y-3">
+        {hooks.map((h) => (
+          <div key={h.id} className="rounded border p-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="text-sm font-semibold">
+                  {formatLabel(h.format)}
+                </div>
+                <div className="truncate text-xs text-gray-500">
+                  {shortUrl(h.url)}
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={h.enabled}
+                  disabled={disabled}
+                  onChange={(e) =>
+                    send(
+                      "/api/admin/webhooks",
+                      "PATCH",
+                      { id: h.id, enabled: e.target.checked },
+                      e.target.checked ? "Webhook enabled." : "Webhook paused.",
+                      h.id
+                    )
+                  }
+                />
+                Enabled
+              </label>
+            </div>
+
+            <div className="mt-2 space-y-1">
+              {WEBHOOK_EVENTS.map((ev) => (
+                <label key={ev.type} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={h.events.includes(ev.type)}
+                    disabled={disabled}
+                    onChange={() =>
+                      send(
+                        "/api/admin/webhooks",
+                        "PATCH",
+                        { id: h.id, events: toggle(h.events, ev.type) },
+                        "Events saved.",
+                        h.id
+                      )
+                    }
+                  />
+                  {ev.label}
+                </label>
+              ))}
+            </div>
+
+            {h.secret && (
+              <div className="mt-2 text-xs text-gray-600">
+                Signing secret: <code className="break-all">{h.secret}</code>
+                <div className="mt-1">
+                  Requests carry <code>x-pickem-signature: sha256=…</code>, an
+                  HMAC-SHA256 of <code>{"{x-pickem-timestamp}.{body}"}</code>.
+                </div>
+              </div>
+            )}
+
+            <div className="mt-2 flex gap-2">
+              <button
+                className="rounded border px-3 py-2 text-sm disabled:opacity-50"
+                disabled={disabled || !h.enabled}
+                onClick={() =>
+                  send(
+                    "/api/admin/webhooks/test",
+                    "POST",
+                    { id: h.id },
+                    (json) =>
+                      json.delivered > 0
+                        ? "Test delivered."
+                        : "Test failed; see the delivery log.",
+                    h.id
+                  )
+                }
+              >
+                Send test
+              </button>
+              <button
+                className="rounded border border-red-300 px-3 py-2 text-sm text-red-700 disabled:opacity-50"
+                disabled={disabled}
+                onClick={() => {
+                  if (!window.confirm("Delete this webhook and its log?")) {
+                    return;
+                  }
+                  send(
+                    "/api/admin/webhooks",
+                    "DELETE",
+                    { id: h.id },
+                    "Webhook deleted.",
+                    h.id
+                  );
+                }}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {hooks.length === 0 && (
+          <div className="rounded border p-3 text-sm text-gray-600">
+            No webhooks yet.
+          </div>
+        )}
+      </section>
+
+      <section className="mt-4 space-y-3 rounded border p-4">
+        <h2 className="text-base font-semibold">Add a webhook</h2>
+
+        <select
+          className="w-full rounded border p-2 text-sm"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as WebhookFormat)}
+        >
+          {WEBHOOK_FORMATS.map((f) => (
+            <option key={f.format} value={f.format}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+        <input
+          className="w-full rounded border p-2 text-sm"
+          placeholder="https://discord.com/api/webhooks/…"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+        />
+        <div className="space-y-1">
+          {WEBHOOK_EVENTS.map((ev) => (
+            <label key={ev.type} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={events.includes(ev.type)}
+                onChange={() => setEvents((prev) => toggle(prev, ev.type))}
+              />
+              {ev.label}
+            </label>
+          ))}
+        </div>
+
+        <button
+          className="w-full rounded-lg bg-emerald-600 p-3 font-semibold text-white shadow-md hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-50"
+          disabled={disabled || !url.trim()}
+          onClick={add}
+        >
+          {savingId === "new" ? "Adding..." : "Add webhook"}
+        </button>
+      </section>
+
+      <section className="mt-6">
+        <h2 className="text-base font-semibold">Recent deliveries</h2>
+
+        <div className="mt-2 space-y-2">
+          {deliveries.map((d) => {
+            const hook = hookById.get(d.webhook_id);
+            const week = d.payload?.week_number;
+
+            return (
+              <div key={d.id} className="rounded border p-3 text-sm">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="font-medium">
+                    {eventLabel(d.event)}
+                    {week != null && d.event !== "test" && (
+                      <span className="text-gray-500"> • {weekLabel(week)}</span>
+                    )}
+                  </span>
+                  <span
+                    className={
+                      d.status === "delivered"
+                        ? "text-green-700"
+                        : d.status === "failed"
+                          ? "text-red-700"
+                          : "text-amber-700"
+                    }
+                  >
+                    {d.status}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {hook ? formatLabel(hook.format) : "Webhook"} •{" "}
+                  {fmt(d.created_at)} • {d.attempts}{" "}
+                  {d.attempts === 1 ? "attempt" : "attempts"}
+                  {d.last_status != null && ` • HTTP ${d.last_status}`}
+                  {d.status === "pending" &&
+                    d.attempts > 0 &&
+                    ` • retry ${fmt(d.next_attempt_at)}`}
+                  {d.delivered_at && ` • delivered ${fmt(d.delivered_at)}`}
+                </div>
+                {d.last_error && d.status !== "delivered" && (
+                  <div className="mt-1 break-all text-xs text-red-700">
+                    {d.last_error}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {deliveries.length === 0 && (
+            <div className="rounded border p-3 text-sm text-gray-600">
+              Nothing delivered yet.
+            </div>
+          )}
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import { useParams } from "next/navigation";
+import { authedFetch } from "@/src/lib/api";
+import { normalizeRules, type LeagueRules } from "@/src/lib/rules";
+import { seasonWeeks, weekLabel } from "@/src/lib/season";
+import AdminNav from "@/src/components/AdminNav";
+
+type League = {
+  id: string;
+  name: string;
+  season_year: number;
+  current_week: number;
+  rules: LeagueRules;
+};
+
+type WeekForm = {
+  picks_required: 1 | 2;
+  lock_time: string; // datetime-local value
+  reveal_time: string; // datetime-local value
+};
+
+const EMPTY_FORM: WeekForm = { picks_required: 1, lock_time: "", reveal_time: "" };
+
+// <input type="datetime-local"> works in the browser's local time
+function toLocalInput(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const off = d.getTimezoneOffset() * 60_000;
+  return new Date(d.getTime() - off).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+export default function AdminWeekPage() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { loading } = useRequireAuth({ leagueId, requireCommissioner: true });
+
+  const [league, setLeague] = useState<League | null>(null);
+  const [week, setWeek] = useState<number | null>(null);
+  const [form, setForm] = useState<WeekForm>(EMPTY_FORM);
+  const [exists, setExists] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(true);
+
+  useEffect(() => {
+    if (loading) return;
+
+    async function loadLeague() {
+      setBusy(true);
+      setErr(null);
+
+      const { data: leagueRow, error } = await supabase
+        .from("leagues")
+        .select("id,name,season_year,current_week,rules")
+        .eq("id", leagueId)
+        .maybeSingle();
+
+      if (error) {
+        setErr(error.message);
+        setBusy(false);
+        return;
+      }
+      if (!leagueRow) {
+        setErr("No league found.");
+        setBusy(false);
+        return;
+      }
+
+      const lg = {
+        ...leagueRow,
+        rules: normalizeRules(leagueRow.rules),
+      } as League;
+      setLeague(lg);
+      setWeek(lg.current_week);
+    }
+
+    loadLeague();
+  }, [loading, leagueId]);
+
+  useEffect(() => {
+    if (!league || week == null) return;
+
+    const leagueRowId = league.id;
+    const seasonYear = league.season_year;
+
+    async function loadWeek() {
+      setBusy(true);
+      setErr(null);
+      setMsg(null);
+
+      const { data, error } = await supabase
+        .from("weeks")
+        .select("picks_required,lock_time,reveal_time")
+        .eq("league_id", leagueRowId)
+        .eq("season_year", seasonYear)
+        .eq("week_number", week!)
+        .maybeSingle();
+
+      if (error) {
+        setErr(error.message);
+        setBusy(false);
+        return;
+      }
+
+      setExists(Boolean(data));
+      setForm(
+        data
+          ? {
+              picks_required: data.picks_required === 2 ? 2 : 1,
+              lock_time: toLocalInput(data.lock_time),
+              reveal_time: toLocalInput(data.reveal_time),
+            }
+          : EMPTY_FORM
+      );
+      setBusy(false);
+    }
+
+    loadWeek();
+  }, [league, week]);
+
+  async function save() {
+    setSaving(true);
+    setErr(null);
+    setMsg(null);
+
+    try {
+      const res = await authedFetch("/api/admin/week", {
+        method: "PATCH",
+        body: JSON.stringify({
+          league_id: leagueId,
+          week_number: week,
+          picks_required: form.picks_required,
+          lock_time: fromLocalInput(form.lock_time),
+          reveal_time: fromLocalInput(form.reveal_time),
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+
+      setExists(true);
+      setMsg("Saved.");
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading || (busy && !league)) return null;
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+      <h1 className="text-xl font-semibold">{league?.name} Admin • Week</h1>
+      <p className="mt-1 text-sm text-gray-600">
+        Season {league?.season_year}. Sync week config overwrites these from
+        the game kickoffs.
+      </p>
+
+      <AdminNav leagueId={leagueId} />
+
+      {err && (
+        <div className="mt-4 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          {err}
+        </div>
+      )}
+
+      <section className="mt-4 space-y-4 rounded border p-4">
+        <label className="flex items-center justify-between gap-3 text-sm">
+          <span className="font-medium">Week</span>
+          <select
+            className="rounded border p-2 text-sm"
+            value={week ?? ""}
+            onChange={(e) => setWeek(Number(e.target.value))}
+          >
+            {seasonWeeks(league?.rules.postseason ?? false).map((w) => (
+              <option key={w} value={w}>
+                {weekLabel(w)}
+                {w === league?.current_week ? " (current)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {!busy && !exists && (
+          <p className="text-xs text-gray-500">
+            No week row yet — saving will create it.
+          </p>
+        )}
+
+        <label className="block text-sm">
+          <span className="font-medium">Picks required</span>
+          <select
+            className="mt-1 w-full rounded border p-2"
+            value={form.picks_required}
+            disabled={busy}
+            onChange={(e) =>
+              setForm({
+                ...form,
+                picks_required: e.target.value === "2" ? 2 : 1,
+              })
+            }
+          >
+            <option value={1}>1</option>
+            <option value={2}>2</option>
+          </select>
+        </label>
+
+        <label className="block text-sm">
+          <span className="font-medium">Lock time</span>
+          <input
+            type="datetime-local"
+            className="mt-1 w-full rounded border p-2"
+            value={form.lock_time}
+            disabled={busy}
+            onChange={(e) => setForm({ ...form, lock_time: e.target.value })}
+          />
+        </label>
+
+        <label className="block text-sm">
+          <span className="font-medium">Reveal time</span>
+          <input
+            type="datetime-local"
+            className="mt-1 w-full rounded border p-2"
+            value={form.reveal_time}
+            disabled={busy}
+            onChange={(e) => setForm({ ...form, reveal_time: e.target.value })}
+          />
+        </label>
+
+        <button
+          className="w-full rounded-lg bg-emerald-600 p-3 font-semibold text-white shadow-md hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-50"
+          disabled={busy || saving}
+          onClick={save}
+        >
+          {saving ? "Saving..." : "Save week"}
+        </button>
+
+        {msg && <p className="text-sm text-green-700">{msg}</p>}
+      </section>
+    </main>
+  );
+}
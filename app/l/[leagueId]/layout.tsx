@@ -0,0 +1,18 @@
+import LeagueSwitcher from "@/src/components/LeagueSwitcher";
+
+export default async function LeagueLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: Promise<{ leagueId: string }>;
+}>) {
+  const { leagueId } = await params;
+
+  return (
+    <>
+      <LeagueSwitcher leagueId={leagueId} />
+      {children}
+    </>
+  );
+}
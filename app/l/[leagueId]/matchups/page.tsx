@@ -0,0 +1,342 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import { useParams, useRouter } from "next/navigation";
+import { normalizeRules, type LeagueRules } from "@/src/lib/rules";
+import { formatSpread, gameSpread } from "@/src/lib/spreads";
+import { seasonWeeks, weekLabel } from "@/src/lib/season";
+
+type League = {
+  id: string;
+  name: string;
+  season_year: number;
+  current_week: number;
+  timezone: string;
+  rules: LeagueRules;
+};
+
+type GameRow = {
+  game_id: string;
+  week_number: number;
+  kickoff_time: string;
+  status: "scheduled" | "inprogress" | "final";
+  home_abbr: string;
+  away_abbr: string;
+  home_score: number | null;
+  away_score: number | null;
+  winner_abbr: string | null;
+  synced_at: string | null;
+  home_spread: number | null;
+  locked_home_spread: number | null;
+};
+
+type LiveState = "connecting" | "live" | "offline";
+
+function fmtKickoff(dtIso: string) {
+  const d = new Date(dtIso);
+  return d.toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function fmtAgo(dtIso: string, now: number) {
+  const mins = Math.floor((now - new Date(dtIso).getTime()) / 60_000);
+  if (mins < 1) return "just now";
+  if (mins < 60) return `${mins} min ago`;
+  return new Date(dtIso).toLocaleString(undefined, {
+    weekday: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function byKickoff(a: GameRow, b: GameRow) {
+  return a.kickoff_time.localeCompare(b.kickoff_time);
+}
+
+export default function MatchupsPage() {
+  const router = useRouter();
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { loading } = useRequireAuth({ leagueId }); // membership gate is already inside the hook
+
+  const [league, setLeague] = useState<League | null>(null);
+  const [week, setWeek] = useState<number>(1);
+  const [games, setGames] = useState<GameRow[]>([]);
+  const [busy, setBusy] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [liveState, setLiveState] = useState<LiveState>("connecting");
+  const [now, setNow] = useState(() => Date.now());
+
+  // Load league once, set default week to current_week
+  useEffect(() => {
+    if (loading) return;
+
+    async function loadLeague() {
+      setErr(null);
+      setBusy(true);
+
+      const { data: leagueRow, error } = await supabase
+        .from("leagues")
+        .select("id,name,season_year,current_week,timezone,rules")
+        .eq("id", leagueId)
+        .maybeSingle();
+
+      if (error) {
+        setErr(error.message);
+        setBusy(false);
+        return;
+      }
+
+      if (!leagueRow) {
+        router.replace("/join");
+        return;
+      }
+
+      const lg = {
+        ...leagueRow,
+        rules: normalizeRules(leagueRow.rules),
+      } as League;
+      setLeague(lg);
+      setWeek(lg.current_week);
+      setBusy(false);
+    }
+
+    loadLeague();
+  }, [loading, router, leagueId]);
+
+  // Load games whenever week changes
+  useEffect(() => {
+    if (!league) return;
+
+    const leagueRowId = league.id;
+    const seasonYear = league.season_year;
+
+    async function loadGames() {
+      setErr(null);
+      setBusy(true);
+
+      const { data, error } = await supabase
+        .from("games")
+        .select(
+          "game_id,week_number,kickoff_time,status,home_abbr,away_abbr,home_score,away_score,winner_abbr,synced_at,home_spread,locked_home_spread"
+        )
+        .eq("league_id", leagueRowId)
+        .eq("season_year", seasonYear)
+        .eq("week_number", week)
+        .order("kickoff_time", { ascending: true });
+
+      if (error) {
+        setErr(error.message);
+        setGames([]);
+        setBusy(false);
+        return;
+      }
+
+      setGames((data ?? []) as GameRow[]);
+      setBusy(false);
+    }
+
+    loadGames();
+  }, [league, week]);
+
+  // sync-games rewrites scores every few minutes on game days; apply those
+  // row changes in place instead of waiting for a refresh
+  const leagueRowId = league?.id;
+  const seasonYear = league?.season_year;
+
+  useEffect(() => {
+    if (!leagueRowId || seasonYear == null) return;
+
+    const channel = supabase
+      .channel(`games:${leagueRowId}:${seasonYear}:${week}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "games",
+          filter: `league_id=eq.${leagueRowId}`,
+        },
+        (payload) => {
+          if (payload.eventType === "DELETE") {
+            const gone = (payload.old as Partial<GameRow>).game_id;
+            setGames((prev) => prev.filter((g) => g.game_id !== gone));
+            return;
+          }
+
+          const row = payload.new as GameRow & { season_year: number };
+          if (row.season_year !== seasonYear || row.week_number !== week) return;
+
+          setGames((prev) => {
+            const next = prev.filter((g) => g.game_id !== row.game_id);
+            next.push(row);
+            return next.sort(byKickoff);
+          });
+        }
+      )
+      .subscribe((status) => {
+        setLiveState(
+          status === "SUBSCRIBED"
+            ? "live"
+            : status === "CLOSED" ||
+              status === "CHANNEL_ERROR" ||
+              status === "TIMED_OUT"
+            ? "offline"
+            : "connecting"
+        );
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leagueRowId, seasonYear, week]);
+
+  // Keeps "last synced N min ago" current
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(t);
+  }, []);
+
+  const lastSynced = useMemo(() => {
+    let latest: string | null = null;
+    for (const g of games) {
+      if (g.synced_at && (!latest || g.synced_at > latest)) latest = g.synced_at;
+    }
+    return latest;
+  }, [games]);
+
+  const weekOptions = useMemo(() => {
+    // Regular season weeks, then playoff rounds if the league plays them
+    return seasonWeeks(league?.rules.postseason ?? false);
+  }, [league]);
+
+  if (loading) return null;
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+      <header className="flex items-start justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold">Matchups</h1>
+          <p className="text-sm text-gray-600">
+            {league ? `${league.name} • Season ${league.season_year}` : ""}
+          </p>
+        </div>
+
+        <button
+          className="text-sm text-gray-900 underline dark:text-zinc-100"
+          onClick={() => router.push("/")}
+        >
+          ← Home
+        </button>
+      </header>
+
+      <section className="mt-4 rounded border p-4">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <h2 className="text-base font-semibold">Week</h2>
+            <p className="mt-1 text-xs text-gray-500">
+              {liveState === "live"
+                ? "Scores update live"
+                : liveState === "offline"
+                ? "Live updates offline — refresh for new scores"
+                : "Connecting to live scores…"}
+              {lastSynced && ` • Last synced ${fmtAgo(lastSynced, now)}`}
+            </p>
+          </div>
+
+          <select
+            className="rounded border p-2 text-sm"
+            value={week}
+            onChange={(e) => setWeek(Number(e.target.value))}
+            disabled={!league}
+          >
+            {weekOptions.map((w) => (
+              <option key={w} value={w}>
+                {weekLabel(w)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {err && (
+          <div className="mt-3 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+            {err}
+          </div>
+        )}
+
+        {busy ? (
+          <p className="mt-4 text-sm text-gray-500">Loading…</p>
+        ) : games.length === 0 ? (
+          <p className="mt-4 text-sm text-gray-500">
+            No games found for {weekLabel(week)}. (Run sync-games?)
+          </p>
+        ) : (
+          <div className="mt-4 space-y-3">
+            {games.map((g) => {
+              const isFinal = g.status === "final";
+              const isLive = g.status === "inprogress";
+
+              return (
+                <div key={g.game_id} className="rounded border p-3">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm font-semibold">
+                      {g.away_abbr} @ {g.home_abbr}
+                    </div>
+
+                    {isFinal ? (
+                      <span className="rounded-full bg-gray-900 px-2 py-1 text-xs font-semibold text-white">
+                        Final
+                      </span>
+                    ) : isLive ? (
+                      <span className="rounded-full bg-amber-600 px-2 py-1 text-xs font-semibold text-white">
+                        Live
+                      </span>
+                    ) : (
+                      <span className="rounded-full bg-emerald-600 px-2 py-1 text-xs font-semibold text-white">
+                        Scheduled
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="mt-1 text-xs text-gray-500">
+                    Kickoff: {fmtKickoff(g.kickoff_time)}
+                    {gameSpread(g) !== null && (
+                      <>
+                        {" "}
+                        • Line: {g.home_abbr} {formatSpread(gameSpread(g))}
+                        {g.locked_home_spread != null && " (locked)"}
+                      </>
+                    )}
+                  </div>
+
+                  {(g.home_score != null || g.away_score != null) && (
+                    <div className="mt-2 text-sm">
+                      <span className="font-medium">{g.away_abbr}</span>{" "}
+                      {g.away_score ?? "-"}{" "}
+                      <span className="text-gray-400">—</span>{" "}
+                      <span className="font-medium">{g.home_abbr}</span>{" "}
+                      {g.home_score ?? "-"}
+                    </div>
+                  )}
+
+                  {g.winner_abbr && (
+                    <div className="mt-1 text-xs text-gray-600">
+                      Winner:{" "}
+                      <span className="font-semibold">{g.winner_abbr}</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
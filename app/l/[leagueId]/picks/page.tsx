@@ -0,0 +1,854 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import { useParams, useRouter } from "next/navigation";
+import { leaguePath } from "@/src/lib/leagues";
+import { isTeamLocked, kickoffByTeam } from "@/src/lib/locks";
+import {
+  isByeWeek,
+  normalizeRules,
+  sameTeamPool,
+  type LeagueRules,
+  type PickResult,
+} from "@/src/lib/rules";
+import { authedFetch } from "@/src/lib/api";
+import { weekLabel } from "@/src/lib/season";
+import type { PickError, SlotPicks } from "@/src/lib/pickSubmission";
+import {
+  gameKey,
+  initialRanking,
+  rankingPicks,
+  type ConfidenceEntry,
+} from "@/src/lib/confidence";
+import ConfidenceRanker from "@/src/components/ConfidenceRanker";
+import { formatSpread, teamSpread } from "@/src/lib/spreads";
+
+type League = {
+  id: string;
+  name: string;
+  season_year: number;
+  current_week: number;
+  timezone: string;
+  rules: LeagueRules;
+};
+
+type WeekCfg = {
+  picks_required: 1 | 2;
+  lock_time: string; // timestamptz ISO
+  reveal_time: string; // timestamptz ISO
+};
+
+type PickRow = {
+  slot: 1 | 2;
+  team_abbr: string;
+};
+
+type FieldErrors = { 1?: string; 2?: string; bye?: string };
+
+type UsedPickRow = {
+  week_number: number;
+  team_abbr: string;
+};
+
+type GameRow = {
+  kickoff_time: string;
+  home_abbr: string;
+  away_abbr: string;
+  status?: string;
+  home_spread: number | null;
+  locked_home_spread: number | null;
+};
+
+function fmt(dtIso: string) {
+  const d = new Date(dtIso);
+  return d.toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function fmtCountdown(ms: number) {
+  const clamped = Math.max(0, ms);
+  const totalSeconds = Math.floor(clamped / 1000);
+
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  const hh = String(hours).padStart(2, "0");
+  const mm = String(minutes).padStart(2, "0");
+  const ss = String(seconds).padStart(2, "0");
+
+  return days > 0 ? `${days}d ${hh}:${mm}:${ss}` : `${hh}:${mm}:${ss}`;
+}
+
+export default function PicksPage() {
+  const router = useRouter();
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { userId, role, loading } = useRequireAuth({ leagueId });
+
+  const [league, setLeague] = useState<League | null>(null);
+  const [weekCfg, setWeekCfg] = useState<WeekCfg | null>(null);
+
+  // Picks state (UI)
+  const [picks, setPicks] = useState<{ 1: string; 2: string }>({
+    1: "",
+    2: "",
+  });
+  // Picks as saved in the DB (a saved pick locks at its game's kickoff)
+  const [savedPicks, setSavedPicks] = useState<{ 1: string; 2: string }>({
+    1: "",
+    2: "",
+  });
+
+  // Confidence leagues: ranking (most → least confident) and saved picks
+  const [ranking, setRanking] = useState<ConfidenceEntry[]>([]);
+  const [savedConfidence, setSavedConfidence] = useState<SlotPicks>({});
+  const [confidenceErrs, setConfidenceErrs] = useState<Record<string, string>>(
+    {}
+  );
+
+  // Used teams: keep Set for filtering, plus rows for display (with week)
+  const [usedTeams, setUsedTeams] = useState<Set<string>>(new Set());
+  const [usedPickRows, setUsedPickRows] = useState<UsedPickRow[]>([]);
+
+  // Bye state
+  const [wantsBye, setWantsBye] = useState(false); // what UI is set to
+  const [byeExistsThisWeek, setByeExistsThisWeek] = useState(false); // what's in DB
+  const [byesUsedThisSeason, setByesUsedThisSeason] = useState(0); // bye rows this season
+
+  const [busy, setBusy] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [fieldErrs, setFieldErrs] = useState<FieldErrors>({});
+  const [msToLock, setMsToLock] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [games, setGames] = useState<GameRow[]>([]);
+
+  // Week-wide lock: the last game of the week has kicked off
+  const locked = msToLock !== null ? msToLock <= 0 : false;
+
+  const kickoffs = useMemo(() => kickoffByTeam(games), [games]);
+
+  function slotLocked(slot: 1 | 2) {
+    const team = savedPicks[slot];
+    return !!team && isTeamLocked(kickoffs, team, now);
+  }
+
+  const confidenceMode = league?.rules.pick_mode === "confidence";
+
+  const anyPickLocked = confidenceMode
+    ? Object.values(savedConfidence).some(
+        (t) => !!t && isTeamLocked(kickoffs, t, now)
+      )
+    : slotLocked(1) || slotLocked(2);
+
+  const byesExhausted =
+    !!league && byesUsedThisSeason >= league.rules.byes_per_season;
+
+  const teamsPlaying = useMemo(() => {
+    const s = new Set<string>();
+    games.forEach((g) => {
+      s.add(g.home_abbr);
+      s.add(g.away_abbr);
+    });
+
+    return Array.from(s).sort((a, b) => a.localeCompare(b));
+  }, [games]);
+
+  const [resultByWeekTeam, setResultByWeekTeam] = useState<
+    Map<string, PickResult>
+  >(new Map());
+
+  function keyWeekTeam(week: number, team: string) {
+    return `${week}:${team}`;
+  }
+
+  useEffect(() => {
+    if (!weekCfg?.lock_time) {
+      setMsToLock(null);
+      return;
+    }
+
+    const lockAt = new Date(weekCfg.lock_time).getTime();
+
+    const tick = () => {
+      const t = Date.now();
+      setNow(t);
+      setMsToLock(lockAt - t);
+    };
+
+    tick(); // set immediately on mount / week change
+    const id = window.setInterval(tick, 1000);
+
+    return () => window.clearInterval(id);
+  }, [weekCfg?.lock_time]);
+
+  useEffect(() => {
+    if (loading) return;
+
+    async function load() {
+      setBusy(true);
+      setErr(null);
+      setMsg(null);
+
+      // 1) Load league
+      const { data: leagueRow, error: leagueErr } = await supabase
+        .from("leagues")
+        .select("id,name,season_year,current_week,timezone,rules")
+        .eq("id", leagueId)
+        .maybeSingle();
+
+      if (leagueErr) {
+        setErr(leagueErr.message);
+        setBusy(false);
+        return;
+      }
+      if (!leagueRow) {
+        router.replace("/join");
+        return;
+      }
+
+      const lg = {
+        ...leagueRow,
+        rules: normalizeRules(leagueRow.rules),
+      } as League;
+      setLeague(lg);
+
+      // 2) Load week config
+      const { data: weekRows, error: weekErr } = await supabase
+        .from("weeks")
+        .select("picks_required,lock_time,reveal_time")
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year)
+        .eq("week_number", lg.current_week)
+        .limit(1);
+
+      if (weekErr) {
+        setErr(weekErr.message);
+        setBusy(false);
+        return;
+      }
+      if (!weekRows || weekRows.length === 0) {
+        setErr(
+          "Week config not found (weeks table). Add a row for this league/week."
+        );
+        setBusy(false);
+        return;
+      }
+
+      const wc = weekRows[0] as WeekCfg;
+      setWeekCfg(wc);
+      // 3) Load NFL games for this league/week
+      const { data: gameRows, error: gamesErr } = await supabase
+        .from("games")
+        .select(
+          "kickoff_time,home_abbr,away_abbr,status,home_spread,locked_home_spread"
+        )
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year)
+        .eq("week_number", lg.current_week)
+        .order("kickoff_time", { ascending: true });
+
+      if (gamesErr) {
+        setErr(gamesErr.message);
+        setBusy(false);
+        return;
+      }
+
+      const gs = (gameRows ?? []) as GameRow[];
+      setGames(gs);
+
+      // 4) Load your picks for this week
+      const { data: pickRows, error: picksErr } = await supabase
+        .from("picks")
+        .select("slot,team_abbr")
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year)
+        .eq("week_number", lg.current_week)
+        .eq("user_id", userId!)
+        .order("slot", { ascending: true });
+
+      if (picksErr) {
+        setErr(picksErr.message);
+        setBusy(false);
+        return;
+      }
+
+      const nextPicks = { 1: "", 2: "" };
+      (pickRows as PickRow[] | null)?.forEach(
+        (r) => (nextPicks[r.slot] = r.team_abbr)
+      );
+      setPicks(nextPicks);
+      setSavedPicks(nextPicks);
+
+      if (lg.rules.pick_mode === "confidence") {
+        const saved: SlotPicks = {};
+        (pickRows ?? []).forEach((r: any) => (saved[r.slot] = r.team_abbr));
+        setSavedConfidence(saved);
+        setRanking(initialRanking(gs, saved));
+      }
+
+      // 5) Load used teams this season (for UI filtering) + include week_number for display
+      const { data: usedRows, error: usedErr } = await supabase
+        .from("picks")
+        .select("team_abbr,week_number")
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year)
+        .eq("user_id", userId!);
+
+      if (usedErr) {
+        setErr(usedErr.message);
+        setBusy(false);
+        return;
+      }
+
+      // 5b) Load pick_results for coloring used picks
+      const { data: prRows, error: prErr } = await supabase
+        .from("pick_results")
+        .select("week_number,team_abbr,result")
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year)
+        .eq("user_id", userId!);
+
+      if (prErr) {
+        setErr(prErr.message);
+        setBusy(false);
+        return;
+      }
+
+      const m = new Map<string, PickResult>();
+      (prRows ?? []).forEach((r: any) => {
+        m.set(keyWeekTeam(r.week_number, r.team_abbr), r.result);
+      });
+      setResultByWeekTeam(m);
+
+      const used = new Set<string>();
+      (usedRows ?? [])
+        .filter((r: any) => sameTeamPool(r.week_number, lg.current_week))
+        .forEach((r: any) => used.add(r.team_abbr));
+      setUsedTeams(used);
+
+      setUsedPickRows((usedRows ?? []) as UsedPickRow[]);
+
+      // 6) Load bye state
+      const { data: byeThisWeek } = await supabase
+        .from("byes")
+        .select("id")
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year)
+        .eq("week_number", lg.current_week)
+        .eq("user_id", userId!)
+        .limit(1);
+
+      const exists = !!(byeThisWeek && byeThisWeek.length > 0);
+      setByeExistsThisWeek(exists);
+      setWantsBye(exists);
+
+      const { count: byeCount } = await supabase
+        .from("byes")
+        .select("id", { count: "exact", head: true })
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year)
+        .eq("user_id", userId!);
+
+      setByesUsedThisSeason(byeCount ?? 0);
+
+      setBusy(false);
+    }
+
+    load();
+  }, [loading, router, userId, leagueId]);
+
+  // "KC -3.5" when the game has an imported line
+  function teamLabel(team: string) {
+    const g = games.find((x) => x.home_abbr === team || x.away_abbr === team);
+    const spread = g ? teamSpread(g, team) : null;
+    return spread === null ? team : `${team} ${formatSpread(spread)}`;
+  }
+
+  function optionsFor(slot: 1 | 2) {
+    // Only allow teams actually playing this week
+    const pool = teamsPlaying; // no fallback
+
+    const allowed = pool.filter((t) => {
+      if (picks[slot] === t) return true; // allow current selection
+      if (league?.rules.allow_team_reuse) return true;
+      return !usedTeams.has(t); // block used teams
+    });
+
+    // Prevent duplicate picks
+    return allowed.filter((t) =>
+      slot === 1 ? t !== picks[2] : t !== picks[1]
+    );
+  }
+
+  async function refreshUsedTeams() {
+    if (!league) return;
+
+    // used picks
+    const { data: usedRows } = await supabase
+      .from("picks")
+      .select("team_abbr,week_number")
+      .eq("league_id", league.id)
+      .eq("season_year", league.season_year)
+      .eq("user_id", userId!);
+
+    const allUsed = (usedRows ?? []) as UsedPickRow[];
+    setUsedPickRows(allUsed);
+
+    const used = new Set<string>();
+    allUsed
+      .filter((r) => r.week_number !== league.current_week) // eligibility rule
+      .filter((r) => sameTeamPool(r.week_number, league.current_week))
+      .forEach((r) => used.add(r.team_abbr));
+    setUsedTeams(used);
+
+    // results coloring
+    const { data: prRows } = await supabase
+      .from("pick_results")
+      .select("week_number,team_abbr,result")
+      .eq("league_id", league.id)
+      .eq("season_year", league.season_year)
+      .eq("user_id", userId!);
+
+    const m = new Map<string, PickResult>();
+    (prRows ?? []).forEach((r: any) => {
+      m.set(keyWeekTeam(r.week_number, r.team_abbr), r.result);
+    });
+    setResultByWeekTeam(m);
+  }
+
+  async function save() {
+    if (!league || !weekCfg) return;
+
+    setErr(null);
+    setMsg(null);
+    setFieldErrs({});
+    setConfidenceErrs({});
+    setSaving(true);
+
+    const res = await authedFetch("/api/picks", {
+      method: "POST",
+      body: JSON.stringify({
+        league_id: league.id,
+        week_number: league.current_week,
+        bye: wantsBye,
+        picks: wantsBye
+          ? {}
+          : confidenceMode
+          ? rankingPicks(ranking)
+          : { 1: picks[1], 2: picks[2] },
+      }),
+    });
+    const json: any = await res.json().catch(() => ({}));
+
+    if (!res.ok) {
+      setSaving(false);
+
+      // Rule violations come back per field so they can sit next to the input
+      const errors: PickError[] = json.errors ?? [];
+      if (errors.length === 0) {
+        setErr(json.error ?? "Save failed.");
+        return;
+      }
+
+      const next: FieldErrors = {};
+      const byGame: Record<string, string> = {};
+      const general: string[] = [];
+      for (const e of errors) {
+        const game =
+          e.field === "pick" && e.team
+            ? games.find((g) => g.home_abbr === e.team || g.away_abbr === e.team)
+            : undefined;
+
+        if (game) byGame[gameKey(game)] ??= e.message;
+        else if (e.field === "pick" && e.slot) next[e.slot] ??= e.message;
+        else if (e.field === "bye") next.bye ??= e.message;
+        else general.push(e.message);
+      }
+      setFieldErrs(next);
+      setConfidenceErrs(byGame);
+      if (general.length) setErr(general.join(" "));
+      return;
+    }
+
+    const saved = {
+      1: json.picks?.[1] ?? "",
+      2: json.picks?.[2] ?? "",
+    };
+    setPicks(saved);
+    setSavedPicks(saved);
+
+    if (confidenceMode) {
+      setSavedConfidence(json.picks ?? {});
+      setRanking(initialRanking(games, json.picks ?? {}));
+    }
+
+    if (json.bye !== byeExistsThisWeek) {
+      setByesUsedThisSeason((n) => n + (json.bye ? 1 : -1));
+    }
+    setByeExistsThisWeek(!!json.bye);
+    setWantsBye(!!json.bye);
+
+    await refreshUsedTeams();
+
+    setSaving(false);
+    setMsg(json.bye ? "Saved (bye)." : "Saved.");
+  }
+
+  if (loading || busy) return null;
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+      <header className="flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold">{league?.name}</h1>
+          <p className="text-sm text-gray-600">
+            {league ? weekLabel(league.current_week) : ""} • Season{" "}
+            {league?.season_year}
+          </p>
+          {weekCfg && (
+            <p className="mt-1 text-xs text-gray-500">
+              Each pick locks & reveals at its game’s kickoff • Last lock:{" "}
+              {fmt(weekCfg.lock_time)}
+            </p>
+          )}
+        </div>
+        <button
+          className="text-sm text-gray-900 underline dark:text-zinc-100"
+          onClick={() => router.push("/")}
+        >
+          ← Home
+        </button>
+        <button
+          className="rounded border px-3 py-2 text-sm"
+          onClick={async () => {
+            await supabase.auth.signOut();
+            router.push("/login");
+          }}
+        >
+          Sign out
+        </button>
+      </header>
+
+      {/* Bye selection */}
+      {weekCfg && (
+        <section className="mt-4 rounded border p-4">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <h2 className="text-base font-semibold">Bye week</h2>
+              <p className="mt-1 text-xs text-gray-500">
+                You can use {league!.rules.byes_per_season}{" "}
+                {league!.rules.byes_per_season === 1 ? "bye" : "byes"} per
+                season (weeks {league!.rules.bye_weeks.from}–
+                {league!.rules.bye_weeks.to} only). Selecting a bye means you
+                make no picks this week.
+              </p>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="h-5 w-5"
+                checked={wantsBye}
+                disabled={
+                  locked ||
+                  anyPickLocked ||
+                  !isByeWeek(league!.rules, league!.current_week) ||
+                  (byesExhausted && !byeExistsThisWeek)
+                }
+                onChange={(e) => {
+                  const checked = e.target.checked;
+                  setWantsBye(checked);
+                  if (checked) setPicks({ 1: "", 2: "" });
+                }}
+              />
+              Use bye
+            </label>
+          </div>
+
+          {!isByeWeek(league!.rules, league!.current_week) && (
+            <p className="mt-2 text-xs text-gray-600">
+              Bye is not available in {weekLabel(league!.current_week)}.
+            </p>
+          )}
+          {anyPickLocked && !wantsBye && (
+            <p className="mt-2 text-xs text-gray-600">
+              A bye is no longer possible — one of your picks has already
+              kicked off.
+            </p>
+          )}
+          {byesExhausted && !byeExistsThisWeek && (
+            <p className="mt-2 text-xs text-gray-600">
+              You already used all your byes this season.
+            </p>
+          )}
+          {fieldErrs.bye && (
+            <p className="mt-2 text-xs text-red-700">{fieldErrs.bye}</p>
+          )}
+        </section>
+      )}
+
+      {err && (
+        <div className="mt-4 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          {err}
+        </div>
+      )}
+
+      {/* Picks */}
+      {weekCfg && (
+        <section className="mt-4 rounded border p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-base font-semibold">Your picks</h2>
+              {league?.rules.spread_picks && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Against the spread — your team must cover its line.
+                </p>
+              )}
+              {!locked && weekCfg && msToLock !== null && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Last game kicks off in{" "}
+                  <span className="font-medium">{fmtCountdown(msToLock)}</span>
+                </p>
+              )}
+
+              {locked && weekCfg && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Locked at{" "}
+                  <span className="font-medium">{fmt(weekCfg.lock_time)}</span>
+                </p>
+              )}
+            </div>
+
+            {locked ? (
+              <span className="inline-flex items-center rounded-full bg-red-600 px-2 py-1 text-xs font-semibold text-white ring-1 ring-red-400/50">
+                Locked
+              </span>
+            ) : (
+              <span className="inline-flex items-center rounded-full bg-emerald-600 px-2 py-1 text-xs font-semibold text-white">
+                Open
+              </span>
+            )}
+          </div>
+
+          <div className="mt-4 space-y-4">
+            {confidenceMode ? (
+              <div>
+                <p className="mb-2 text-xs text-gray-500">
+                  Pick a winner for every game, then drag (or use ▲▼) to rank
+                  them — most confident on top. A correct pick scores its
+                  points.
+                </p>
+                <ConfidenceRanker
+                  ranking={ranking}
+                  onChange={setRanking}
+                  now={now}
+                  teamLabel={teamLabel}
+                  disabled={locked || wantsBye}
+                  errors={confidenceErrs}
+                />
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label className="mb-1 block text-sm font-medium">
+                    Pick 1
+                  </label>
+                  <select
+                    className="w-full rounded border p-3"
+                    value={picks[1]}
+                    disabled={locked || wantsBye || slotLocked(1)}
+                    onChange={(e) =>
+                      setPicks((p) => ({ ...p, 1: e.target.value }))
+                    }
+                  >
+                    <option value="">
+                      {wantsBye
+                        ? "Bye selected - Click `Save Picks to Confirm`"
+                        : "Select a team"}
+                    </option>
+                    {!wantsBye &&
+                      optionsFor(1).map((t) => (
+                        <option
+                          key={t}
+                          value={t}
+                          disabled={isTeamLocked(kickoffs, t, now)}
+                        >
+                          {teamLabel(t)}
+                          {isTeamLocked(kickoffs, t, now)
+                            ? " (kicked off)"
+                            : ""}
+                        </option>
+                      ))}
+                  </select>
+                  {slotLocked(1) && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      Locked — {savedPicks[1]} has kicked off.
+                    </p>
+                  )}
+                  {fieldErrs[1] && (
+                    <p className="mt-1 text-xs text-red-700">{fieldErrs[1]}</p>
+                  )}
+                </div>
+
+                {weekCfg.picks_required === 2 && (
+                  <div>
+                    <label className="mb-1 block text-sm font-medium">
+                      Pick 2
+                    </label>
+                    <select
+                      className="w-full rounded border p-3"
+                      value={picks[2]}
+                      disabled={locked || wantsBye || slotLocked(2)}
+                      onChange={(e) =>
+                        setPicks((p) => ({ ...p, 2: e.target.value }))
+                      }
+                    >
+                      <option value="">
+                        {wantsBye
+                          ? "Bye selected - Click `Save Picks to Confirm`"
+                          : "Select a team"}
+                      </option>
+                      {!wantsBye &&
+                        optionsFor(2).map((t) => (
+                          <option
+                            key={t}
+                            value={t}
+                            disabled={isTeamLocked(kickoffs, t, now)}
+                          >
+                            {teamLabel(t)}
+                            {isTeamLocked(kickoffs, t, now)
+                              ? " (kicked off)"
+                              : ""}
+                          </option>
+                        ))}
+                    </select>
+                    {slotLocked(2) && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        Locked — {savedPicks[2]} has kicked off.
+                      </p>
+                    )}
+                    {fieldErrs[2] && (
+                      <p className="mt-1 text-xs text-red-700">{fieldErrs[2]}</p>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+
+            <button
+              className="
+    w-full rounded-lg p-3 font-semibold
+    bg-emerald-600 text-white
+    shadow-md
+    hover:bg-emerald-700
+    disabled:opacity-50
+    disabled:cursor-not-allowed
+  "
+              disabled={locked || saving}
+              onClick={save}
+            >
+              {saving ? "Saving..." : wantsBye ? "Save bye" : "Save picks"}
+            </button>
+
+            {msg && <p className="text-sm text-green-700">{msg}</p>}
+          </div>
+        </section>
+      )}
+      {/* Views */}
+      <section className="mt-4 rounded border p-4">
+        <div className="mt-4 space-y-3">
+          <button
+            className="w-full rounded border p-3"
+            onClick={() => router.push(leaguePath(leagueId, "/matchups"))}
+          >
+            NFL Matchups this week
+          </button>
+
+          <button
+            className="w-full rounded border p-3"
+            onClick={() =>
+              router.push(leaguePath(leagueId, `/week/${league?.current_week}`))
+            }
+          >
+            League Weekly Picks
+          </button>
+
+          <button
+            className="w-full rounded border p-3"
+            onClick={() => router.push(leaguePath(leagueId, "/standings"))}
+          >
+            Season Standings
+          </button>
+
+          {role === "commissioner" && (
+            <button
+              className="w-full rounded border p-3"
+              onClick={() => router.push(leaguePath(leagueId, "/admin"))}
+            >
+              Commissioner Admin
+            </button>
+          )}
+        </div>
+      </section>
+
+      {/* Used teams (every team is picked weekly in confidence leagues) */}
+      {!confidenceMode && (
+        <section className="mt-4 rounded border p-4">
+          <h2 className="text-base font-semibold">Used teams (season)</h2>
+          <p className="mt-1 text-xs text-gray-500">
+            {league?.rules.allow_team_reuse
+              ? "Teams may be picked again in later weeks."
+              : league?.rules.postseason
+              ? "You can’t pick a team more than once in the regular season or more than once in the playoffs."
+              : "You can’t pick a team more than once all season."}
+          </p>
+
+          <div className="mt-3 flex flex-wrap gap-2">
+            {usedPickRows
+              .slice()
+              .sort(
+                (a, b) =>
+                  a.week_number - b.week_number ||
+                  a.team_abbr.localeCompare(b.team_abbr)
+              )
+              .map((r, idx) => {
+                const res =
+                  resultByWeekTeam.get(
+                    keyWeekTeam(r.week_number, r.team_abbr)
+                  ) ?? "pending";
+
+                const cls =
+                  res === "win"
+                    ? "rounded border border-emerald-300 bg-emerald-50 px-2 py-1 text-xs text-emerald-800"
+                    : res === "loss"
+                    ? "rounded border border-red-300 bg-red-50 px-2 py-1 text-xs text-red-800"
+                    : res === "push"
+                    ? "rounded border border-amber-300 bg-amber-50 px-2 py-1 text-xs text-amber-800"
+                    : "rounded border px-2 py-1 text-xs text-gray-700";
+
+                return (
+                  <span
+                    key={`${r.week_number}-${r.team_abbr}-${idx}`}
+                    className={cls}
+                    title={`Week ${r.week_number} • ${res}`}
+                  >
+                    W{r.week_number} {r.team_abbr}
+                  </span>
+                );
+              })}
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,585 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import {
+  DEFAULT_RULES,
+  normalizeRules,
+  type LeagueRules,
+} from "@/src/lib/rules";
+import {
+  computeStandings,
+  computeWeeklyGrid,
+  type ByeWeek,
+  type StandingsMember,
+  type WeekCell,
+  type WeeklyGradedPick,
+} from "@/src/lib/standings";
+import type { SeasonArchive } from "@/src/lib/seasonArchive";
+import type { TiebreakGame } from "@/src/lib/tiebreakers";
+import {
+  computeSurvivor,
+  fetchSurvivorInputs,
+  type SurvivorInputs,
+  type SurvivorStatus,
+} from "@/src/lib/survivor";
+import { seasonWeeks, weekLabel, weekShortLabel } from "@/src/lib/season";
+import { isTeamLocked, kickoffByTeam, type KickoffGame } from "@/src/lib/locks";
+import { useParams, useRouter } from "next/navigation";
+import SeasonExport from "@/src/components/SeasonExport";
+
+const RESULT_COLUMNS = "user_id,result,week_number,slot,team_abbr,points";
+const GAME_COLUMNS =
+  "week_number,kickoff_time,status,home_abbr,away_abbr,home_score,away_score,winner_abbr";
+
+type GameRow = TiebreakGame & KickoffGame;
+
+function resultClass(result: string) {
+  if (result === "win") return "text-emerald-700";
+  if (result === "loss") return "text-red-700";
+  if (result === "push") return "text-amber-700";
+  return "text-gray-500";
+}
+
+function survivorLabel(st: SurvivorStatus) {
+  if (st.eliminated_week !== null) return `Out • ${weekLabel(st.eliminated_week)}`;
+  return `Alive • ${st.lives_left} ${st.lives_left === 1 ? "life" : "lives"} left`;
+}
+
+function cellRecord(c: WeekCell) {
+  return `${c.wins}-${c.losses}${c.pushes > 0 ? `-${c.pushes}` : ""}`;
+}
+
+type League = {
+  id: string;
+  name: string;
+  season_year: number;
+  current_week: number;
+  rules: LeagueRules;
+};
+
+export default function StandingsPage() {
+  const { leagueId } = useParams<{ leagueId: string }>();
+  const { loading, role, userId } = useRequireAuth({ leagueId });
+  const router = useRouter();
+
+  const [league, setLeague] = useState<League | null>(null);
+  const [members, setMembers] = useState<StandingsMember[]>([]);
+  const [results, setResults] = useState<WeeklyGradedPick[]>([]);
+  const [byes, setByes] = useState<ByeWeek[]>([]);
+  const [games, setGames] = useState<GameRow[]>([]);
+  const [revealTimes, setRevealTimes] = useState<Map<number, string | null>>(
+    new Map()
+  );
+  const [survivorInputs, setSurvivorInputs] = useState<SurvivorInputs | null>(
+    null
+  );
+  const [view, setView] = useState<"totals" | "weeks">("totals");
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(true);
+
+  // Finished seasons are shown from their archived snapshot
+  const [archives, setArchives] = useState<SeasonArchive[]>([]);
+  const [archiveYear, setArchiveYear] = useState<number | null>(null);
+  const archive = archives.find((a) => a.season_year === archiveYear) ?? null;
+
+  // grade-week writes a pending row for every pick, so (like the picks
+  // table) someone else's pick only shows once its game has kicked off or
+  // the week has revealed; RLS on pick_results enforces the same
+  const shownResults = useMemo(() => {
+    const now = Date.now();
+    const kickoffsByWeek = new Map<number, Map<string, number>>();
+    for (const w of new Set(games.map((g) => g.week_number))) {
+      kickoffsByWeek.set(
+        w,
+        kickoffByTeam(games.filter((g) => g.week_number === w))
+      );
+    }
+
+    return results.filter((r) => {
+      if (r.user_id === userId) return true;
+      const reveal = revealTimes.get(r.week_number);
+      if (reveal && new Date(reveal).getTime() <= now) return true;
+      const kickoffs = kickoffsByWeek.get(r.week_number);
+      return !!kickoffs && isTeamLocked(kickoffs, r.team_abbr, now);
+    });
+  }, [results, games, revealTimes, userId]);
+
+  const liveRows = useMemo(
+    () =>
+      computeStandings(members, shownResults, league?.rules ?? DEFAULT_RULES, {
+        results: shownResults,
+        games,
+      }),
+    [members, shownResults, games, league]
+  );
+  const rows = archive ? archive.standings : liveRows;
+
+  const survivor = useMemo(
+    () =>
+      league?.rules.survivor.enabled && survivorInputs
+        ? computeSurvivor(members, survivorInputs, league.rules)
+        : null,
+    [league, members, survivorInputs]
+  );
+  const survivorStatusOf = (user_id: string) =>
+    archive ? null : survivor?.statuses.get(user_id) ?? null;
+  const winnerNames = (survivor?.winners ?? []).map(
+    (uid) => members.find((m) => m.user_id === uid)?.display_name || "Member"
+  );
+
+  const confidence = league?.rules.pick_mode === "confidence";
+
+  // Weeks played so far this season, for the grid columns
+  const gridWeeks = useMemo(
+    () =>
+      league
+        ? seasonWeeks(league.rules.postseason).filter(
+            (w) => w <= league.current_week
+          )
+        : [],
+    [league]
+  );
+  const gridRows = useMemo(
+    () =>
+      computeWeeklyGrid(
+        members,
+        shownResults,
+        byes,
+        league?.rules ?? DEFAULT_RULES,
+        gridWeeks,
+        { results: shownResults, games }
+      ),
+    [members, shownResults, byes, games, league, gridWeeks]
+  );
+
+  useEffect(() => {
+    if (loading) return;
+
+    async function load() {
+      setBusy(true);
+      setErr(null);
+
+      // league
+      const { data: leagueRow, error: leagueErr } = await supabase
+        .from("leagues")
+        .select("id,name,season_year,current_week,rules")
+        .eq("id", leagueId)
+        .maybeSingle();
+
+      if (leagueErr) {
+        setErr(leagueErr.message);
+        setBusy(false);
+        return;
+      }
+      if (!leagueRow) {
+        setErr("No league found.");
+        setBusy(false);
+        return;
+      }
+      const lg = {
+        ...leagueRow,
+        rules: normalizeRules(leagueRow.rules),
+      } as League;
+      setLeague(lg);
+
+      // members (for names)
+      const { data: memRows, error: memErr } = await supabase
+        .from("league_members")
+        .select("user_id,display_name")
+        .eq("league_id", lg.id);
+
+      if (memErr) {
+        setErr(memErr.message);
+        setBusy(false);
+        return;
+      }
+      setMembers((memRows ?? []) as any);
+
+      // results (season totals)
+      const { data: resRows, error: resErr } = await supabase
+        .from("pick_results")
+        .select(RESULT_COLUMNS)
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year);
+
+      if (resErr) {
+        setErr(resErr.message);
+        setBusy(false);
+        return;
+      }
+      setResults((resRows ?? []) as any);
+
+      // byes (visible once each week has revealed)
+      const { data: byeRows, error: byeErr } = await supabase
+        .from("byes")
+        .select("user_id,week_number")
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year);
+
+      if (byeErr) {
+        setErr(byeErr.message);
+        setBusy(false);
+        return;
+      }
+      setByes((byeRows ?? []) as ByeWeek[]);
+
+      // games (scores for the tiebreakers)
+      const { data: gameRows, error: gamesErr } = await supabase
+        .from("games")
+        .select(GAME_COLUMNS)
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year);
+
+      if (gamesErr) {
+        setErr(gamesErr.message);
+        setBusy(false);
+        return;
+      }
+      setGames((gameRows ?? []) as GameRow[]);
+
+      // reveal times (a week's picks all show once it has revealed)
+      const { data: weekRows, error: weeksErr } = await supabase
+        .from("weeks")
+        .select("week_number,reveal_time")
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year);
+
+      if (weeksErr) {
+        setErr(weeksErr.message);
+        setBusy(false);
+        return;
+      }
+      setRevealTimes(
+        new Map(
+          (weekRows ?? []).map((w: any) => [w.week_number, w.reveal_time])
+        )
+      );
+
+      // survivor pool status
+      if (lg.rules.survivor.enabled) {
+        try {
+          setSurvivorInputs(
+            await fetchSurvivorInputs(supabase, lg.id, lg.season_year)
+          );
+        } catch (e: any) {
+          setErr(e?.message ?? String(e));
+          setBusy(false);
+          return;
+        }
+      }
+
+      // past seasons
+      const { data: archiveRows, error: archiveErr } = await supabase
+        .from("season_archives")
+        .select("league_id,season_year,final_week,rules,standings,archived_at")
+        .eq("league_id", lg.id)
+        .order("season_year", { ascending: false });
+
+      if (archiveErr) {
+        setErr(archiveErr.message);
+        setBusy(false);
+        return;
+      }
+      setArchives((archiveRows ?? []) as SeasonArchive[]);
+
+      setBusy(false);
+    }
+
+    load();
+  }, [loading, leagueId]);
+
+  // grade-week grades each pick as its game goes final; follow along live
+  const leagueRowId = league?.id;
+  const seasonYear = league?.season_year;
+
+  useEffect(() => {
+    if (!leagueRowId || seasonYear == null) return;
+
+    async function reloadResults() {
+      const { data: resRows, error: resErr } = await supabase
+        .from("pick_results")
+        .select(RESULT_COLUMNS)
+        .eq("league_id", leagueRowId!)
+        .eq("season_year", seasonYear!);
+
+      if (resErr) {
+        setErr(resErr.message);
+        return;
+      }
+      setResults((resRows ?? []) as any);
+      setSurvivorInputs((prev) =>
+        prev ? { ...prev, results: (resRows ?? []) as any } : prev
+      );
+
+      // Results follow final scores, so refresh those for the tiebreakers
+      const { data: gameRows, error: gamesErr } = await supabase
+        .from("games")
+        .select(GAME_COLUMNS)
+        .eq("league_id", leagueRowId!)
+        .eq("season_year", seasonYear!);
+
+      if (gamesErr) {
+        setErr(gamesErr.message);
+        return;
+      }
+      setGames((gameRows ?? []) as GameRow[]);
+    }
+
+    const channel = supabase
+      .channel(`pick_results:${leagueRowId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "pick_results",
+          filter: `league_id=eq.${leagueRowId}`,
+        },
+        () => {
+          reloadResults();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leagueRowId, seasonYear]);
+
+  if (loading || busy) return null;
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+<div className="mb-3 flex items-center justify-between">
+  <button
+className="text-sm text-gray-900 underline dark:text-zinc-100"
+    onClick={() => router.push("/")}
+  >
+    ← Home
+  </button>
+
+  <h1 className="text-xl font-semibold">
+    {league?.name} Standings
+  </h1>
+
+  <div /> {/* spacer */}
+</div>
+      <div className="mt-1 flex items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          {archive
+            ? `Season ${archive.season_year} • Final standings`
+            : `Season ${league?.season_year} • Updates live as games go final`}{" "}
+          • P = push (tie game)
+        </p>
+
+        {archives.length > 0 && (
+          <select
+            className="rounded border p-2 text-sm"
+            value={archiveYear ?? ""}
+            onChange={(e) =>
+              setArchiveYear(e.target.value ? Number(e.target.value) : null)
+            }
+          >
+            <option value="">{league?.season_year} (current)</option>
+            {archives
+              .filter((a) => a.season_year !== league?.season_year)
+              .map((a) => (
+                <option key={a.season_year} value={a.season_year}>
+                  {a.season_year}
+                </option>
+              ))}
+          </select>
+        )}
+      </div>
+
+      {err && (
+        <div className="mt-4 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          {err}
+        </div>
+      )}
+
+      {!archive && survivor && (
+        <div className="mt-4 rounded border border-emerald-300 bg-emerald-50 p-3 text-sm text-emerald-800">
+          {winnerNames.length === 1
+            ? `${winnerNames[0]} wins the survivor pool!`
+            : winnerNames.length > 1
+            ? `${winnerNames.join(" & ")} share the survivor pool — all went out the same week.`
+            : `Survivor pool: ${survivor.alive.length} of ${members.length} still alive.`}
+        </div>
+      )}
+
+      {!archive && (
+        <div className="mt-4 flex gap-2">
+          {(["totals", "weeks"] as const).map((v) => (
+            <button
+              key={v}
+              className={
+                view === v
+                  ? "rounded border border-gray-900 px-3 py-1 text-sm font-semibold dark:border-zinc-100"
+                  : "rounded border px-3 py-1 text-sm"
+              }
+              onClick={() => setView(v)}
+            >
+              {v === "totals" ? "Totals" : "By week"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!archive && view === "weeks" ? (
+        <section className="mt-4 overflow-x-auto rounded border">
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr className="border-b text-gray-600">
+                <th className="sticky left-0 bg-white p-2 text-left dark:bg-black">
+                  Player
+                </th>
+                {gridWeeks.map((w) => (
+                  <th key={w} className="p-2 text-center" title={weekLabel(w)}>
+                    {weekShortLabel(w)}
+                  </th>
+                ))}
+                <th className="p-2 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {gridRows.map((r) => (
+                <tr
+                  key={r.user_id}
+                  className={`border-b align-top ${
+                    survivorStatusOf(r.user_id)?.eliminated_week != null
+                      ? "opacity-50"
+                      : ""
+                  }`}
+                >
+                  <td className="sticky left-0 bg-white p-2 font-medium dark:bg-black">
+                    {r.name}
+                    {survivorStatusOf(r.user_id) && (
+                      <div className="font-normal text-gray-500">
+                        {survivorLabel(survivorStatusOf(r.user_id)!)}
+                      </div>
+                    )}
+                    {r.total.tiebreak && (
+                      <div className="font-normal text-gray-500">
+                        {r.total.tiebreak}
+                      </div>
+                    )}
+                  </td>
+                  {r.cells.map((c) => (
+                    <td
+                      key={c.week_number}
+                      className="whitespace-nowrap p-2 text-center"
+                    >
+                      {c.bye ? (
+                        <div className="font-semibold text-gray-500">BYE</div>
+                      ) : c.picks.length === 0 ? (
+                        <div className="text-gray-400">—</div>
+                      ) : confidence ? (
+                        // A whole slate per week: points and record only
+                        <div
+                          title={c.picks
+                            .map((p) => `${p.team_abbr} ${p.slot} (${p.result})`)
+                            .join(", ")}
+                        >
+                          <div className="font-semibold">{c.points} pts</div>
+                          <div className="text-gray-600">{cellRecord(c)}</div>
+                        </div>
+                      ) : (
+                        <>
+                          {c.picks.map((p) => (
+                            <div
+                              key={p.slot}
+                              className={resultClass(p.result)}
+                              title={p.result}
+                            >
+                              {p.team_abbr}
+                            </div>
+                          ))}
+                          <div className="mt-1 text-gray-600">
+                            {cellRecord(c)}
+                          </div>
+                        </>
+                      )}
+                      <div
+                        className="text-gray-400"
+                        title="Season points through this week"
+                      >
+                        Σ {c.cumulative}
+                      </div>
+                    </td>
+                  ))}
+                  <td className="whitespace-nowrap p-2 text-right">
+                    <div className="font-semibold">{r.total.points} pts</div>
+                    <div className="text-gray-600">
+                      {r.total.wins}-{r.total.losses}
+                      {r.total.pushes > 0 ? `-${r.total.pushes}` : ""}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {gridRows.length === 0 && (
+            <div className="p-3 text-sm text-gray-600">No results yet.</div>
+          )}
+        </section>
+      ) : (
+        <section className="mt-4 rounded border">
+          <div className="grid grid-cols-12 gap-2 border-b p-3 text-xs font-semibold text-gray-600">
+            <div className="col-span-4">Player</div>
+            <div className="col-span-2 text-right">Pts</div>
+            <div className="col-span-1 text-right">W</div>
+            <div className="col-span-1 text-right">L</div>
+            <div className="col-span-1 text-right">P</div>
+            <div className="col-span-3 text-right">Pending</div>
+          </div>
+
+          {rows.map((r) => (
+            <div
+              key={r.user_id}
+              className={`grid grid-cols-12 gap-2 border-b p-3 text-sm ${
+                survivorStatusOf(r.user_id)?.eliminated_week != null
+                  ? "opacity-50"
+                  : ""
+              }`}
+            >
+              <div className="col-span-4 font-medium">
+                {r.name}
+                {survivorStatusOf(r.user_id) && (
+                  <div className="text-xs font-normal text-gray-500">
+                    {survivorLabel(survivorStatusOf(r.user_id)!)}
+                  </div>
+                )}
+                {r.tiebreak && (
+                  <div className="text-xs font-normal text-gray-500">
+                    {r.tiebreak}
+                  </div>
+                )}
+              </div>
+              <div className="col-span-2 text-right font-semibold">{r.points}</div>
+              <div className="col-span-1 text-right">{r.wins}</div>
+              <div className="col-span-1 text-right">{r.losses}</div>
+              <div className="col-span-1 text-right">{r.pushes}</div>
+              <div className="col-span-3 text-right">{r.pending}</div>
+            </div>
+          ))}
+
+          {rows.length === 0 && (
+            <div className="p-3 text-sm text-gray-600">No results yet.</div>
+          )}
+        </section>
+      )}
+
+      {league && (
+        <SeasonExport
+          leagueId={leagueId}
+          seasonYear={archive?.season_year ?? league.season_year}
+          isCommissioner={role === "commissioner"}
+        />
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,553 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import { supabase } from "@/src/lib/supabaseClient";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import { useRouter } from "next/navigation";
+import { LAST_WEEK, weekLabel } from "@/src/lib/season";
+import { PICK_EVENT_COLUMNS, type PickEvent } from "@/src/lib/pickHistory";
+import PickHistory from "@/src/components/PickHistory";
+import { normalizeRules, type LeagueRules } from "@/src/lib/rules";
+import {
+  computeSurvivor,
+  fetchSurvivorInputs,
+  type SurvivorSummary,
+} from "@/src/lib/survivor";
+import {
+  gameByTeam,
+  livePickState,
+  runningRecord,
+  type LivePickState,
+  type TrackerGame,
+} from "@/src/lib/pickTracker";
+import { teamSpread } from "@/src/lib/spreads";
+
+
+type League = {
+  id: string;
+  name: string;
+  season_year: number;
+  rules: LeagueRules;
+};
+
+type WeekCfg = {
+  picks_required: 1 | 2;
+  lock_time: string;
+  reveal_time: string;
+};
+
+type RosterRow = { league_id: string; user_id: string; display_name: string | null };
+
+type PickRow = {
+  user_id: string;
+  /** Confidence value in confidence leagues */
+  slot: number;
+  team_abbr: string;
+  override_reason: string | null;
+};
+
+type ByeRow = { user_id: string; override_reason: string | null };
+
+const PICK_STATE_CLASS: Record<LivePickState, string> = {
+  not_started: "border-gray-300 text-gray-900 dark:text-zinc-100",
+  winning: "border-emerald-300 bg-emerald-50 text-emerald-800",
+  losing: "border-red-300 bg-red-50 text-red-800",
+  tied: "border-amber-300 bg-amber-50 text-amber-800",
+  won: "border-emerald-600 bg-emerald-600 text-white",
+  lost: "border-red-600 bg-red-600 text-white",
+  push: "border-amber-500 bg-amber-500 text-white",
+};
+
+const PICK_STATE_LABEL: Record<LivePickState, string> = {
+  not_started: "Not started",
+  winning: "Winning",
+  losing: "Losing",
+  tied: "Tied",
+  won: "Won",
+  lost: "Lost",
+  push: "Push",
+};
+
+function OverrideBadge({ reason }: { reason: string }) {
+  return (
+    <span
+      className="ml-1 rounded border border-amber-300 bg-amber-50 px-1 text-xs font-normal text-amber-800"
+      title={`Entered by the commissioner: ${reason}`}
+    >
+      override
+    </span>
+  );
+}
+
+function fmt(dtIso: string) {
+  const d = new Date(dtIso);
+  return d.toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function WeekPage() {
+  const params = useParams<{ leagueId: string; week: string }>();
+  const leagueId = params.leagueId;
+  const { userId, loading } = useRequireAuth({ leagueId });
+  const weekNumber = Number(params.week);
+  const router = useRouter();
+
+  const [league, setLeague] = useState<League | null>(null);
+  const [weekCfg, setWeekCfg] = useState<WeekCfg | null>(null);
+  const [roster, setRoster] = useState<RosterRow[]>([]);
+  const [picks, setPicks] = useState<PickRow[]>([]);
+  const [byes, setByes] = useState<ByeRow[]>([]);
+  const [history, setHistory] = useState<PickEvent[]>([]);
+  const [games, setGames] = useState<TrackerGame[]>([]);
+  const [survivor, setSurvivor] = useState<SurvivorSummary | null>(null);
+  const [busy, setBusy] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+
+  const revealed = useMemo(() => {
+    if (!weekCfg) return false;
+    return Date.now() >= new Date(weekCfg.reveal_time).getTime();
+  }, [weekCfg]);
+
+  const picksByUser = useMemo(() => {
+    const map = new Map<string, Record<number, PickRow>>();
+    for (const p of picks) {
+      const cur = map.get(p.user_id) ?? {};
+      cur[p.slot] = p;
+      map.set(p.user_id, cur);
+    }
+    return map;
+  }, [picks]);
+
+  const gamesByTeam = useMemo(() => gameByTeam(games), [games]);
+
+  const confidence = league?.rules.pick_mode === "confidence";
+
+  // Live state of a picked team, against its line in spread leagues
+  function pickState(team: string) {
+    const g = gamesByTeam.get(team);
+    const spread =
+      league?.rules.spread_picks && g ? teamSpread(g, team) : null;
+    return livePickState(g, team, spread);
+  }
+
+  useEffect(() => {
+    if (loading) return;
+    if (!Number.isFinite(weekNumber) || weekNumber < 1 || weekNumber > LAST_WEEK) {
+      setErr("Invalid week number.");
+      setBusy(false);
+      return;
+    }
+
+    async function load() {
+      setBusy(true);
+      setErr(null);
+
+      // 1) League
+      const { data: leagueRow, error: leagueErr } = await supabase
+        .from("leagues")
+        .select("id,name,season_year,rules")
+        .eq("id", leagueId)
+        .maybeSingle();
+
+      if (leagueErr) {
+        setErr(leagueErr.message);
+        setBusy(false);
+        return;
+      }
+      if (!leagueRow) {
+        setErr("No league found. Join a league first.");
+        setBusy(false);
+        return;
+      }
+
+      const lg = {
+        ...leagueRow,
+        rules: normalizeRules(leagueRow.rules),
+      } as League;
+      setLeague(lg);
+
+      // 2) Week config
+      const { data: weekRows, error: weekErr } = await supabase
+        .from("weeks")
+        .select("picks_required,lock_time,reveal_time")
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year)
+        .eq("week_number", weekNumber)
+        .limit(1);
+
+      if (weekErr) {
+        setErr(weekErr.message);
+        setBusy(false);
+        return;
+      }
+      if (!weekRows || weekRows.length === 0) {
+        setErr("Week config missing in DB (weeks table).");
+        setBusy(false);
+        return;
+      }
+
+      const wc = weekRows[0] as WeekCfg;
+      setWeekCfg(wc);
+
+      // 3) Roster (to show “No picks”)
+      const { data: rosterRows, error: rosterErr } = await supabase
+        .from("league_members")
+        .select("league_id,user_id,display_name")
+        .eq("league_id", lg.id);
+
+      if (rosterErr) {
+        setErr(rosterErr.message);
+        setBusy(false);
+        return;
+      }
+      setRoster((rosterRows ?? []) as any);
+
+      // Survivor: who is still in the pool
+      if (lg.rules.survivor.enabled) {
+        try {
+          const inputs = await fetchSurvivorInputs(
+            supabase,
+            lg.id,
+            lg.season_year
+          );
+          setSurvivor(
+            computeSurvivor((rosterRows ?? []) as any, inputs, lg.rules)
+          );
+        } catch (e: any) {
+          setErr(e?.message ?? String(e));
+          setBusy(false);
+          return;
+        }
+      } else {
+        setSurvivor(null);
+      }
+
+      // 4) Picks
+      // RLS will automatically enforce reveal behavior:
+      // - Always returns your own picks.
+      // - Returns other members' picks once that team's game has kicked off.
+      // - After reveal_time, returns all picks in the league for that week.
+      const { data: pickRows, error: picksErr } = await supabase
+        .from("picks")
+        .select("user_id,slot,team_abbr,override_reason")
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year)
+        .eq("week_number", weekNumber)
+        .order("user_id", { ascending: true })
+        .order("slot", { ascending: true });
+
+      if (picksErr) {
+        setErr(picksErr.message);
+        setBusy(false);
+        return;
+      }
+      setPicks((pickRows ?? []) as any);
+
+      // Byes: your own any time, everyone's once the week has revealed
+      const { data: byeRows, error: byesErr } = await supabase
+        .from("byes")
+        .select("user_id,override_reason")
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year)
+        .eq("week_number", weekNumber);
+
+      if (byesErr) {
+        setErr(byesErr.message);
+        setBusy(false);
+        return;
+      }
+      setByes((byeRows ?? []) as ByeRow[]);
+
+      // 5) Games, to color each revealed pick by its game's score
+      const { data: gameRows, error: gamesErr } = await supabase
+        .from("games")
+        .select(
+          "game_id,status,home_abbr,away_abbr,home_score,away_score,winner_abbr,home_spread,locked_home_spread"
+        )
+        .eq("league_id", lg.id)
+        .eq("season_year", lg.season_year)
+        .eq("week_number", weekNumber);
+
+      if (gamesErr) {
+        setErr(gamesErr.message);
+        setBusy(false);
+        return;
+      }
+      setGames((gameRows ?? []) as TrackerGame[]);
+
+      // 6) Pick history, once the whole week is revealed
+      if (Date.now() >= new Date(wc.reveal_time).getTime()) {
+        const { data: eventRows, error: eventsErr } = await supabase
+          .from("pick_events")
+          .select(PICK_EVENT_COLUMNS)
+          .eq("league_id", lg.id)
+          .eq("season_year", lg.season_year)
+          .eq("week_number", weekNumber)
+          .order("created_at", { ascending: true });
+
+        if (eventsErr) {
+          setErr(eventsErr.message);
+          setBusy(false);
+          return;
+        }
+        setHistory((eventRows ?? []) as PickEvent[]);
+      } else {
+        setHistory([]);
+      }
+
+      setBusy(false);
+    }
+
+    load();
+  }, [loading, userId, weekNumber, leagueId]);
+
+  // Follow sync-games as it writes new scores
+  const leagueRowId = league?.id;
+  const seasonYear = league?.season_year;
+
+  useEffect(() => {
+    if (!leagueRowId || seasonYear == null) return;
+
+    const channel = supabase
+      .channel(`week-games:${leagueRowId}:${seasonYear}:${weekNumber}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "games",
+          filter: `league_id=eq.${leagueRowId}`,
+        },
+        (payload) => {
+          if (payload.eventType === "DELETE") return;
+
+          const row = payload.new as TrackerGame & {
+            season_year: number;
+            week_number: number;
+          };
+          if (row.season_year !== seasonYear || row.week_number !== weekNumber) {
+            return;
+          }
+
+          setGames((prev) => [
+            ...prev.filter((g) => g.game_id !== row.game_id),
+            row,
+          ]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leagueRowId, seasonYear, weekNumber]);
+
+  if (loading || busy) return null;
+
+  return (
+    <main className="mx-auto max-w-lg p-4">
+      <div className="mb-3 flex items-center justify-between">
+  <button
+    className="text-sm underline"
+    onClick={() => router.push("/")}
+  >
+    ← Home
+  </button>
+</div>
+
+      <h1 className="text-xl font-semibold">
+        {league?.name} • {weekLabel(weekNumber)}
+      </h1>
+
+      {weekCfg && (
+        <p className="mt-1 text-xs text-gray-600">
+          Picks reveal at each game’s kickoff •{" "}
+          {revealed
+            ? "Fully revealed"
+            : `All revealed ${fmt(weekCfg.reveal_time)}`}
+        </p>
+      )}
+
+      {err && (
+        <div className="mt-4 rounded border border-red-300 bg-red-50 p-3 text-sm text-red-700">
+          {err}
+        </div>
+      )}
+
+      {survivor && survivor.winners.length > 0 && (
+        <div className="mt-4 rounded border border-emerald-300 bg-emerald-50 p-3 text-sm text-emerald-800">
+          Survivor pool won by{" "}
+          {survivor.winners
+            .map((uid) =>
+              uid === userId
+                ? "you"
+                : roster.find((m) => m.user_id === uid)?.display_name ||
+                  "Member"
+            )
+            .join(" & ")}
+          !
+        </div>
+      )}
+
+      <section className="mt-6 rounded border p-4">
+        <h2 className="text-base font-semibold">Picks</h2>
+
+        {!weekCfg ? (
+          <p className="mt-2 text-sm text-gray-600">No week config.</p>
+        ) : (
+          <div className="mt-4 space-y-3">
+            {roster.map((m) => {
+              const isMe = m.user_id === userId;
+              const picked = picksByUser.get(m.user_id);
+              const bye = byes.find((b) => b.user_id === m.user_id);
+
+              // Out of the survivor pool before this week
+              const outWeek =
+                survivor?.statuses.get(m.user_id)?.eliminated_week ?? null;
+              const isOut = outWeek !== null && outWeek < weekNumber;
+
+              // Each pick is revealed at its own game's kickoff, so a slot
+              // we can't see yet is hidden until the week fully reveals.
+              const missing = revealed || isMe ? "No picks" : "Hidden";
+              // Confidence leagues: visible picks, highest confidence first
+              const slots: number[] = confidence
+                ? Object.keys(picked ?? {})
+                    .map(Number)
+                    .sort((a, b) => b - a)
+                : weekCfg.picks_required === 2
+                ? [1, 2]
+                : [1];
+
+              const states = slots
+                .map((slot) => picked?.[slot]?.team_abbr)
+                .filter((team): team is string => Boolean(team))
+                .map(pickState);
+              const record = runningRecord(states);
+              const started = states.some((st) => st !== "not_started");
+
+              const right = bye ? (
+                <span className="font-semibold">
+                  <span className="rounded border px-2 py-0.5 text-gray-600">
+                    BYE
+                  </span>
+                  {bye.override_reason && (
+                    <OverrideBadge reason={bye.override_reason} />
+                  )}
+                </span>
+              ) : (
+                <span className="font-semibold">
+                  {confidence && slots.length === 0 && (
+                    <span className="font-normal text-gray-500">{missing}</span>
+                  )}
+                  {slots.map((slot, i) => {
+                    const pick = picked?.[slot];
+                    const cls = i > 0 ? "ml-2" : "";
+                    const state = pick ? pickState(pick.team_abbr) : null;
+                    return pick ? (
+                      <span key={slot} className={cls}>
+                        <span
+                          className={`rounded border px-2 py-0.5 ${PICK_STATE_CLASS[state!]}`}
+                          title={PICK_STATE_LABEL[state!]}
+                        >
+                          {pick.team_abbr}
+                          {confidence && (
+                            <span className="ml-1 text-xs font-normal">
+                              {slot}
+                            </span>
+                          )}
+                        </span>
+                        {pick.override_reason && (
+                          <OverrideBadge reason={pick.override_reason} />
+                        )}
+                      </span>
+                    ) : (
+                      <span
+                        key={slot}
+                        className={`${cls} font-normal text-gray-500`}
+                      >
+                        {missing}
+                      </span>
+                    );
+                  })}
+                </span>
+              );
+
+              return (
+                <div
+                  key={m.user_id}
+                  className={`flex items-center justify-between rounded border p-3 ${
+                    isOut ? "opacity-50" : ""
+                  }`}
+                >
+<div className="text-sm font-medium">
+  {isMe ? "You" : m.display_name || "Member"}
+  {outWeek !== null && (
+    <div className="text-xs font-normal text-gray-500">
+      Eliminated • {weekLabel(outWeek)}
+    </div>
+  )}
+  {started && (
+    <div className="text-xs font-normal text-gray-500">
+      {record.wins}-{record.losses}
+      {record.ties > 0 ? `-${record.ties}` : ""} this week
+    </div>
+  )}
+</div>                 <div className="text-sm">{right}</div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {weekCfg && (
+          <div className="mt-3 flex flex-wrap gap-2 text-xs">
+            {(Object.keys(PICK_STATE_LABEL) as LivePickState[]).map((st) => (
+              <span
+                key={st}
+                className={`rounded border px-2 py-0.5 ${PICK_STATE_CLASS[st]}`}
+              >
+                {PICK_STATE_LABEL[st]}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {[...picks, ...byes].some((p) => p.override_reason) && (
+          <p className="mt-3 text-xs text-amber-800">
+            “override” = entered or changed by the commissioner
+            {revealed ? "; the reason is in the pick history below." : "."}
+          </p>
+        )}
+      </section>
+
+      {revealed && (
+        <section className="mt-6 rounded border p-4">
+          <h2 className="text-base font-semibold">Pick history</h2>
+          <p className="mt-1 text-xs text-gray-500">
+            Every pick and bye change this week, with the server time it was
+            saved.
+          </p>
+          <PickHistory
+            events={history}
+            nameOf={(uid) =>
+              uid === userId
+                ? "You"
+                : roster.find((m) => m.user_id === uid)?.display_name ||
+                  "Member"
+            }
+          />
+        </section>
+      )}
+
+      <p className="mt-3 text-xs text-gray-500">
+        Note: The database also enforces the reveal rule. Before a game kicks off, this page literally cannot fetch other users’ picks of that team.
+      </p>
+    </main>
+  );
+}
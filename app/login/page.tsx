@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { createClient } from "@supabase/supabase-js";
+import { pendingInviteCode } from "@/src/lib/invites";
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -25,7 +26,8 @@ export default function LoginPage() {
     setBusy(false);
 
     if (error) return setErr(error.message);
-    router.push("/picks");
+    // Came from an invite link: finish joining first
+    router.push(pendingInviteCode() ? "/join" : "/picks");
   }
 
   return (
@@ -3,12 +3,20 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/src/lib/supabaseClient";
+import { authedFetch } from "@/src/lib/api";
+import { fetchMyLeagues, pickActiveLeague } from "@/src/lib/leagues";
+import { DEFAULT_RULES, describeRules, normalizeRules } from "@/src/lib/rules";
 
 export default function HomePage() {
   const router = useRouter();
   const [authed, setAuthed] = useState<boolean | null>(null);
   const [name, setName] = useState("");
   const [nameSaved, setNameSaved] = useState(false);
+  const [rules, setRules] = useState(DEFAULT_RULES);
+  const [reminders, setReminders] = useState(true);
+  const [calToken, setCalToken] = useState<string | null>(null);
+  const [calGames, setCalGames] = useState(false);
+  const [calErr, setCalErr] = useState<string | null>(null);
 
   useEffect(() => {
     async function load() {
@@ -17,13 +25,42 @@ export default function HomePage() {
 
       if (!data.session?.user) return;
 
+      // Display name is kept the same across all of the user's leagues
       const { data: member } = await supabase
         .from("league_members")
         .select("display_name")
         .eq("user_id", data.session.user.id)
-        .single();
+        .limit(1)
+        .maybeSingle();
 
       setName(member?.display_name ?? "");
+
+      // No user_settings row yet means the defaults (reminders on)
+      const { data: settings } = await supabase
+        .from("user_settings")
+        .select("email_reminders")
+        .eq("user_id", data.session.user.id)
+        .maybeSingle();
+
+      setReminders(settings?.email_reminders ?? true);
+
+      const { data: feed } = await supabase
+        .from("calendar_feeds")
+        .select("token")
+        .eq("user_id", data.session.user.id)
+        .maybeSingle();
+
+      setCalToken(feed?.token ?? null);
+
+      // "How it works" follows the active league's rules
+      try {
+        const active = pickActiveLeague(
+          await fetchMyLeagues(data.session.user.id)
+        );
+        if (active) setRules(normalizeRules(active.rules));
+      } catch (e) {
+        console.error("rules load failed:", e);
+      }
     }
 
     load();
@@ -53,6 +90,50 @@ export default function HomePage() {
     }, 2000);
   }
 
+  async function saveReminders(on: boolean) {
+    const { data: session } = await supabase.auth.getSession();
+    if (!session?.session?.user) return;
+
+    setReminders(on);
+    const { error } = await supabase.from("user_settings").upsert({
+      user_id: session.session.user.id,
+      email_reminders: on,
+      updated_at: new Date().toISOString(),
+    });
+    if (error) {
+      console.error("reminder setting save failed:", error);
+      setReminders(!on);
+    }
+  }
+
+  async function loadCalendarToken(rotate: boolean) {
+    if (
+      rotate &&
+      !window.confirm("Reset your calendar link? The old link stops working.")
+    ) {
+      return;
+    }
+
+    setCalErr(null);
+    try {
+      const res = await authedFetch("/api/calendar-token", {
+        method: "POST",
+        body: JSON.stringify({ rotate }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+      setCalToken(json.token);
+    } catch (e: any) {
+      setCalErr(e?.message ?? String(e));
+    }
+  }
+
+  const calUrl = calToken
+    ? `${window.location.origin}/api/calendar/${calToken}.ics${
+        calGames ? "?games=1" : ""
+      }`
+    : null;
+
   return (
     <main className="min-h-screen bg-white text-gray-900 dark:bg-zinc-950 dark:text-zinc-50">
       <div className="mx-auto max-w-lg p-6">
@@ -61,8 +142,8 @@ export default function HomePage() {
             Pick’em League
           </h1>
           <p className="mt-2 text-gray-800 dark:text-zinc-200">
-            Pick 2 teams each week (weeks 1–16), then 1 team (weeks 17–18). You
-            can only use each team once all season, and you get 1 bye.
+            Pick winners each week, save your byes for when you need them, and
+            climb the standings.
           </p>
         </header>
 
@@ -133,16 +214,85 @@ text-gray-900"
             </div>
           </section>
         )}
+        {authed && (
+          <section className="mt-6 rounded-xl border p-4">
+            <label className="flex items-center justify-between gap-3">
+              <span>
+                <span className="block text-sm font-semibold">
+                  Email reminders
+                </span>
+                <span className="mt-1 block text-xs text-gray-600">
+                  Email me before kickoff when I haven’t picked or taken a bye.
+                </span>
+              </span>
+              <input
+                type="checkbox"
+                className="h-5 w-5"
+                checked={reminders}
+                onChange={(e) => saveReminders(e.target.checked)}
+              />
+            </label>
+          </section>
+        )}
+        {authed && (
+          <section className="mt-6 rounded-xl border p-4">
+            <h2 className="text-sm font-semibold">Calendar</h2>
+            <p className="mt-1 text-xs text-gray-600">
+              Subscribe in your calendar app to see every week’s pick lock.
+              Keep the link private; it works without signing in.
+            </p>
+
+            {calUrl ? (
+              <div className="mt-3 space-y-2">
+                <input
+                  className="w-full rounded border p-2 text-xs"
+                  readOnly
+                  value={calUrl}
+                  onFocus={(e) => e.target.select()}
+                />
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={calGames}
+                    onChange={(e) => setCalGames(e.target.checked)}
+                  />
+                  Include every game’s kickoff
+                </label>
+                <div className="flex gap-2">
+                  <a
+                    className="rounded border bg-black px-3 py-2 text-sm text-white"
+                    href={calUrl.replace(/^https?:/, "webcal:")}
+                  >
+                    Subscribe
+                  </a>
+                  <button
+                    className="rounded border px-3 py-2 text-sm"
+                    onClick={() => loadCalendarToken(true)}
+                  >
+                    Reset link
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                className="mt-3 rounded border p-2 bg-black px-3 py-2 text-white"
+                onClick={() => loadCalendarToken(false)}
+              >
+                Get calendar link
+              </button>
+            )}
+            {calErr && <p className="mt-2 text-sm text-red-700">{calErr}</p>}
+          </section>
+        )}
 
         <section className="mt-8 rounded-xl border border-gray-300 bg-white p-4 dark:border-zinc-700 dark:bg-zinc-900">
           <h2 className="text-sm font-semibold">How it works</h2>
           <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-gray-800 dark:text-zinc-200">
-            <li>Weeks 1–16: pick 2 winning teams</li>
-            <li>Weeks 17–18: pick 1 winning team</li>
-            <li>No team can be picked more than once all season</li>
-            <li>1 bye week allowed (weeks 1–16)</li>
-            <li>Picks lock when the first game of the week starts</li>
-            <li>Player picks are revealed after lock</li>
+            {describeRules(rules).map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+            <li>Each pick locks when its game kicks off</li>
+            <li>Each pick is revealed to the league at its game’s kickoff</li>
           </ul>
         </section>
 
@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { supabase } from "@/src/lib/supabaseClient";
 import { useRouter } from "next/navigation";
+import { inviteLink, pendingInviteCode } from "@/src/lib/invites";
 
 export default function SignupPage() {
   const router = useRouter();
@@ -19,7 +20,11 @@ export default function SignupPage() {
     setBusy(true);
 
     // Where Supabase should send the user after they click the confirmation link
-    const emailRedirectTo = `${window.location.origin}/join`;
+    // (with the invite code, in case they confirm on another device)
+    const code = pendingInviteCode();
+    const emailRedirectTo = code
+      ? inviteLink(window.location.origin, code)
+      : `${window.location.origin}/join`;
 
     const { data, error } = await supabase.auth.signUp({
       email,
@@ -0,0 +1,51 @@
+"use client";
+
+import { usePathname, useRouter } from "next/navigation";
+import { leaguePath } from "@/src/lib/leagues";
+
+const TABS = [
+  { path: "/admin", label: "Jobs" },
+  { path: "/admin/week", label: "Week" },
+  { path: "/admin/games", label: "Games" },
+  { path: "/admin/lines", label: "Lines" },
+  { path: "/admin/picks", label: "Picks" },
+  { path: "/admin/members", label: "Members" },
+  { path: "/admin/invites", label: "Invites" },
+  { path: "/admin/history", label: "History" },
+  { path: "/admin/import", label: "Import" },
+  { path: "/admin/webhooks", label: "Webhooks" },
+];
+
+export default function AdminNav({ leagueId }: { leagueId: string }) {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  return (
+    <nav className="mt-3 flex flex-wrap items-center gap-2">
+      <button
+        className="mr-2 text-sm text-gray-900 underline dark:text-zinc-100"
+        onClick={() => router.push(leaguePath(leagueId, "/picks"))}
+      >
+        ← Picks
+      </button>
+
+      {TABS.map((t) => {
+        const href = leaguePath(leagueId, t.path);
+        const active = pathname === href;
+        return (
+          <button
+            key={t.path}
+            className={
+              active
+                ? "rounded border border-gray-900 px-3 py-1 text-sm font-semibold dark:border-zinc-100"
+                : "rounded border px-3 py-1 text-sm"
+            }
+            onClick={() => router.push(href)}
+          >
+            {t.label}
+          </button>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import {
+  confidenceAt,
+  isEntryLocked,
+  moveEntry,
+  neighbourIndex,
+  type ConfidenceEntry,
+} from "@/src/lib/confidence";
+
+/**
+ * Confidence picks: choose a winner for every game and drag the rows into
+ * order, most confident on top. The top row is worth as many points as
+ * there are games, the bottom row 1. Games that have kicked off stay put.
+ */
+export default function ConfidenceRanker({
+  ranking,
+  onChange,
+  now,
+  teamLabel = (team) => team,
+  disabled = false,
+  errors = {},
+}: {
+  ranking: ConfidenceEntry[];
+  onChange: (next: ConfidenceEntry[]) => void;
+  now: number;
+  /** Button text per team, e.g. with its spread */
+  teamLabel?: (team: string) => string;
+  disabled?: boolean;
+  /** Error messages keyed by game ("AWY@HOME") */
+  errors?: Record<string, string>;
+}) {
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+
+  function move(from: number, to: number | null) {
+    if (to === null) return;
+    onChange(moveEntry(ranking, from, to, now));
+  }
+
+  function pickTeam(index: number, team: string) {
+    const next = ranking.slice();
+    next[index] = { ...next[index], team };
+    onChange(next);
+  }
+
+  if (ranking.length === 0) {
+    return <p className="text-sm text-gray-600">No games this week yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {ranking.map((e, i) => {
+        const locked = isEntryLocked(e, now);
+        const fixed = disabled || locked;
+
+        return (
+          <li
+            key={e.game}
+            draggable={!fixed}
+            onDragStart={() => setDragFrom(i)}
+            onDragEnd={() => setDragFrom(null)}
+            onDragOver={(ev) => {
+              if (!fixed && dragFrom !== null) ev.preventDefault();
+            }}
+            onDrop={(ev) => {
+              ev.preventDefault();
+              if (dragFrom !== null) move(dragFrom, i);
+              setDragFrom(null);
+            }}
+            className={[
+              "rounded border p-2",
+              fixed ? "bg-gray-50 dark:bg-zinc-900" : "cursor-grab",
+              dragFrom === i ? "opacity-50" : "",
+            ].join(" ")}
+          >
+            <div className="flex items-center gap-2">
+              <span
+                className="w-8 text-right text-sm font-semibold tabular-nums"
+                title="Confidence points"
+              >
+                {confidenceAt(ranking, i)}
+              </span>
+
+              <div className="flex flex-1 gap-2">
+                {[e.away_abbr, e.home_abbr].map((team) => (
+                  <button
+                    key={team}
+                    type="button"
+                    disabled={fixed}
+                    onClick={() => pickTeam(i, team)}
+                    className={
+                      e.team === team
+                        ? "flex-1 rounded bg-emerald-600 px-2 py-1 text-sm font-semibold text-white disabled:opacity-70"
+                        : "flex-1 rounded border px-2 py-1 text-sm disabled:opacity-50"
+                    }
+                  >
+                    {teamLabel(team)}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex flex-col">
+                <button
+                  type="button"
+                  aria-label="Move up"
+                  className="px-1 text-xs disabled:opacity-30"
+                  disabled={
+                    fixed || neighbourIndex(ranking, i, -1, now) === null
+                  }
+                  onClick={() => move(i, neighbourIndex(ranking, i, -1, now))}
+                >
+                  ▲
+                </button>
+                <button
+                  type="button"
+                  aria-label="Move down"
+                  className="px-1 text-xs disabled:opacity-30"
+                  disabled={
+                    fixed || neighbourIndex(ranking, i, 1, now) === null
+                  }
+                  onClick={() => move(i, neighbourIndex(ranking, i, 1, now))}
+                >
+                  ▼
+                </button>
+              </div>
+            </div>
+
+            {locked && (
+              <p className="mt-1 text-xs text-gray-500">
+                {e.team
+                  ? `Locked — ${e.team} has kicked off.`
+                  : "Kicked off — no pick."}
+              </p>
+            )}
+            {errors[e.game] && (
+              <p className="mt-1 text-xs text-red-700">{errors[e.game]}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { supabase } from "@/src/lib/supabaseClient";
+import {
+  fetchMyLeagues,
+  leaguePath,
+  setActiveLeagueId,
+  type MyLeague,
+} from "@/src/lib/leagues";
+
+export default function LeagueSwitcher({ leagueId }: { leagueId: string }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [leagues, setLeagues] = useState<MyLeague[]>([]);
+
+  // Whatever league the user is looking at becomes the active one
+  useEffect(() => {
+    setActiveLeagueId(leagueId);
+  }, [leagueId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      const { data } = await supabase.auth.getSession();
+      const uid = data.session?.user.id;
+      if (!uid) return;
+
+      try {
+        const rows = await fetchMyLeagues(uid);
+        if (!cancelled) setLeagues(rows);
+      } catch (e) {
+        console.error("league switcher load failed:", e);
+      }
+    }
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (leagues.length < 2) return null;
+
+  function onSwitch(nextId: string) {
+    if (nextId === leagueId) return;
+    setActiveLeagueId(nextId);
+
+    // Stay on the same view (picks, standings, ...) in the other league
+    const prefix = leaguePath(leagueId, "");
+    const rest = pathname?.startsWith(prefix)
+      ? pathname.slice(prefix.length)
+      : "/picks";
+    router.push(leaguePath(nextId, rest || "/picks"));
+  }
+
+  return (
+    <div className="mx-auto flex max-w-lg items-center justify-end gap-2 px-4 pt-4">
+      <label htmlFor="league-switcher" className="text-xs text-gray-600">
+        League
+      </label>
+      <select
+        id="league-switcher"
+        className="rounded border p-2 text-sm"
+        value={leagueId}
+        onChange={(e) => onSwitch(e.target.value)}
+      >
+        {leagues.map((l) => (
+          <option key={l.id} value={l.id}>
+            {l.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
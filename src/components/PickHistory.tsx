@@ -0,0 +1,57 @@
+"use client";
+
+import { describePickEvent, type PickEvent } from "@/src/lib/pickHistory";
+
+function fmtStamp(dtIso: string) {
+  const d = new Date(dtIso);
+  return d.toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+/**
+ * Pick history list. `nameOf` turns a user id into a display name.
+ */
+export default function PickHistory({
+  events,
+  nameOf,
+}: {
+  events: PickEvent[];
+  nameOf: (user_id: string) => string;
+}) {
+  if (events.length === 0) {
+    return <p className="mt-2 text-sm text-gray-600">No pick changes recorded.</p>;
+  }
+
+  return (
+    <ul className="mt-3 space-y-2">
+      {events.map((e) => {
+        const byOther = e.actor_id && e.actor_id !== e.user_id;
+        return (
+          <li key={e.id} className="rounded border p-2 text-sm">
+            <div className="text-xs text-gray-500">
+              {fmtStamp(e.created_at)}
+            </div>
+            <div>
+              <span className="font-medium">{nameOf(e.user_id)}</span>{" "}
+              {describePickEvent(e)}
+              {byOther && (
+                <span className="text-gray-500"> (by {nameOf(e.actor_id!)})</span>
+              )}
+            </div>
+            {e.reason && (
+              <div className="mt-1 text-xs text-amber-800">
+                Commissioner override: {e.reason}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useRequireAuth } from "@/src/lib/useRequireAuth";
+import { fetchMyLeagues, leaguePath, pickActiveLeague } from "@/src/lib/leagues";
+
+/**
+ * Keeps the old league-less routes (/picks, /standings, ...) working by
+ * forwarding them to the same view of the active league.
+ */
+export default function RedirectToActiveLeague({ path }: { path: string }) {
+  const router = useRouter();
+  const { userId, loading } = useRequireAuth();
+
+  useEffect(() => {
+    if (loading || !userId) return;
+
+    async function go() {
+      try {
+        const active = pickActiveLeague(await fetchMyLeagues(userId!));
+        if (!active) {
+          router.replace("/join");
+          return;
+        }
+        router.replace(leaguePath(active.id, path));
+      } catch (e) {
+        console.error("active league lookup failed:", e);
+        router.replace("/join");
+      }
+    }
+
+    go();
+  }, [loading, userId, router, path]);
+
+  return null;
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { authedFetch } from "@/src/lib/api";
+import { EXPORT_TABLES, type ExportTable } from "@/src/lib/exportTables";
+
+const TABLE_LABELS: Record<ExportTable, string> = {
+  members: "Members",
+  picks: "Picks",
+  byes: "Byes",
+  results: "Results",
+  weekly_scores: "Weekly scores",
+};
+
+/**
+ * Download links for a season's data (see /api/export). Commissioners get
+ * every week; members get the weeks that have fully revealed.
+ */
+export default function SeasonExport({
+  leagueId,
+  seasonYear,
+  isCommissioner,
+}: {
+  leagueId: string;
+  seasonYear: number;
+  isCommissioner: boolean;
+}) {
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function download(format: "json" | "csv", table?: ExportTable) {
+    const key = table ?? format;
+    setDownloading(key);
+    setErr(null);
+
+    try {
+      const params = new URLSearchParams({
+        league_id: leagueId,
+        season_year: String(seasonYear),
+        format,
+      });
+      if (table) params.set("table", table);
+
+      const res = await authedFetch(`/api/export?${params}`);
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        throw new Error(json.error ?? `HTTP ${res.status}`);
+      }
+
+      // Save under the name the route suggests
+      const disposition = res.headers.get("content-disposition") ?? "";
+      const filename =
+        /filename="([^"]+)"/.exec(disposition)?.[1] ??
+        `export-${seasonYear}.${format}`;
+
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setDownloading(null);
+    }
+  }
+
+  const button =
+    "rounded border px-3 py-1 text-sm disabled:cursor-not-allowed disabled:opacity-50";
+
+  return (
+    <section className="mt-6 rounded border p-3">
+      <h2 className="text-sm font-semibold">Export {seasonYear}</h2>
+      <p className="mt-1 text-xs text-gray-600">
+        {isCommissioner
+          ? "Everything so far, including weeks not yet revealed."
+          : "Weeks whose picks have all been revealed."}
+      </p>
+
+      <div className="mt-2 flex flex-wrap gap-2">
+        <button
+          className={button}
+          disabled={downloading !== null}
+          onClick={() => download("json")}
+        >
+          {downloading === "json" ? "Exporting..." : "All (JSON)"}
+        </button>
+        {EXPORT_TABLES.map((t) => (
+          <button
+            key={t}
+            className={button}
+            disabled={downloading !== null}
+            onClick={() => download("csv", t)}
+          >
+            {downloading === t ? "Exporting..." : `${TABLE_LABELS[t]} (CSV)`}
+          </button>
+        ))}
+      </div>
+
+      {err && <p className="mt-2 text-sm text-red-700">{err}</p>}
+    </section>
+  );
+}
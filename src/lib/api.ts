@@ -0,0 +1,18 @@
+import { supabase } from "@/src/lib/supabaseClient";
+
+/**
+ * fetch() against our own API routes with the user's access token attached,
+ * so server routes can tell who is calling (see getRequestUser).
+ */
+export async function authedFetch(input: string, init: RequestInit = {}) {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+
+  const headers = new Headers(init.headers);
+  if (token) headers.set("authorization", `Bearer ${token}`);
+  if (init.body && !headers.has("content-type")) {
+    headers.set("content-type", "application/json");
+  }
+
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,199 @@
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import { weekLabel } from "@/src/lib/season";
+
+/**
+ * iCalendar (RFC 5545) feed of a user's pick deadlines across their leagues.
+ */
+
+export type IcsEvent = {
+  /** Stable across refreshes so calendar apps move the event, not copy it */
+  uid: string;
+  start: string;
+  minutes: number;
+  summary: string;
+  description?: string;
+  url?: string;
+  /** Minutes before start to alert */
+  alarm?: number;
+};
+
+const MINUTE_MS = 60 * 1000;
+
+function icsTime(iso: string) {
+  // 2025-09-07T17:00:00.000Z → 20250907T170000Z
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+}
+
+function icsText(s: string) {
+  return s
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Lines longer than 75 octets continue on the next line after a space */
+function fold(line: string) {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (start === 0 ? 75 : 74), bytes.length);
+    // Don't split a multi-byte character
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    parts.push(bytes.subarray(start, end).toString("utf8"));
+    start = end;
+  }
+  return parts.join("\r\n ");
+}
+
+export function buildCalendar(name: string, events: IcsEvent[]) {
+  const stamp = icsTime(new Date().toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Pickem League//Pick deadlines//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${icsText(name)}`,
+    // Ask subscribers to refresh hourly so moved locks show up
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const e of events) {
+    const end = new Date(
+      new Date(e.start).getTime() + e.minutes * MINUTE_MS
+    ).toISOString();
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${e.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsTime(e.start)}`,
+      `DTEND:${icsTime(end)}`,
+      `SUMMARY:${icsText(e.summary)}`
+    );
+    if (e.description) lines.push(`DESCRIPTION:${icsText(e.description)}`);
+    if (e.url) lines.push(`URL:${e.url}`);
+    if (e.alarm != null) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${icsText(e.summary)}`,
+        `TRIGGER:-PT${e.alarm}M`,
+        "END:VALARM"
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+/**
+ * The feed for one user: every week's lock and reveal in the current season
+ * of each league they belong to, plus (with `games`) every kickoff. Times
+ * come straight from `weeks`/`games`, so a lock moved by sync-week shows up
+ * on the next refresh.
+ */
+export async function userCalendar(args: {
+  user_id: string;
+  games: boolean;
+  appUrl: string;
+}) {
+  const { user_id, appUrl } = args;
+
+  const { data: memberships, error: memErr } = await supabaseAdmin
+    .from("league_members")
+    .select("league:leagues(id,name,season_year)")
+    .eq("user_id", user_id);
+
+  if (memErr) throw memErr;
+
+  const leagues = (memberships ?? [])
+    .map((m: any) => m.league)
+    .filter(Boolean) as { id: string; name: string; season_year: number }[];
+
+  const events: IcsEvent[] = [];
+  const seenGames = new Set<string>();
+
+  for (const lg of leagues) {
+    const picksUrl = `${appUrl}/l/${lg.id}/picks`;
+
+    const { data: weeks, error: weeksErr } = await supabaseAdmin
+      .from("weeks")
+      .select("week_number,lock_time,reveal_time")
+      .eq("league_id", lg.id)
+      .eq("season_year", lg.season_year)
+      .order("week_number", { ascending: true });
+
+    if (weeksErr) throw weeksErr;
+
+    for (const w of weeks ?? []) {
+      const week = weekLabel(w.week_number);
+      const uid = `${lg.id}-${lg.season_year}-${w.week_number}`;
+      // Locks and reveals are both the last kickoff today; one event then
+      const together = w.reveal_time === w.lock_time;
+
+      if (w.lock_time) {
+        events.push({
+          uid: `lock-${uid}@pickem`,
+          start: w.lock_time,
+          minutes: 15,
+          summary: `${lg.name}: ${week} picks lock${
+            together ? " & reveal" : ""
+          }`,
+          description:
+            "Each pick locks at its game's kickoff; this is the last one. " +
+            `Make your picks: ${picksUrl}`,
+          url: picksUrl,
+          alarm: 60,
+        });
+      }
+      if (w.reveal_time && !together) {
+        const weekUrl = `${appUrl}/l/${lg.id}/week/${w.week_number}`;
+        events.push({
+          uid: `reveal-${uid}@pickem`,
+          start: w.reveal_time,
+          minutes: 15,
+          summary: `${lg.name}: ${week} picks revealed`,
+          description: `See everyone's picks: ${weekUrl}`,
+          url: weekUrl,
+        });
+      }
+    }
+
+    if (!args.games) continue;
+
+    const { data: games, error: gamesErr } = await supabaseAdmin
+      .from("games")
+      .select("game_id,week_number,kickoff_time,home_abbr,away_abbr")
+      .eq("league_id", lg.id)
+      .eq("season_year", lg.season_year)
+      .order("kickoff_time", { ascending: true });
+
+    if (gamesErr) throw gamesErr;
+
+    for (const g of games ?? []) {
+      // Leagues share the provider's games; list each kickoff once
+      if (seenGames.has(g.game_id)) continue;
+      seenGames.add(g.game_id);
+
+      events.push({
+        uid: `game-${g.game_id}@pickem`,
+        start: g.kickoff_time,
+        minutes: 180,
+        summary: `${g.away_abbr} @ ${g.home_abbr}`,
+        description: `${weekLabel(
+          g.week_number
+        )} kickoff; picks on this game lock now.`,
+      });
+    }
+  }
+
+  return buildCalendar("Pick’em deadlines", events);
+}
@@ -0,0 +1,130 @@
+import { isTeamLocked, kickoffByTeam, type KickoffGame } from "@/src/lib/locks";
+import type { SlotPicks } from "@/src/lib/pickSubmission";
+
+/**
+ * One row of a confidence ranking: a game and the team picked to win it
+ * ("" until chosen). Rankings are ordered most → least confident, so the
+ * row at index i is worth `ranking.length - i` points.
+ */
+export type ConfidenceEntry = {
+  game: string;
+  away_abbr: string;
+  home_abbr: string;
+  kickoff_time: string;
+  team: string;
+};
+
+export function gameKey(g: Pick<KickoffGame, "away_abbr" | "home_abbr">) {
+  return `${g.away_abbr}@${g.home_abbr}`;
+}
+
+export function confidenceAt(ranking: ConfidenceEntry[], index: number) {
+  return ranking.length - index;
+}
+
+/**
+ * A row that can't move: its game has kicked off (a saved pick keeps its
+ * confidence, an unpicked game is simply missed).
+ */
+export function isEntryLocked(entry: ConfidenceEntry, now = Date.now()) {
+  return isTeamLocked(kickoffByTeam([entry]), entry.home_abbr, now);
+}
+
+/**
+ * Builds the ranking from saved picks (`{ [confidence]: team }`). Saved
+ * picks sit at their confidence; the remaining games fill the open values
+ * from the top, games still to be played first so kicked-off games without
+ * a pick only use up the lowest values.
+ */
+export function initialRanking(
+  games: KickoffGame[],
+  saved: SlotPicks,
+  now = Date.now()
+): ConfidenceEntry[] {
+  const n = games.length;
+  const kickoffs = kickoffByTeam(games);
+  const slots: (ConfidenceEntry | null)[] = Array(n).fill(null);
+  const placed = new Set<string>();
+
+  const entryFor = (g: KickoffGame, team: string): ConfidenceEntry => ({
+    game: gameKey(g),
+    away_abbr: g.away_abbr,
+    home_abbr: g.home_abbr,
+    kickoff_time: g.kickoff_time,
+    team,
+  });
+
+  for (const [key, team] of Object.entries(saved)) {
+    const confidence = Number(key);
+    const g = games.find((x) => x.home_abbr === team || x.away_abbr === team);
+    const i = n - confidence;
+    if (!g || !team || i < 0 || i >= n || slots[i]) continue;
+    if (placed.has(gameKey(g))) continue;
+
+    slots[i] = entryFor(g, team);
+    placed.add(gameKey(g));
+  }
+
+  const rest = games
+    .filter((g) => !placed.has(gameKey(g)))
+    .sort(
+      (a, b) =>
+        Number(isTeamLocked(kickoffs, a.home_abbr, now)) -
+        Number(isTeamLocked(kickoffs, b.home_abbr, now))
+    );
+
+  return slots.map((s) => s ?? entryFor(rest.shift()!, ""));
+}
+
+/**
+ * Moves the row at `from` to `to`, shifting only unlocked rows; locked rows
+ * keep their place (and so their confidence).
+ */
+export function moveEntry(
+  ranking: ConfidenceEntry[],
+  from: number,
+  to: number,
+  now = Date.now()
+): ConfidenceEntry[] {
+  const open = ranking
+    .map((_, i) => i)
+    .filter((i) => !isEntryLocked(ranking[i], now));
+
+  const a = open.indexOf(from);
+  const b = open.indexOf(to);
+  if (a < 0 || b < 0 || a === b) return ranking;
+
+  const moving = open.map((i) => ranking[i]);
+  const [entry] = moving.splice(a, 1);
+  moving.splice(b, 0, entry);
+
+  const next = ranking.slice();
+  open.forEach((i, k) => (next[i] = moving[k]));
+  return next;
+}
+
+/**
+ * The nearest unlocked row above (dir -1) or below (dir 1) `index`.
+ */
+export function neighbourIndex(
+  ranking: ConfidenceEntry[],
+  index: number,
+  dir: -1 | 1,
+  now = Date.now()
+) {
+  for (let i = index + dir; i >= 0 && i < ranking.length; i += dir) {
+    if (!isEntryLocked(ranking[i], now)) return i;
+  }
+  return null;
+}
+
+/**
+ * The ranking as a submission: `{ [confidence]: team }` for picked rows.
+ */
+export function rankingPicks(ranking: ConfidenceEntry[]): SlotPicks {
+  const picks: SlotPicks = {};
+  ranking.forEach((e, i) => {
+    if (e.team) picks[confidenceAt(ranking, i)] = e.team;
+  });
+  return picks;
+}
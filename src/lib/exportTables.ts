@@ -0,0 +1,36 @@
+/**
+ * The tables of a season export (seasonExport.ts), shared with the download
+ * links on the standings page.
+ */
+
+/** Each table's CSV columns, in order */
+export const EXPORT_COLUMNS = {
+  members: ["user_id", "display_name", "role"],
+  picks: ["week_number", "user_id", "member", "slot", "team_abbr"],
+  byes: ["week_number", "user_id", "member"],
+  results: [
+    "week_number",
+    "user_id",
+    "member",
+    "slot",
+    "team_abbr",
+    "spread",
+    "result",
+    "points",
+  ],
+  weekly_scores: [
+    "week_number",
+    "user_id",
+    "member",
+    "bye",
+    "wins",
+    "losses",
+    "pushes",
+    "points",
+    "cumulative",
+  ],
+};
+
+export type ExportTable = keyof typeof EXPORT_COLUMNS;
+
+export const EXPORT_TABLES = Object.keys(EXPORT_COLUMNS) as ExportTable[];
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { gradePick, type GradedGame } from "@/src/lib/grading";
+import { normalizeRules, pointsFor } from "@/src/lib/rules";
+
+function game(overrides: Partial<GradedGame> = {}): GradedGame {
+  return {
+    status: "final",
+    home_abbr: "KC",
+    away_abbr: "DEN",
+    home_score: 27,
+    away_score: 20,
+    winner_abbr: "KC",
+    ...overrides,
+  };
+}
+
+const straightUp = { allFinal: true, spread: null };
+
+describe("gradePick", () => {
+  it("grades a final straight up", () => {
+    expect(gradePick(game(), "KC", straightUp)).toBe("win");
+    expect(gradePick(game(), "DEN", straightUp)).toBe("loss");
+  });
+
+  it("grades a tie as a push for both sides", () => {
+    const tie = game({ home_score: 20, away_score: 20, winner_abbr: null });
+    expect(gradePick(tie, "KC", straightUp)).toBe("push");
+    expect(gradePick(tie, "DEN", straightUp)).toBe("push");
+  });
+
+  it("waits for the game to be final", () => {
+    const live = game({ status: "inprogress" });
+    expect(gradePick(live, "KC", straightUp)).toBe("pending");
+  });
+
+  it("settles a team with no game once the week is final", () => {
+    expect(gradePick(undefined, "NYJ", straightUp)).toBe("loss");
+    expect(gradePick(undefined, "NYJ", { allFinal: false, spread: null }))
+      .toBe("pending");
+  });
+});
+
+describe("pointsFor", () => {
+  it("scores pushes by scoring.push", () => {
+    const half = normalizeRules({});
+    const zero = normalizeRules({ scoring: { push: "zero" } });
+    const win = normalizeRules({ scoring: { win: 2, push: "win" } });
+
+    expect(pointsFor(half, "push")).toBe(0.5);
+    expect(pointsFor(zero, "push")).toBe(0);
+    expect(pointsFor(win, "push")).toBe(2);
+  });
+
+  it("uses the configured win and loss points", () => {
+    const rules = normalizeRules({ scoring: { win: 3, loss: -1 } });
+    expect(pointsFor(rules, "win")).toBe(3);
+    expect(pointsFor(rules, "loss")).toBe(-1);
+    expect(pointsFor(rules, "pending")).toBe(0);
+  });
+
+  it("scores a confidence win at its value", () => {
+    const rules = normalizeRules({ pick_mode: "confidence" });
+    expect(pointsFor(rules, "win", 7)).toBe(7);
+    expect(pointsFor(rules, "push", 7)).toBe(3.5);
+    expect(pointsFor(rules, "loss", 7)).toBe(0);
+  });
+});
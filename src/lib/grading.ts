@@ -0,0 +1,46 @@
+import type { PickResult } from "@/src/lib/rules";
+import { gradeAgainstSpread } from "@/src/lib/spreads";
+
+export type GradedGame = {
+  status: string;
+  home_abbr: string;
+  away_abbr: string;
+  home_score: number | null;
+  away_score: number | null;
+  winner_abbr: string | null;
+};
+
+/**
+ * Grades a pick of `team_abbr` once its own game (`g`) is final. A team with
+ * no game this week can't win, so it's a loss once the whole week is final.
+ * With a `spread` (the team's side of the line) the pick is graded against
+ * it; otherwise straight up, where a final with equal scores is a push for
+ * both sides.
+ */
+export function gradePick(
+  g: GradedGame | undefined,
+  team_abbr: string,
+  opts: { allFinal: boolean; spread: number | null }
+): PickResult {
+  if (!g) return opts.allFinal ? "loss" : "pending";
+  if (g.status !== "final") return "pending";
+
+  if (opts.spread !== null && g.home_score != null && g.away_score != null) {
+    const home = team_abbr === g.home_abbr;
+    return gradeAgainstSpread(
+      Number(home ? g.home_score : g.away_score),
+      Number(home ? g.away_score : g.home_score),
+      opts.spread
+    );
+  }
+
+  if (
+    g.home_score != null &&
+    g.away_score != null &&
+    Number(g.home_score) === Number(g.away_score)
+  ) {
+    return "push";
+  }
+
+  return g.winner_abbr === team_abbr ? "win" : "loss";
+}
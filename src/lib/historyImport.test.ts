@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from "vitest";
+import { normalizeRules } from "@/src/lib/rules";
+import {
+  parseHistoryCsv,
+  planHistoryImport,
+  type HistoryMember,
+} from "@/src/lib/historyImport";
+
+vi.mock("@/src/lib/supabaseAdmin", () => ({ supabaseAdmin: {} }));
+
+const MEMBERS: HistoryMember[] = [
+  { user_id: "u1", display_name: "Pat" },
+  { user_id: "u2", display_name: "Sam" },
+];
+
+function plan(csv: string, mapping: Record<string, string> = {}) {
+  const { rows, errors } = parseHistoryCsv(csv);
+  expect(errors).toEqual([]);
+  return planHistoryImport({
+    rows,
+    members: MEMBERS,
+    mapping,
+    rules: normalizeRules({}),
+    current_season: 2026,
+  });
+}
+
+describe("parseHistoryCsv", () => {
+  it("reads picks and byes, with quoted cells and playoff rounds", () => {
+    const csv = [
+      "Season,Week,Member,Team,Result,Bye",
+      '2025,Week 1,"Lee, Sam",kc,W,',
+      "2025,2,Pat,,,yes",
+      "2025,WC,Pat,phi,tie,",
+    ].join("\n");
+
+    expect(parseHistoryCsv(csv)).toEqual({
+      rows: [
+        {
+          row: 2,
+          season_year: 2025,
+          week_number: 1,
+          member: "Lee, Sam",
+          team_abbr: "KC",
+          result: "win",
+          bye: false,
+        },
+        {
+          row: 3,
+          season_year: 2025,
+          week_number: 2,
+          member: "Pat",
+          team_abbr: null,
+          result: null,
+          bye: true,
+        },
+        {
+          row: 4,
+          season_year: 2025,
+          week_number: 19,
+          member: "Pat",
+          team_abbr: "PHI",
+          result: "push",
+          bye: false,
+        },
+      ],
+      errors: [],
+    });
+  });
+
+  it("reports every problem on a row", () => {
+    const csv = "season,week,member,team,result\n1800,x,,,maybe";
+    expect(parseHistoryCsv(csv).errors).toEqual([
+      "Row 2: invalid season; invalid week; missing member; " +
+        "missing team (or bye); result must be win, loss or push.",
+    ]);
+  });
+
+  it("needs the header row", () => {
+    expect(parseHistoryCsv("year,week\n2025,1").errors).toEqual([
+      'CSV needs a "season,week,member,team,result,bye" header row.',
+    ]);
+  });
+});
+
+describe("planHistoryImport", () => {
+  it("matches members by name and scores picks under the rules", () => {
+    const p = plan(
+      [
+        "season,week,member,team,result,bye",
+        "2025,1,pat,KC,win,",
+        "2025,1,pat,PHI,push,",
+        "2025,2,Samuel,,,yes",
+      ].join("\n"),
+      { Samuel: "u2" }
+    );
+
+    expect(p.errors).toEqual([]);
+    expect(p.unmatched).toEqual([]);
+    expect(p.picks).toEqual([
+      expect.objectContaining({ user_id: "u1", slot: 1, points: 1 }),
+      expect.objectContaining({ user_id: "u1", slot: 2, points: 0.5 }),
+    ]);
+    expect(p.byes).toEqual([
+      { season_year: 2025, week_number: 2, user_id: "u2" },
+    ]);
+    expect(p.seasons).toEqual([
+      { season_year: 2025, weeks: [1, 2], picks: 2, byes: 1 },
+    ]);
+  });
+
+  it("lists names it can't match", () => {
+    const p = plan("season,week,member,team,result\n2025,1,Alex,KC,win");
+    expect(p.unmatched).toEqual(["Alex"]);
+    expect(p.picks).toEqual([]);
+  });
+
+  it("refuses rows that break the league's rules", () => {
+    const p = plan(
+      [
+        "season,week,member,team,result,bye",
+        "2026,1,Pat,KC,win,",
+        "2025,1,Pat,KC,win,",
+        "2025,3,Pat,KC,loss,",
+        "2025,17,Sam,,,yes",
+        "2025,18,Sam,DAL,win,",
+        "2025,18,Sam,NYG,win,",
+      ].join("\n")
+    );
+
+    expect(p.errors).toEqual([
+      "Row 2: 2026 isn't a past season (this league is on 2026).",
+      "Pat, 2025 Week 3: KC was already picked in Week 1.",
+      "Sam, 2025 Week 17: byes aren't allowed this week.",
+      "Sam, 2025 Week 18: 2 picks, but the week allows 1.",
+    ]);
+  });
+});
@@ -0,0 +1,411 @@
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import {
+  isByeWeek,
+  picksRequiredFor,
+  pointsFor,
+  sameTeamPool,
+  type LeagueRules,
+  type PickResult,
+} from "@/src/lib/rules";
+import { POSTSEASON_ROUNDS, seasonWeeks, weekLabel } from "@/src/lib/season";
+import { archiveSeason } from "@/src/lib/seasonArchive";
+
+/**
+ * Import of seasons played before the league moved to the app, from a CSV
+ * with a `season,week,member,team,result,bye` header. Each row is one pick
+ * (team + result) or one bye (bye = yes, no team). Imported seasons are
+ * scored as standard pick'em under the league's rules and archived like a
+ * rolled-over season, so they show up in the standings' season picker.
+ */
+
+export type HistoryRow = {
+  /** Spreadsheet row number (the header is row 1) */
+  row: number;
+  season_year: number;
+  week_number: number;
+  member: string;
+  team_abbr: string | null;
+  result: Exclude<PickResult, "pending"> | null;
+  bye: boolean;
+};
+
+const COLUMNS = ["season", "week", "member", "team", "result", "bye"];
+
+const RESULTS: Record<string, HistoryRow["result"]> = {
+  w: "win",
+  win: "win",
+  l: "loss",
+  loss: "loss",
+  p: "push",
+  t: "push",
+  push: "push",
+  tie: "push",
+};
+
+const YES = ["1", "y", "yes", "true", "x", "bye"];
+
+/** Splits one CSV line, honouring double-quoted cells */
+function csvCells(line: string) {
+  const cells: string[] = [];
+  let cur = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cur += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      cells.push(cur.trim());
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  cells.push(cur.trim());
+  return cells;
+}
+
+/** 7, "7", "Week 7", "WC" or "Wild Card" → week_number */
+function parseWeek(v: string) {
+  const s = v.trim().toLowerCase();
+  const round = POSTSEASON_ROUNDS.find(
+    (r) => r.abbr.toLowerCase() === s || r.name.toLowerCase() === s
+  );
+  if (round) return round.week;
+  const n = Number(s.replace(/^week\s*/, ""));
+  return Number.isInteger(n) ? n : null;
+}
+
+/**
+ * Reads the CSV. Bad rows come back as errors (with their row number)
+ * rather than being skipped.
+ */
+export function parseHistoryCsv(text: string): {
+  rows: HistoryRow[];
+  errors: string[];
+} {
+  const rows: HistoryRow[] = [];
+  const errors: string[] = [];
+
+  const lines = text.trim().split(/\r?\n/);
+  const header = csvCells(lines.shift() ?? "").map((c) => c.toLowerCase());
+  const col = Object.fromEntries(COLUMNS.map((c) => [c, header.indexOf(c)]));
+
+  const missing = COLUMNS.filter((c) => col[c] < 0 && c !== "bye");
+  if (missing.length > 0) {
+    return {
+      rows,
+      errors: [`CSV needs a "${COLUMNS.join(",")}" header row.`],
+    };
+  }
+
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+
+    const row = i + 2;
+    const cells = csvCells(line);
+    const cell = (c: string) => (col[c] < 0 ? "" : cells[col[c]] ?? "");
+
+    const season_year = Number(cell("season"));
+    const week_number = parseWeek(cell("week"));
+    const member = cell("member");
+    const team = cell("team").toUpperCase();
+    const resultText = cell("result").toLowerCase();
+    const bye = YES.includes(cell("bye").toLowerCase());
+
+    const problems: string[] = [];
+    if (!Number.isInteger(season_year) || season_year < 1900) {
+      problems.push("invalid season");
+    }
+    if (week_number === null) problems.push("invalid week");
+    if (!member) problems.push("missing member");
+    if (bye && team) problems.push("a bye can't have a team");
+    if (!bye && !team) problems.push("missing team (or bye)");
+    if (!bye && !RESULTS[resultText]) {
+      problems.push("result must be win, loss or push");
+    }
+
+    if (problems.length > 0) {
+      errors.push(`Row ${row}: ${problems.join("; ")}.`);
+      return;
+    }
+
+    rows.push({
+      row,
+      season_year,
+      week_number: week_number!,
+      member,
+      team_abbr: bye ? null : team,
+      result: bye ? null : RESULTS[resultText],
+      bye,
+    });
+  });
+
+  return { rows, errors };
+}
+
+export type HistoryMember = { user_id: string; display_name: string | null };
+
+export type HistoryPlan = {
+  seasons: {
+    season_year: number;
+    weeks: number[];
+    picks: number;
+    byes: number;
+  }[];
+  picks: {
+    season_year: number;
+    week_number: number;
+    user_id: string;
+    slot: number;
+    team_abbr: string;
+    result: Exclude<PickResult, "pending">;
+    points: number;
+  }[];
+  byes: { season_year: number; week_number: number; user_id: string }[];
+  /** CSV member names that match no member and have no mapping */
+  unmatched: string[];
+  errors: string[];
+};
+
+const nameKey = (s: string) => s.trim().toLowerCase();
+
+/**
+ * Maps members and checks the rows against the rules: past seasons only,
+ * weeks the league plays, no more picks than the week requires, a bye only
+ * in bye weeks and within byes_per_season, no team twice in a week (or in
+ * a season or playoffs without allow_team_reuse), and not both a bye and
+ * picks.
+ *
+ * Members are matched by display name (case-insensitive); `mapping` names
+ * the member for any CSV name that doesn't match.
+ */
+export function planHistoryImport(args: {
+  rows: HistoryRow[];
+  members: HistoryMember[];
+  mapping: Record<string, string>;
+  rules: LeagueRules;
+  current_season: number;
+}): HistoryPlan {
+  const { rows, rules } = args;
+  const errors: string[] = [];
+
+  const byName = new Map<string, string>();
+  args.members.forEach((m) => {
+    if (m.display_name) byName.set(nameKey(m.display_name), m.user_id);
+  });
+  const memberIds = new Set(args.members.map((m) => m.user_id));
+  const mapping = new Map(
+    Object.entries(args.mapping)
+      .filter(([, id]) => memberIds.has(id))
+      .map(([name, id]) => [nameKey(name), id])
+  );
+
+  const userOf = (name: string) =>
+    mapping.get(nameKey(name)) ?? byName.get(nameKey(name)) ?? null;
+
+  const unmatched = [
+    ...new Set(rows.filter((r) => !userOf(r.member)).map((r) => r.member)),
+  ];
+
+  const allowedWeeks = new Set(seasonWeeks(rules.postseason));
+  const plan: HistoryPlan = {
+    seasons: [],
+    picks: [],
+    byes: [],
+    unmatched,
+    errors,
+  };
+
+  // season → user → week → rows
+  const grouped = new Map<number, Map<string, Map<number, HistoryRow[]>>>();
+
+  for (const r of rows) {
+    const where = `Row ${r.row}`;
+    if (r.season_year >= args.current_season) {
+      errors.push(
+        `${where}: ${r.season_year} isn't a past season ` +
+          `(this league is on ${args.current_season}).`
+      );
+      continue;
+    }
+    if (!allowedWeeks.has(r.week_number)) {
+      errors.push(`${where}: the league doesn't play week ${r.week_number}.`);
+      continue;
+    }
+
+    const user_id = userOf(r.member);
+    if (!user_id) continue;
+
+    const season = grouped.get(r.season_year) ?? new Map();
+    grouped.set(r.season_year, season);
+    const weeks = season.get(user_id) ?? new Map();
+    season.set(user_id, weeks);
+    weeks.set(r.week_number, [...(weeks.get(r.week_number) ?? []), r]);
+  }
+
+  const seasons = [...grouped].sort((a, b) => a[0] - b[0]);
+  for (const [season_year, users] of seasons) {
+    const weeksSeen = new Set<number>();
+    let seasonPicks = 0;
+    let seasonByes = 0;
+
+    for (const [user_id, weeks] of users) {
+      const teamsUsed = new Map<string, number>();
+      let byesUsed = 0;
+
+      for (const [week_number, entries] of [...weeks].sort(
+        (a, b) => a[0] - b[0]
+      )) {
+        const where = `${entries[0].member}, ${season_year} ${weekLabel(
+          week_number
+        )}`;
+        weeksSeen.add(week_number);
+
+        const byes = entries.filter((e) => e.bye);
+        const picks = entries.filter((e) => !e.bye);
+
+        if (byes.length > 0 && picks.length > 0) {
+          errors.push(`${where}: has both a bye and picks.`);
+          continue;
+        }
+
+        if (byes.length > 0) {
+          byesUsed++;
+          if (!isByeWeek(rules, week_number)) {
+            errors.push(`${where}: byes aren't allowed this week.`);
+          } else if (byesUsed > rules.byes_per_season) {
+            errors.push(
+              `${where}: more than ${rules.byes_per_season} ${
+                rules.byes_per_season === 1 ? "bye" : "byes"
+              } in the season.`
+            );
+          }
+          plan.byes.push({ season_year, week_number, user_id });
+          seasonByes++;
+          continue;
+        }
+
+        const required = picksRequiredFor(rules, week_number);
+        if (picks.length > required) {
+          errors.push(
+            `${where}: ${picks.length} picks, but the week allows ${required}.`
+          );
+        }
+
+        const teams = picks.map((p) => p.team_abbr!);
+        if (new Set(teams).size < teams.length) {
+          errors.push(`${where}: the same team is picked twice.`);
+        }
+
+        picks.forEach((p, i) => {
+          const team = p.team_abbr!;
+          const prev = teamsUsed.get(team);
+          if (
+            !rules.allow_team_reuse &&
+            prev !== undefined &&
+            sameTeamPool(prev, week_number)
+          ) {
+            errors.push(
+              `${where}: ${team} was already picked in ${weekLabel(prev)}.`
+            );
+          }
+          teamsUsed.set(team, week_number);
+
+          plan.picks.push({
+            season_year,
+            week_number,
+            user_id,
+            slot: i + 1,
+            team_abbr: team,
+            result: p.result!,
+            points: pointsFor(rules, p.result!, i + 1),
+          });
+          seasonPicks++;
+        });
+      }
+    }
+
+    plan.seasons.push({
+      season_year,
+      weeks: [...weeksSeen].sort((a, b) => a - b),
+      picks: seasonPicks,
+      byes: seasonByes,
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Seasons among `years` that already have weeks, picks, byes or an archive
+ * in the app. Importing over them needs an explicit replace.
+ */
+export async function seasonsWithData(league_id: string, years: number[]) {
+  const taken = new Set<number>();
+  if (years.length === 0) return [];
+
+  for (const table of ["weeks", "picks", "byes", "season_archives"]) {
+    const { data, error } = await supabaseAdmin
+      .from(table)
+      .select("season_year")
+      .eq("league_id", league_id)
+      .in("season_year", years);
+    if (error) throw error;
+    (data ?? []).forEach((r: any) => taken.add(r.season_year));
+  }
+
+  return [...taken].sort((a, b) => a - b);
+}
+
+/**
+ * Writes a checked plan in one transaction (import_history RPC): each
+ * imported season's picks, byes, results and week rows replace whatever it
+ * had, and pick_events records the commissioner as the actor. Without
+ * `replace` a season that already has data is refused. Historic kickoffs
+ * aren't known, so week rows lock and reveal at the time of the import.
+ * The seasons are archived once the data is in.
+ */
+export async function writeHistoryImport(args: {
+  league_id: string;
+  plan: HistoryPlan;
+  rules: LeagueRules;
+  actor_id: string;
+  replace: boolean;
+}) {
+  const { league_id, plan, rules } = args;
+
+  const { error } = await supabaseAdmin.rpc("import_history", {
+    p_league_id: league_id,
+    p_actor_id: args.actor_id,
+    p_replace: args.replace,
+    p_weeks: plan.seasons.flatMap((season) =>
+      season.weeks.map((week_number) => ({
+        season_year: season.season_year,
+        week_number,
+        picks_required: picksRequiredFor(rules, week_number),
+      }))
+    ),
+    p_picks: plan.picks,
+    p_byes: plan.byes,
+  });
+  if (error) throw error;
+
+  for (const season of plan.seasons) {
+    await archiveSeason({
+      league_id,
+      season_year: season.season_year,
+      final_week: season.weeks[season.weeks.length - 1],
+      rules,
+    });
+  }
+}
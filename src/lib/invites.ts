@@ -0,0 +1,54 @@
+/**
+ * League invite codes (league_invites). Codes are stored upper-case; a code
+ * from a /join?code=XYZ link is remembered across login/signup so the join
+ * page can finish the job.
+ */
+
+const PENDING_INVITE_KEY = "pickem.pendingInviteCode";
+
+export type Invite = {
+  id: string;
+  code: string;
+  label: string | null;
+  expires_at: string | null;
+  max_uses: number | null;
+  uses: number;
+  revoked_at: string | null;
+  created_at: string;
+};
+
+export type InviteStatus = "active" | "expired" | "used_up" | "revoked";
+
+export function normalizeInviteCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+export function inviteStatus(invite: Invite, now = Date.now()): InviteStatus {
+  if (invite.revoked_at) return "revoked";
+  if (invite.expires_at && new Date(invite.expires_at).getTime() <= now) {
+    return "expired";
+  }
+  if (invite.max_uses != null && invite.uses >= invite.max_uses) {
+    return "used_up";
+  }
+  return "active";
+}
+
+export function inviteLink(origin: string, code: string) {
+  return `${origin}/join?code=${encodeURIComponent(code)}`;
+}
+
+export function rememberInviteCode(code: string) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(PENDING_INVITE_KEY, normalizeInviteCode(code));
+}
+
+export function pendingInviteCode(): string | null {
+  if (typeof window === "undefined") return null;
+  return window.localStorage.getItem(PENDING_INVITE_KEY);
+}
+
+export function clearPendingInviteCode() {
+  if (typeof window === "undefined") return;
+  window.localStorage.removeItem(PENDING_INVITE_KEY);
+}
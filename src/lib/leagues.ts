@@ -0,0 +1,61 @@
+import { supabase } from "@/src/lib/supabaseClient";
+
+const ACTIVE_LEAGUE_KEY = "pickem.activeLeagueId";
+
+export type MyLeague = {
+  id: string;
+  name: string;
+  season_year: number;
+  current_week: number;
+  /** Raw leagues.rules jsonb; run through normalizeRules before use */
+  rules: unknown;
+};
+
+export function getActiveLeagueId(): string | null {
+  if (typeof window === "undefined") return null;
+  return window.localStorage.getItem(ACTIVE_LEAGUE_KEY);
+}
+
+export function setActiveLeagueId(leagueId: string) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(ACTIVE_LEAGUE_KEY, leagueId);
+}
+
+/**
+ * Leagues the user is a member of, ordered by name.
+ */
+export async function fetchMyLeagues(userId: string): Promise<MyLeague[]> {
+  const { data: memberRows, error: memberErr } = await supabase
+    .from("league_members")
+    .select("league_id")
+    .eq("user_id", userId);
+
+  if (memberErr) throw memberErr;
+
+  const ids = (memberRows ?? []).map((r: any) => r.league_id as string);
+  if (ids.length === 0) return [];
+
+  const { data: leagueRows, error: leagueErr } = await supabase
+    .from("leagues")
+    .select("id,name,season_year,current_week,rules")
+    .in("id", ids)
+    .order("name", { ascending: true });
+
+  if (leagueErr) throw leagueErr;
+
+  return (leagueRows ?? []) as MyLeague[];
+}
+
+/**
+ * The stored active league if the user is still a member of it, otherwise
+ * their first league. Null when they are not in any league.
+ */
+export function pickActiveLeague(leagues: MyLeague[]): MyLeague | null {
+  if (leagues.length === 0) return null;
+  const stored = getActiveLeagueId();
+  return leagues.find((l) => l.id === stored) ?? leagues[0];
+}
+
+export function leaguePath(leagueId: string, path: string) {
+  return `/l/${leagueId}${path.startsWith("/") ? path : `/${path}`}`;
+}
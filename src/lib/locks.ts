@@ -0,0 +1,41 @@
+export type KickoffGame = {
+  kickoff_time: string;
+  home_abbr: string;
+  away_abbr: string;
+};
+
+/**
+ * Kickoff (epoch ms) for every team playing in the given games. A team's pick
+ * locks (and is revealed) at this moment.
+ */
+export function kickoffByTeam(games: KickoffGame[]) {
+  const m = new Map<string, number>();
+  for (const g of games) {
+    const t = new Date(g.kickoff_time).getTime();
+    m.set(g.home_abbr, t);
+    m.set(g.away_abbr, t);
+  }
+  return m;
+}
+
+export function isTeamLocked(
+  kickoffs: Map<string, number>,
+  team: string,
+  now = Date.now()
+) {
+  const t = kickoffs.get(team);
+  return t != null && t <= now;
+}
+
+/**
+ * Week-wide lock: the last kickoff of the week, i.e. the moment after which
+ * nothing in the week can change anymore.
+ */
+export function weekLockIso(games: Pick<KickoffGame, "kickoff_time">[]) {
+  let last: number | null = null;
+  for (const g of games) {
+    const t = new Date(g.kickoff_time).getTime();
+    if (last === null || t > last) last = t;
+  }
+  return last === null ? null : new Date(last).toISOString();
+}
@@ -0,0 +1,11 @@
+import type { MailMessage, MailTransport } from "@/src/lib/mail/types";
+
+/**
+ * Logs mail instead of sending it, for development without an SMTP server.
+ */
+export const consoleTransport: MailTransport = {
+  name: "console",
+  async send(msg: MailMessage) {
+    console.log(`[mail] to=${msg.to} subject=${msg.subject}\n${msg.text}`);
+  },
+};
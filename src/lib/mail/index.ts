@@ -0,0 +1,24 @@
+import { consoleTransport } from "@/src/lib/mail/console";
+import { smtpTransport } from "@/src/lib/mail/smtp";
+import type { MailTransport } from "@/src/lib/mail/types";
+
+export type { MailMessage, MailTransport } from "@/src/lib/mail/types";
+
+const TRANSPORTS: Record<string, MailTransport> = {
+  [smtpTransport.name]: smtpTransport,
+  [consoleTransport.name]: consoleTransport,
+};
+
+export const DEFAULT_TRANSPORT = smtpTransport.name;
+
+/**
+ * Looks up the transport named by MAIL_TRANSPORT (default: smtp).
+ */
+export function getMailTransport(
+  name: string | null | undefined = process.env.MAIL_TRANSPORT
+): MailTransport {
+  const key = (name || DEFAULT_TRANSPORT).trim().toLowerCase();
+  const transport = TRANSPORTS[key];
+  if (!transport) throw new Error(`Unknown mail transport: ${name}`);
+  return transport;
+}
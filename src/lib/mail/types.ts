@@ -0,0 +1,13 @@
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface MailTransport {
+  /** Matched against MAIL_TRANSPORT */
+  name: string;
+  /** Throws when the message could not be handed off */
+  send(msg: MailMessage): Promise<void>;
+}
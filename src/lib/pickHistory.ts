@@ -0,0 +1,36 @@
+/**
+ * Pick history, recorded by trigger in pick_events on every create / change /
+ * delete of a pick or bye (see the pick_events migration).
+ */
+
+export type PickEvent = {
+  id: number;
+  week_number: number;
+  user_id: string;
+  actor_id: string | null;
+  kind: "pick" | "bye";
+  slot: number | null;
+  action: "create" | "change" | "delete";
+  old_team: string | null;
+  new_team: string | null;
+  /** Set when a commissioner made the change (override) */
+  reason: string | null;
+  created_at: string;
+};
+
+export const PICK_EVENT_COLUMNS =
+  "id,week_number,user_id,actor_id,kind,slot,action,old_team,new_team,reason,created_at";
+
+/**
+ * One-line summary of an event, e.g. "changed pick 1: KC → BUF".
+ */
+export function describePickEvent(e: PickEvent) {
+  if (e.kind === "bye") {
+    return e.action === "delete" ? "dropped their bye" : "took a bye";
+  }
+
+  const slot = `pick ${e.slot ?? 1}`;
+  if (e.action === "create") return `made ${slot}: ${e.new_team}`;
+  if (e.action === "change") return `changed ${slot}: ${e.old_team} → ${e.new_team}`;
+  return `removed ${slot} (${e.old_team})`;
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it, vi } from "vitest";
+import { normalizeRules } from "@/src/lib/rules";
+import {
+  parsePickSubmission,
+  validatePickSubmission,
+  type PickContext,
+  type PickSubmission,
+} from "@/src/lib/pickSubmission";
+
+vi.mock("@/src/lib/supabaseAdmin", () => ({ supabaseAdmin: {} }));
+
+const NOW = Date.parse("2026-09-13T12:00:00Z");
+const EARLY = "2026-09-13T10:00:00Z"; // already kicked off
+const LATE = "2026-09-13T17:00:00Z";
+const LOCK = "2026-09-14T00:20:00Z";
+
+function context(overrides: Partial<PickContext> = {}): PickContext {
+  return {
+    league: {
+      id: "league",
+      season_year: 2026,
+      current_week: 2,
+      rules: normalizeRules({}),
+    },
+    week_number: 2,
+    weekCfg: { picks_required: 2, lock_time: LOCK },
+    games: [
+      { kickoff_time: EARLY, home_abbr: "BUF", away_abbr: "MIA" },
+      { kickoff_time: LATE, home_abbr: "KC", away_abbr: "DEN" },
+      { kickoff_time: LATE, home_abbr: "PHI", away_abbr: "DAL" },
+    ],
+    saved: { bye: false, picks: {} },
+    byesUsedElsewhere: 0,
+    teamsUsedElsewhere: new Set(),
+    eliminatedWeek: null,
+    ...overrides,
+  };
+}
+
+function codes(
+  ctx: PickContext,
+  sub: PickSubmission,
+  opts: { override?: boolean } = {}
+) {
+  return validatePickSubmission(ctx, sub, { now: NOW, ...opts }).map(
+    (e) => e.code
+  );
+}
+
+describe("parsePickSubmission", () => {
+  it("trims and upper-cases teams and drops blanks", () => {
+    expect(parsePickSubmission({ picks: { 1: " kc ", "2": "" } })).toEqual({
+      bye: false,
+      picks: { 1: "KC" },
+    });
+  });
+
+  it("reads confidence picks keyed by value", () => {
+    expect(
+      parsePickSubmission({ picks: { 3: "kc", 1: "phi" } }, "confidence")
+    ).toEqual({ bye: false, picks: { 1: "PHI", 3: "KC" } });
+  });
+});
+
+describe("validatePickSubmission", () => {
+  it("accepts two different teams that haven't kicked off", () => {
+    expect(codes(context(), { bye: false, picks: { 1: "KC", 2: "PHI" } }))
+      .toEqual([]);
+  });
+
+  it("only opens the league's current week", () => {
+    const ctx = context({ week_number: 3 });
+    expect(codes(ctx, { bye: false, picks: { 1: "KC", 2: "PHI" } }))
+      .toEqual(["week_not_open"]);
+  });
+
+  it("refuses every change once the week has locked", () => {
+    const ctx = context({
+      weekCfg: { picks_required: 2, lock_time: EARLY },
+    });
+    expect(codes(ctx, { bye: false, picks: { 1: "KC", 2: "PHI" } }))
+      .toEqual(["week_locked"]);
+  });
+
+  it("requires each slot and distinct teams", () => {
+    expect(codes(context(), { bye: false, picks: { 1: "KC" } })).toEqual([
+      "pick_required",
+    ]);
+    expect(codes(context(), { bye: false, picks: { 1: "KC", 2: "KC" } }))
+      .toEqual(["duplicate_team"]);
+  });
+
+  it("refuses teams that aren't playing or were already used", () => {
+    const ctx = context({ teamsUsedElsewhere: new Set(["PHI"]) });
+    expect(codes(ctx, { bye: false, picks: { 1: "NYJ", 2: "PHI" } }))
+      .toEqual(["team_not_playing", "team_used"]);
+  });
+
+  it("allows a used team again when the league allows reuse", () => {
+    const ctx = context({ teamsUsedElsewhere: new Set(["PHI"]) });
+    ctx.league.rules = normalizeRules({ allow_team_reuse: true });
+    expect(codes(ctx, { bye: false, picks: { 1: "KC", 2: "PHI" } }))
+      .toEqual([]);
+  });
+
+  it("locks a team at its own kickoff", () => {
+    expect(codes(context(), { bye: false, picks: { 1: "BUF", 2: "KC" } }))
+      .toEqual(["team_locked"]);
+  });
+
+  it("keeps a saved pick whose game has started", () => {
+    const ctx = context({ saved: { bye: false, picks: { 1: "BUF" } } });
+    expect(codes(ctx, { bye: false, picks: { 1: "BUF", 2: "KC" } }))
+      .toEqual([]);
+    expect(codes(ctx, { bye: false, picks: { 1: "PHI", 2: "KC" } }))
+      .toEqual(["slot_locked"]);
+    expect(codes(ctx, { bye: true, picks: {} })).toEqual(["slot_locked"]);
+  });
+
+  it("lets an override skip the locks but not the other rules", () => {
+    const ctx = context({
+      week_number: 1,
+      weekCfg: { picks_required: 2, lock_time: EARLY },
+      saved: { bye: false, picks: { 1: "BUF" } },
+      teamsUsedElsewhere: new Set(["PHI"]),
+    });
+    const override = { override: true };
+    expect(codes(ctx, { bye: false, picks: { 1: "MIA", 2: "KC" } }, override))
+      .toEqual([]);
+    expect(codes(ctx, { bye: false, picks: { 1: "MIA", 2: "PHI" } }, override))
+      .toEqual(["team_used"]);
+  });
+
+  it("limits byes to the bye weeks and byes_per_season", () => {
+    expect(codes(context(), { bye: true, picks: {} })).toEqual([]);
+    expect(
+      codes(context({ byesUsedElsewhere: 1 }), { bye: true, picks: {} })
+    ).toEqual(["no_byes_left"]);
+    expect(
+      codes(
+        context({
+          byesUsedElsewhere: 1,
+          saved: { bye: true, picks: {} },
+        }),
+        { bye: true, picks: {} }
+      )
+    ).toEqual([]);
+
+    const ctx = context({ week_number: 17 });
+    ctx.league.current_week = 17;
+    expect(codes(ctx, { bye: true, picks: {} })).toEqual(["bye_not_allowed"]);
+  });
+
+  it("stops survivor members who are out", () => {
+    const ctx = context({ eliminatedWeek: 1 });
+    expect(codes(ctx, { bye: false, picks: { 1: "KC", 2: "PHI" } }))
+      .toEqual(["eliminated"]);
+  });
+
+  describe("confidence leagues", () => {
+    function confidence(overrides: Partial<PickContext> = {}) {
+      const ctx = context(overrides);
+      ctx.league.rules = normalizeRules({ pick_mode: "confidence" });
+      return ctx;
+    }
+
+    it("requires a winner for every game still to kick off", () => {
+      expect(codes(confidence(), { bye: false, picks: { 3: "KC" } }))
+        .toEqual(["pick_required"]);
+      expect(
+        codes(confidence(), { bye: false, picks: { 3: "KC", 2: "DAL" } })
+      ).toEqual([]);
+    });
+
+    it("refuses out-of-range values and both sides of a game", () => {
+      expect(
+        codes(confidence(), {
+          bye: false,
+          picks: { 4: "KC", 2: "DAL", 1: "PHI" },
+        })
+      ).toEqual(["duplicate_team", "invalid_confidence", "pick_required"]);
+    });
+  });
+});
@@ -0,0 +1,563 @@
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import { isTeamLocked, kickoffByTeam, type KickoffGame } from "@/src/lib/locks";
+import {
+  isByeWeek,
+  normalizeRules,
+  sameTeamPool,
+  type LeagueRules,
+  type PickMode,
+} from "@/src/lib/rules";
+import { fetchSurvivorInputs, survivorStatus } from "@/src/lib/survivor";
+import { weekLabel } from "@/src/lib/season";
+
+export type Slot = 1 | 2;
+
+/**
+ * Team per slot. Standard leagues use slots 1 and 2; in confidence leagues
+ * the slot is the pick's confidence value (1..number of games).
+ */
+export type SlotPicks = Partial<Record<number, string>>;
+
+export type PickSubmission = {
+  bye: boolean;
+  picks: SlotPicks;
+};
+
+export type PickErrorCode =
+  | "week_not_open"
+  | "week_locked"
+  | "slot_locked"
+  | "team_locked"
+  | "team_not_playing"
+  | "team_used"
+  | "duplicate_team"
+  | "pick_required"
+  | "bye_not_allowed"
+  | "no_byes_left"
+  | "eliminated"
+  | "invalid_confidence";
+
+/**
+ * A single rule violation. `field` tells the picks page where to show it:
+ * next to a pick slot, the bye toggle, or at the top of the form.
+ */
+export type PickError = {
+  field: "week" | "bye" | "pick";
+  slot?: Slot;
+  /** Confidence leagues: the team (and value) the error is about */
+  team?: string;
+  confidence?: number;
+  code: PickErrorCode;
+  message: string;
+};
+
+export type PickContext = {
+  league: {
+    id: string;
+    season_year: number;
+    current_week: number;
+    rules: LeagueRules;
+  };
+  week_number: number;
+  weekCfg: { picks_required: 1 | 2; lock_time: string } | null;
+  games: KickoffGame[];
+  /** What is currently saved for this user/week */
+  saved: { bye: boolean; picks: SlotPicks };
+  /** Byes this season, not counting this week */
+  byesUsedElsewhere: number;
+  /** Teams picked in other weeks of the same pool (see sameTeamPool) */
+  teamsUsedElsewhere: Set<string>;
+  /** Survivor leagues: the week this user went out, if they have */
+  eliminatedWeek: number | null;
+};
+
+const SLOTS: Slot[] = [1, 2];
+
+/**
+ * Reads `{ bye, picks: { 1, 2 } }` from a request body (in confidence
+ * leagues `picks` is `{ [confidence]: team }`). Team abbreviations are
+ * trimmed and upper-cased; blanks are dropped.
+ */
+export function parsePickSubmission(
+  body: any,
+  mode: PickMode = "standard"
+): PickSubmission {
+  const picks: SlotPicks = {};
+
+  if (mode === "confidence") {
+    const raw = body?.picks && typeof body.picks === "object" ? body.picks : {};
+    for (const [key, value] of Object.entries(raw)) {
+      const team = String(value ?? "").trim().toUpperCase();
+      if (team) picks[Number(key)] = team;
+    }
+    return { bye: Boolean(body?.bye), picks };
+  }
+
+  for (const slot of SLOTS) {
+    const raw = body?.picks?.[slot] ?? body?.picks?.[String(slot)];
+    const team = String(raw ?? "").trim().toUpperCase();
+    if (team) picks[slot] = team;
+  }
+
+  return { bye: Boolean(body?.bye), picks };
+}
+
+/**
+ * Loads everything needed to validate a user's picks for a week. Defaults to
+ * the league's current week.
+ */
+export async function loadPickContext(args: {
+  league_id: string;
+  user_id: string;
+  week_number?: number;
+}): Promise<PickContext> {
+  const { data: lg, error: lgErr } = await supabaseAdmin
+    .from("leagues")
+    .select("id,season_year,current_week,rules")
+    .eq("id", args.league_id)
+    .single();
+
+  if (lgErr) throw lgErr;
+  if (!lg) throw new Error("League not found");
+
+  const league = {
+    id: lg.id as string,
+    season_year: lg.season_year as number,
+    current_week: lg.current_week as number,
+    rules: normalizeRules(lg.rules),
+  };
+  const week_number = args.week_number ?? league.current_week;
+
+  const scope = {
+    league_id: league.id,
+    season_year: league.season_year,
+  };
+
+  const [weekRes, gamesRes, picksRes, byesRes] = await Promise.all([
+    supabaseAdmin
+      .from("weeks")
+      .select("picks_required,lock_time")
+      .match({ ...scope, week_number })
+      .maybeSingle(),
+    supabaseAdmin
+      .from("games")
+      .select("kickoff_time,home_abbr,away_abbr")
+      .match({ ...scope, week_number }),
+    supabaseAdmin
+      .from("picks")
+      .select("week_number,slot,team_abbr")
+      .match({ ...scope, user_id: args.user_id }),
+    supabaseAdmin
+      .from("byes")
+      .select("week_number")
+      .match({ ...scope, user_id: args.user_id }),
+  ]);
+
+  if (weekRes.error) throw weekRes.error;
+  if (gamesRes.error) throw gamesRes.error;
+  if (picksRes.error) throw picksRes.error;
+  if (byesRes.error) throw byesRes.error;
+
+  const savedPicks: SlotPicks = {};
+  const teamsUsedElsewhere = new Set<string>();
+  for (const p of picksRes.data ?? []) {
+    if (p.week_number === week_number) {
+      savedPicks[p.slot as Slot] = p.team_abbr;
+    } else if (sameTeamPool(p.week_number, week_number)) {
+      teamsUsedElsewhere.add(p.team_abbr);
+    }
+  }
+
+  const byeWeeks = (byesRes.data ?? []).map((b: any) => b.week_number);
+
+  let eliminatedWeek: number | null = null;
+  if (league.rules.survivor.enabled) {
+    const inputs = await fetchSurvivorInputs(
+      supabaseAdmin,
+      league.id,
+      league.season_year,
+      args.user_id
+    );
+    eliminatedWeek = survivorStatus(
+      args.user_id,
+      inputs,
+      league.rules
+    ).eliminated_week;
+  }
+
+  return {
+    league,
+    week_number,
+    weekCfg: weekRes.data
+      ? {
+          picks_required: weekRes.data.picks_required === 2 ? 2 : 1,
+          lock_time: weekRes.data.lock_time,
+        }
+      : null,
+    games: (gamesRes.data ?? []) as KickoffGame[],
+    saved: {
+      bye: byeWeeks.includes(week_number),
+      picks: savedPicks,
+    },
+    byesUsedElsewhere: byeWeeks.filter((w) => w !== week_number).length,
+    teamsUsedElsewhere,
+    eliminatedWeek,
+  };
+}
+
+/**
+ * Confidence leagues: one winner per game, each with a distinct confidence
+ * value from 1 to the number of games. A game that kicked off without a
+ * pick is simply missed.
+ */
+function validateConfidencePicks(
+  ctx: PickContext,
+  sub: PickSubmission,
+  opts: { now: number; override: boolean },
+  errors: PickError[]
+) {
+  const { now, override } = opts;
+  const kickoffs = kickoffByTeam(ctx.games);
+  const n = ctx.games.length;
+
+  const gameByTeam = new Map<string, KickoffGame>();
+  for (const g of ctx.games) {
+    gameByTeam.set(g.home_abbr, g);
+    gameByTeam.set(g.away_abbr, g);
+  }
+
+  const picked = new Set<KickoffGame>();
+
+  for (const [key, team] of Object.entries(sub.picks)) {
+    const confidence = Number(key);
+    if (!team) continue;
+
+    if (!Number.isInteger(confidence) || confidence < 1 || confidence > n) {
+      errors.push({
+        field: "pick",
+        team,
+        code: "invalid_confidence",
+        message: `Confidence points must be between 1 and ${n}.`,
+      });
+      continue;
+    }
+
+    const game = gameByTeam.get(team);
+    if (!game) {
+      errors.push({
+        field: "pick",
+        team,
+        confidence,
+        code: "team_not_playing",
+        message: `${team} is not playing this week.`,
+      });
+      continue;
+    }
+
+    if (picked.has(game)) {
+      errors.push({
+        field: "pick",
+        team,
+        confidence,
+        code: "duplicate_team",
+        message: `Pick only one winner for ${game.away_abbr} @ ${game.home_abbr}.`,
+      });
+      continue;
+    }
+    picked.add(game);
+
+    if (
+      !override &&
+      team !== ctx.saved.picks[confidence] &&
+      isTeamLocked(kickoffs, team, now)
+    ) {
+      errors.push({
+        field: "pick",
+        team,
+        confidence,
+        code: "team_locked",
+        message: `${team} has already kicked off and can't be picked.`,
+      });
+    }
+  }
+
+  for (const g of ctx.games) {
+    if (picked.has(g)) continue;
+    if (!override && isTeamLocked(kickoffs, g.home_abbr, now)) continue;
+
+    errors.push({
+      field: "pick",
+      team: g.home_abbr,
+      code: "pick_required",
+      message: `Pick a winner for ${g.away_abbr} @ ${g.home_abbr}.`,
+    });
+  }
+}
+
+/**
+ * A commissioner entering picks on a member's behalf (POST /api/admin/picks).
+ */
+export type PickOverride = { actor_id: string; reason: string };
+
+/**
+ * Checks a submission against every league rule. Returns an empty list when
+ * the submission may be saved. With `override`, the open-week and kickoff
+ * locks are skipped (commissioner fix-ups); every other rule still applies.
+ *
+ * This is for friendly per-field messages up front; save_week_picks
+ * re-checks the kickoff locks, bye limit and team reuse under row locks,
+ * so a submission that races another save or a kickoff is still refused.
+ */
+export function validatePickSubmission(
+  ctx: PickContext,
+  sub: PickSubmission,
+  opts: { now?: number; override?: boolean } = {}
+): PickError[] {
+  const override = opts.override ?? false;
+  const now = opts.now ?? Date.now();
+  const { league, weekCfg } = ctx;
+  const errors: PickError[] = [];
+
+  if (!override && ctx.week_number !== league.current_week) {
+    errors.push({
+      field: "week",
+      code: "week_not_open",
+      message: `Only week ${league.current_week} is open for picks.`,
+    });
+    return errors;
+  }
+
+  // Out of a survivor pool before this week: nothing more to pick
+  if (
+    !override &&
+    ctx.eliminatedWeek !== null &&
+    ctx.eliminatedWeek < ctx.week_number
+  ) {
+    errors.push({
+      field: "week",
+      code: "eliminated",
+      message: `You were eliminated in ${weekLabel(ctx.eliminatedWeek)}.`,
+    });
+    return errors;
+  }
+
+  if (!weekCfg) {
+    errors.push({
+      field: "week",
+      code: "week_not_open",
+      message: "Week config not found; picks are not open yet.",
+    });
+    return errors;
+  }
+
+  if (!override && new Date(weekCfg.lock_time).getTime() <= now) {
+    errors.push({
+      field: "week",
+      code: "week_locked",
+      message: "This week is locked — every game has kicked off.",
+    });
+    return errors;
+  }
+
+  const kickoffs = kickoffByTeam(ctx.games);
+
+  const confidence = league.rules.pick_mode === "confidence";
+
+  // Each saved pick locks at its own game's kickoff
+  for (const key of Object.keys(ctx.saved.picks)) {
+    const slot = Number(key);
+    const before = ctx.saved.picks[slot];
+    const after = sub.bye ? undefined : sub.picks[slot];
+    if (override || !before || before === after) continue;
+
+    if (isTeamLocked(kickoffs, before, now)) {
+      errors.push({
+        field: sub.bye ? "bye" : "pick",
+        ...(confidence
+          ? { team: before, confidence: slot }
+          : { slot: slot as Slot }),
+        code: "slot_locked",
+        message: confidence
+          ? `${before} (${slot} pts) is locked — its game has already kicked off.`
+          : `Pick ${slot} (${before}) is locked — its game has already kicked off.`,
+      });
+    }
+  }
+
+  if (sub.bye) {
+    if (!isByeWeek(league.rules, ctx.week_number)) {
+      const { from, to } = league.rules.bye_weeks;
+      errors.push({
+        field: "bye",
+        code: "bye_not_allowed",
+        message: `Bye is only allowed in weeks ${from}–${to}.`,
+      });
+    } else if (
+      !ctx.saved.bye &&
+      ctx.byesUsedElsewhere >= league.rules.byes_per_season
+    ) {
+      errors.push({
+        field: "bye",
+        code: "no_byes_left",
+        message: "You have no byes left this season.",
+      });
+    }
+    return errors;
+  }
+
+  if (confidence) {
+    validateConfidencePicks(ctx, sub, { now, override }, errors);
+    return errors;
+  }
+
+  const required = weekCfg.picks_required;
+
+  for (const slot of SLOTS) {
+    const team = sub.picks[slot];
+
+    if (slot > required) continue;
+
+    if (!team) {
+      errors.push({
+        field: "pick",
+        slot,
+        code: "pick_required",
+        message: `Pick ${slot} is required.`,
+      });
+      continue;
+    }
+
+    if (!kickoffs.has(team)) {
+      errors.push({
+        field: "pick",
+        slot,
+        code: "team_not_playing",
+        message: `${team} is not playing this week.`,
+      });
+      continue;
+    }
+
+    if (slot === 2 && team === sub.picks[1]) {
+      errors.push({
+        field: "pick",
+        slot,
+        code: "duplicate_team",
+        message: "Pick 1 and Pick 2 must be different teams.",
+      });
+      continue;
+    }
+
+    if (!league.rules.allow_team_reuse && ctx.teamsUsedElsewhere.has(team)) {
+      errors.push({
+        field: "pick",
+        slot,
+        code: "team_used",
+        message: `You already used ${team} this season.`,
+      });
+      continue;
+    }
+
+    if (
+      !override &&
+      team !== ctx.saved.picks[slot] &&
+      isTeamLocked(kickoffs, team, now)
+    ) {
+      errors.push({
+        field: "pick",
+        slot,
+        code: "team_locked",
+        message: `${team} has already kicked off and can't be picked.`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+// Rules save_week_picks enforces itself; it raises with the code as the hint
+const DB_PICK_ERRORS: Partial<Record<PickErrorCode, PickError["field"]>> = {
+  week_locked: "week",
+  slot_locked: "pick",
+  team_locked: "pick",
+  team_used: "pick",
+  no_byes_left: "bye",
+};
+
+/**
+ * A rule violation raised by save_week_picks, or null for other errors. The
+ * team it names is placed on its slot (standard) or its game (confidence).
+ */
+function dbPickError(
+  ctx: PickContext,
+  sub: PickSubmission,
+  error: { code?: string; hint?: string; details?: string; message: string }
+): PickError | null {
+  const code = error.hint as PickErrorCode;
+  const field = DB_PICK_ERRORS[code];
+  if (error.code !== "P0001" || !field) return null;
+
+  const team = error.details || undefined;
+  const slot = SLOTS.find(
+    (s) => team && (sub.picks[s] === team || ctx.saved.picks[s] === team)
+  );
+  const where =
+    ctx.league.rules.pick_mode === "confidence"
+      ? { team }
+      : field === "pick" && slot
+        ? { slot }
+        : {};
+
+  return { field, ...where, code, message: error.message };
+}
+
+/**
+ * Writes a validated submission in one transaction (save_week_picks RPC):
+ * a bye clears the week's picks, picks clear the week's bye. An override is
+ * written through override_week_picks so the audit trail records the
+ * commissioner and reason. A rule the database refuses (a save that raced
+ * another one or a kickoff) comes back as { ok: false, errors }.
+ */
+export async function savePickSubmission(
+  ctx: PickContext,
+  user_id: string,
+  sub: PickSubmission,
+  override?: PickOverride
+) {
+  const required = ctx.weekCfg?.picks_required ?? 1;
+  const slots =
+    ctx.league.rules.pick_mode === "confidence"
+      ? Object.keys(sub.picks).map(Number)
+      : SLOTS.filter((slot) => slot <= required);
+  const picks = sub.bye
+    ? []
+    : slots
+        .filter((slot) => sub.picks[slot])
+        .map((slot) => ({ slot, team_abbr: sub.picks[slot]! }));
+
+  const args = {
+    p_league_id: ctx.league.id,
+    p_season_year: ctx.league.season_year,
+    p_week_number: ctx.week_number,
+    p_user_id: user_id,
+    p_bye: sub.bye,
+    p_picks: picks,
+  };
+
+  const { error } = override
+    ? await supabaseAdmin.rpc("override_week_picks", {
+        ...args,
+        p_actor_id: override.actor_id,
+        p_reason: override.reason,
+      })
+    : await supabaseAdmin.rpc("save_week_picks", args);
+
+  if (error) {
+    const rejected = dbPickError(ctx, sub, error);
+    if (rejected) return { ok: false as const, errors: [rejected] };
+    throw error;
+  }
+
+  const saved: SlotPicks = {};
+  for (const p of picks) saved[p.slot] = p.team_abbr;
+  return { ok: true as const, bye: sub.bye, picks: saved };
+}
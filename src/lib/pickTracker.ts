@@ -0,0 +1,76 @@
+import type { GameStatus } from "@/src/lib/providers/types";
+
+/**
+ * Live state of a pick from its game's current score, for the week page.
+ * Mirrors how grade-week settles picks: a final tie is a push, and in
+ * against-the-spread leagues the team's line is added to its score.
+ */
+export type LivePickState =
+  | "not_started"
+  | "winning"
+  | "losing"
+  | "tied"
+  | "won"
+  | "lost"
+  | "push";
+
+export type TrackerGame = {
+  game_id: string;
+  status: GameStatus;
+  home_abbr: string;
+  away_abbr: string;
+  home_score: number | null;
+  away_score: number | null;
+  winner_abbr: string | null;
+  home_spread?: number | null;
+  locked_home_spread?: number | null;
+};
+
+export function gameByTeam<T extends TrackerGame>(games: T[]) {
+  const map = new Map<string, T>();
+  for (const g of games) {
+    map.set(g.home_abbr, g);
+    map.set(g.away_abbr, g);
+  }
+  return map;
+}
+
+export function livePickState(
+  game: TrackerGame | undefined,
+  team: string,
+  spread: number | null = null
+): LivePickState {
+  if (!game || game.status === "scheduled") return "not_started";
+
+  const isHome = game.home_abbr === team;
+  const mine =
+    Number((isHome ? game.home_score : game.away_score) ?? 0) + (spread ?? 0);
+  const theirs = Number((isHome ? game.away_score : game.home_score) ?? 0);
+
+  if (game.status === "final") {
+    if (mine === theirs) return "push";
+    if (game.winner_abbr && spread === null) {
+      return game.winner_abbr === team ? "won" : "lost";
+    }
+    return mine > theirs ? "won" : "lost";
+  }
+
+  if (mine === theirs) return "tied";
+  return mine > theirs ? "winning" : "losing";
+}
+
+/**
+ * Running record as it stands: picks ahead (or won) vs behind (or lost).
+ * Ties and pushes are counted separately; unstarted games don't count.
+ */
+export function runningRecord(states: LivePickState[]) {
+  let wins = 0;
+  let losses = 0;
+  let ties = 0;
+  for (const s of states) {
+    if (s === "won" || s === "winning") wins++;
+    else if (s === "lost" || s === "losing") losses++;
+    else if (s === "push" || s === "tied") ties++;
+  }
+  return { wins, losses, ties };
+}
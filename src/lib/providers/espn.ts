@@ -0,0 +1,95 @@
+import type {
+  GameStatus,
+  ProviderGame,
+  ProviderResult,
+  ScoreProvider,
+  WeekQuery,
+} from "@/src/lib/providers/types";
+
+const SCOREBOARD_URL =
+  "https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard";
+
+function mapStatus(state: string | undefined): GameStatus {
+  if (state === "in") return "inprogress";
+  if (state === "post") return "final";
+  return "scheduled";
+}
+
+function parseEvent(ev: any): ProviderGame | null {
+  const comp = ev.competitions?.[0];
+  if (!comp) return null;
+
+  const competitors = comp.competitors ?? [];
+  const home = competitors.find((c: any) => c.homeAway === "home");
+  const away = competitors.find((c: any) => c.homeAway === "away");
+  if (!home?.team?.abbreviation || !away?.team?.abbreviation) return null;
+
+  const home_abbr = home.team.abbreviation;
+  const away_abbr = away.team.abbreviation;
+
+  const statusType = comp.status?.type;
+  const state = statusType?.state; // pre / in / post
+  const completed = !!statusType?.completed;
+
+  const home_score = home.score != null ? Number(home.score) : null;
+  const away_score = away.score != null ? Number(away.score) : null;
+
+  // ESPN only settles a winner once the game is marked completed
+  let winner_abbr: string | null = null;
+  if (completed && home_score != null && away_score != null) {
+    if (home_score > away_score) winner_abbr = home_abbr;
+    else if (away_score > home_score) winner_abbr = away_abbr;
+  }
+
+  return {
+    game_id: String(ev.id),
+    home_abbr,
+    away_abbr,
+    kickoff_time: comp.date,
+    status: mapStatus(state),
+    home_score,
+    away_score,
+    winner_abbr,
+  };
+}
+
+async function fetchScoreboard(q: WeekQuery): Promise<ProviderResult> {
+  const url = new URL(SCOREBOARD_URL);
+  url.searchParams.set("seasontype", String(q.season_type));
+  url.searchParams.set("week", String(q.week_number));
+  url.searchParams.set("dates", String(q.season_year));
+
+  let r: Response;
+  try {
+    r = await fetch(url.toString(), {
+      headers: { accept: "application/json" },
+      cache: "no-store",
+    });
+  } catch (e: any) {
+    return { ok: false, status: null, error: e?.message ?? String(e) };
+  }
+
+  if (!r.ok) {
+    const t = await r.text().catch(() => "");
+    return { ok: false, status: r.status, error: t || "ESPN error" };
+  }
+
+  const json: any = await r.json().catch(() => ({}));
+  const events: any[] = json.events ?? [];
+
+  const games: ProviderGame[] = [];
+  for (const ev of events) {
+    const g = parseEvent(ev);
+    if (g) games.push(g);
+  }
+
+  return { ok: true, games };
+}
+
+export const espnProvider: ScoreProvider = {
+  name: "espn",
+  // The scoreboard endpoint serves both the schedule and live scores
+  fetchWeekSchedule: fetchScoreboard,
+  fetchScores: fetchScoreboard,
+  mapStatus,
+};
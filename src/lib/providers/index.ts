@@ -0,0 +1,28 @@
+import { espnProvider } from "@/src/lib/providers/espn";
+import { fixtureProvider } from "@/src/lib/providers/fixture";
+import type { ScoreProvider } from "@/src/lib/providers/types";
+
+export type {
+  GameStatus,
+  ProviderGame,
+  ProviderResult,
+  ScoreProvider,
+  WeekQuery,
+} from "@/src/lib/providers/types";
+
+const PROVIDERS: Record<string, ScoreProvider> = {
+  [espnProvider.name]: espnProvider,
+  [fixtureProvider.name]: fixtureProvider,
+};
+
+export const DEFAULT_PROVIDER = espnProvider.name;
+
+/**
+ * Looks up a provider by the name stored in leagues.score_provider.
+ */
+export function getScoreProvider(name?: string | null): ScoreProvider {
+  const key = (name ?? DEFAULT_PROVIDER).trim().toLowerCase();
+  const provider = PROVIDERS[key];
+  if (!provider) throw new Error(`Unknown score provider: ${name}`);
+  return provider;
+}
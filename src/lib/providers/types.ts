@@ -0,0 +1,52 @@
+export type GameStatus = "scheduled" | "inprogress" | "final";
+
+/** One game as a provider reports it, already in our `games` shape */
+export type ProviderGame = {
+  game_id: string;
+  home_abbr: string;
+  away_abbr: string;
+  kickoff_time: string;
+  status: GameStatus;
+  home_score: number | null;
+  away_score: number | null;
+  winner_abbr: string | null;
+};
+
+export type WeekQuery = {
+  season_year: number;
+  week_number: number;
+  season_type: number; // 2=regular, 3=postseason
+};
+
+export type ProviderResult =
+  | { ok: true; games: ProviderGame[] }
+  | { ok: false; status: number | null; error: string };
+
+export interface ScoreProvider {
+  /** Stored in games.provider and leagues.score_provider */
+  name: string;
+  /** Games (matchups + kickoffs) for a week; scores may be missing */
+  fetchWeekSchedule(q: WeekQuery): Promise<ProviderResult>;
+  /** Games for a week with the latest status and scores */
+  fetchScores(q: WeekQuery): Promise<ProviderResult>;
+  /** Provider-specific game state to our status */
+  mapStatus(state: string | undefined): GameStatus;
+}
+
+/**
+ * Winner of a completed game, or null for unfinished games and ties.
+ */
+export function winnerOf(g: {
+  status: GameStatus;
+  home_abbr: string;
+  away_abbr: string;
+  home_score: number | null;
+  away_score: number | null;
+}) {
+  if (g.status !== "final" || g.home_score == null || g.away_score == null) {
+    return null;
+  }
+  if (g.home_score > g.away_score) return g.home_abbr;
+  if (g.away_score > g.home_score) return g.away_abbr;
+  return null;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from "vitest";
+import { dueReminderHours, nextKickoffIso } from "@/src/lib/reminders";
+
+vi.mock("@/src/lib/supabaseAdmin", () => ({ supabaseAdmin: {} }));
+
+const HOUR_MS = 60 * 60 * 1000;
+const KICKOFF = "2026-09-13T17:00:00.000Z";
+const at = (hoursBefore: number) => Date.parse(KICKOFF) - hoursBefore * HOUR_MS;
+
+describe("dueReminderHours", () => {
+  it("is null before the first interval and from kickoff on", () => {
+    expect(dueReminderHours([24, 2], KICKOFF, at(30))).toBe(null);
+    expect(dueReminderHours([24, 2], KICKOFF, at(0))).toBe(null);
+  });
+
+  it("picks the interval whose moment has passed", () => {
+    expect(dueReminderHours([24, 2], KICKOFF, at(24))).toBe(24);
+    expect(dueReminderHours([24, 2], KICKOFF, at(5))).toBe(24);
+    expect(dueReminderHours([24, 2], KICKOFF, at(1.5))).toBe(2);
+  });
+
+  it("sends one reminder, not every interval, after a late first run", () => {
+    expect(dueReminderHours([48, 24, 2], KICKOFF, at(1))).toBe(2);
+  });
+});
+
+describe("nextKickoffIso", () => {
+  const games = [
+    { kickoff_time: "2026-09-11T00:15:00Z" },
+    { kickoff_time: KICKOFF },
+    { kickoff_time: "2026-09-13T20:25:00Z" },
+  ];
+
+  it("is the earliest kickoff still to come", () => {
+    expect(nextKickoffIso(games, Date.parse("2026-09-10T12:00:00Z"))).toBe(
+      "2026-09-11T00:15:00.000Z"
+    );
+    expect(nextKickoffIso(games, Date.parse("2026-09-12T12:00:00Z"))).toBe(
+      KICKOFF
+    );
+  });
+
+  it("is null once every game has kicked off", () => {
+    expect(nextKickoffIso(games, Date.parse("2026-09-14T00:00:00Z"))).toBe(
+      null
+    );
+    expect(nextKickoffIso([], 0)).toBe(null);
+  });
+});
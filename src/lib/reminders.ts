@@ -0,0 +1,279 @@
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import { normalizeRules } from "@/src/lib/rules";
+import { computeSurvivor, fetchSurvivorInputs } from "@/src/lib/survivor";
+import { weekLabel } from "@/src/lib/season";
+import type { MailMessage, MailTransport } from "@/src/lib/mail";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * The reminder interval (hours before kickoff) due right now: the smallest
+ * one whose moment has passed, so a late first run sends one email rather
+ * than every interval at once. Null before the first interval and after
+ * kickoff.
+ */
+export function dueReminderHours(
+  hours: number[],
+  kickoffIso: string,
+  now = Date.now()
+) {
+  const kickoff = new Date(kickoffIso).getTime();
+  if (now >= kickoff) return null;
+
+  const due = hours.filter((h) => now >= kickoff - h * HOUR_MS);
+  return due.length ? Math.min(...due) : null;
+}
+
+/**
+ * The week's first kickoff still to come. Picks lock game by game, so a
+ * member who hasn't picked is reminded ahead of the next game to lock, not
+ * the last kickoff (weeks.lock_time).
+ */
+export function nextKickoffIso(
+  games: { kickoff_time: string }[],
+  now = Date.now()
+) {
+  let next: number | null = null;
+  for (const g of games) {
+    const t = new Date(g.kickoff_time).getTime();
+    if (t > now && (next === null || t < next)) next = t;
+  }
+  return next === null ? null : new Date(next).toISOString();
+}
+
+export type ReminderResult = {
+  league_id: string;
+  week_number: number;
+  hours_before: number | null;
+  /** Members with neither picks nor a bye */
+  missing: number;
+  sent: number;
+  opted_out: number;
+  /** Survivor leagues: members already out of the pool */
+  eliminated: number;
+  already_sent: number;
+  failed: { user_id: string; error: string }[];
+  reason?: string;
+};
+
+function reminderEmail(args: {
+  to: string;
+  name: string | null;
+  league: { id: string; name: string; timezone: string | null };
+  week_number: number;
+  kickoff_time: string;
+  appUrl: string;
+}): MailMessage {
+  const { league, appUrl } = args;
+  const week = weekLabel(args.week_number);
+  const kickoff = new Date(args.kickoff_time).toLocaleString("en-US", {
+    timeZone: league.timezone || undefined,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+
+  return {
+    to: args.to,
+    subject: `${league.name}: make your ${week} picks`,
+    text: [
+      `Hi ${args.name || "there"},`,
+      "",
+      `You haven't made your ${week} picks (or used a bye) in ${league.name} yet.`,
+      `Each pick locks at its game's kickoff; the next game kicks off ${kickoff}.`,
+      "",
+      `Make your picks: ${appUrl}/l/${league.id}/picks`,
+      "",
+      `Don't want these emails? Turn off reminders on ${appUrl}/`,
+    ].join("\n"),
+  };
+}
+
+/**
+ * Emails every member of the league who has neither picks nor a bye for the
+ * current week, once per interval in rules.reminder_hours before each of the
+ * week's kickoffs that still has someone to remind (reminder_sends is keyed
+ * by the kickoff). Members who opted out (user_settings.email_reminders =
+ * false) or are out of a survivor pool are skipped. A failed send is
+ * reported and retried on the next run; DB errors throw.
+ */
+export async function sendPickReminders(args: {
+  league_id: string;
+  transport: MailTransport;
+  appUrl: string;
+  now?: number;
+}): Promise<ReminderResult> {
+  const { league_id, transport, appUrl, now = Date.now() } = args;
+
+  const { data: lg, error: lgErr } = await supabaseAdmin
+    .from("leagues")
+    .select("id,name,season_year,current_week,timezone,rules")
+    .eq("id", league_id)
+    .single();
+
+  if (lgErr) throw lgErr;
+
+  const rules = normalizeRules(lg.rules);
+  const week_number = lg.current_week as number;
+
+  const result: ReminderResult = {
+    league_id,
+    week_number,
+    hours_before: null,
+    missing: 0,
+    sent: 0,
+    opted_out: 0,
+    eliminated: 0,
+    already_sent: 0,
+    failed: [],
+  };
+
+  if (rules.reminder_hours.length === 0) {
+    return { ...result, reason: "Reminders are off" };
+  }
+
+  const { data: games, error: gamesErr } = await supabaseAdmin
+    .from("games")
+    .select("kickoff_time")
+    .eq("league_id", league_id)
+    .eq("season_year", lg.season_year)
+    .eq("week_number", week_number);
+
+  if (gamesErr) throw gamesErr;
+  if (!games?.length) return { ...result, reason: "No games" };
+
+  const kickoff_time = nextKickoffIso(games, now);
+  if (!kickoff_time) return { ...result, reason: "All games have kicked off" };
+
+  const hours_before = dueReminderHours(
+    rules.reminder_hours,
+    kickoff_time,
+    now
+  );
+  if (hours_before === null) {
+    return { ...result, reason: "No reminder due" };
+  }
+  result.hours_before = hours_before;
+
+  const [members, picks, byes, optOuts, sends] = await Promise.all([
+    supabaseAdmin
+      .from("league_members")
+      .select("user_id,display_name")
+      .eq("league_id", league_id),
+    supabaseAdmin
+      .from("picks")
+      .select("user_id")
+      .eq("league_id", league_id)
+      .eq("season_year", lg.season_year)
+      .eq("week_number", week_number),
+    supabaseAdmin
+      .from("byes")
+      .select("user_id")
+      .eq("league_id", league_id)
+      .eq("season_year", lg.season_year)
+      .eq("week_number", week_number),
+    supabaseAdmin
+      .from("user_settings")
+      .select("user_id")
+      .eq("email_reminders", false),
+    supabaseAdmin
+      .from("reminder_sends")
+      .select("user_id")
+      .eq("league_id", league_id)
+      .eq("season_year", lg.season_year)
+      .eq("week_number", week_number)
+      .eq("hours_before", hours_before)
+      .eq("kickoff_time", kickoff_time),
+  ]);
+
+  for (const r of [members, picks, byes, optOuts, sends]) {
+    if (r.error) throw r.error;
+  }
+
+  const answered = new Set(
+    [...(picks.data ?? []), ...(byes.data ?? [])].map((r: any) => r.user_id)
+  );
+  const optedOut = new Set((optOuts.data ?? []).map((r: any) => r.user_id));
+  const alreadySent = new Set((sends.data ?? []).map((r: any) => r.user_id));
+
+  // Members out of a survivor pool have nothing left to pick
+  const out = new Set<string>();
+  if (rules.survivor.enabled) {
+    const inputs = await fetchSurvivorInputs(
+      supabaseAdmin,
+      league_id,
+      lg.season_year
+    );
+    const { statuses } = computeSurvivor(
+      members.data ?? [],
+      inputs,
+      rules,
+      now
+    );
+    for (const s of statuses.values()) {
+      if (s.eliminated_week !== null && s.eliminated_week < week_number) {
+        out.add(s.user_id);
+      }
+    }
+  }
+
+  const missing = (members.data ?? []).filter(
+    (m: any) => !answered.has(m.user_id) && !out.has(m.user_id)
+  );
+  result.missing = missing.length;
+  result.eliminated = out.size;
+
+  for (const m of missing) {
+    if (optedOut.has(m.user_id)) {
+      result.opted_out++;
+      continue;
+    }
+    if (alreadySent.has(m.user_id)) {
+      result.already_sent++;
+      continue;
+    }
+
+    try {
+      const { data: u, error: uErr } =
+        await supabaseAdmin.auth.admin.getUserById(m.user_id);
+      if (uErr) throw uErr;
+      if (!u.user?.email) throw new Error("No email address");
+
+      await transport.send(
+        reminderEmail({
+          to: u.user.email,
+          name: m.display_name,
+          league: lg,
+          week_number,
+          kickoff_time,
+          appUrl,
+        })
+      );
+    } catch (e: any) {
+      result.failed.push({
+        user_id: m.user_id,
+        error: e?.message ?? String(e),
+      });
+      continue;
+    }
+
+    const { error: logErr } = await supabaseAdmin
+      .from("reminder_sends")
+      .insert({
+        league_id,
+        season_year: lg.season_year,
+        week_number,
+        user_id: m.user_id,
+        hours_before,
+        kickoff_time,
+      });
+    if (logErr) throw logErr;
+
+    result.sent++;
+  }
+
+  return result;
+}
@@ -0,0 +1,355 @@
+import { isPostseasonWeek, weekLabel } from "@/src/lib/season";
+
+/**
+ * Per-league rules, stored as jsonb in leagues.rules. Anything missing from
+ * the stored record falls back to DEFAULT_RULES, so an empty `{}` is the
+ * classic league: 2 picks (weeks 1–16), 1 pick (weeks 17–18), each team once
+ * a season, 1 bye in weeks 1–16, no playoffs. A league that opts into the
+ * postseason picks 1 team a round from a fresh pool (see sameTeamPool).
+ */
+
+export type WeekRange = { from: number; to: number };
+
+export type PicksPerWeekRule = WeekRange & { picks: number };
+
+/** How a push (tie game) scores: half a win, nothing, or a full win */
+export type PushScoring = "half" | "zero" | "win";
+
+export type PickResult = "win" | "loss" | "push" | "pending";
+
+/**
+ * "standard": 1–2 picks a week (picks_per_week). "confidence": pick every
+ * game and rank them; a win is worth its confidence value (the pick's slot).
+ */
+export type PickMode = "standard" | "confidence";
+
+/**
+ * Standings tiebreakers, applied in order to members level on points, wins
+ * and losses (see tiebreakers.ts).
+ */
+export type Tiebreaker =
+  /** Total margin of victory of picked teams (higher is better) */
+  | { type: "margin" }
+  /** Fewest losses over the last N weeks played */
+  | { type: "recent_losses"; weeks: number }
+  /** Most wins with a team that had the worse record going in */
+  | { type: "upsets" }
+  /** Most weeks outscoring the other tied members */
+  | { type: "head_to_head" };
+
+export type LeagueRules = {
+  pick_mode: PickMode;
+  /** Picks required per week, by inclusive week range */
+  picks_per_week: PicksPerWeekRule[];
+  /** Number of byes a member may use per season */
+  byes_per_season: number;
+  /** Weeks in which a bye may be used */
+  bye_weeks: WeekRange;
+  /** Whether a team may be picked more than once in a season */
+  allow_team_reuse: boolean;
+  /**
+   * Keep playing through the playoffs (weeks 19–22, see season.ts). Teams
+   * used in the regular season may be picked again in the playoffs.
+   */
+  postseason: boolean;
+  /** Points per graded pick */
+  scoring: { win: number; loss: number; push: PushScoring };
+  /** Standings tiebreaker chain; empty = ties stay ties */
+  tiebreakers: Tiebreaker[];
+  /** Survivor mode: out after `lives` losses (see survivor.ts) */
+  survivor: { enabled: boolean; lives: number };
+  /** Grade picks against imported point spreads (see spreads.ts) */
+  spread_picks: boolean;
+  /**
+   * Hours before the week's next kickoff to email members who haven't
+   * picked (see reminders.ts); [] = off, the default
+   */
+  reminder_hours: number[];
+};
+
+export const DEFAULT_RULES: LeagueRules = {
+  pick_mode: "standard",
+  picks_per_week: [
+    { from: 1, to: 16, picks: 2 },
+    { from: 17, to: 18, picks: 1 },
+    { from: 19, to: 22, picks: 1 },
+  ],
+  byes_per_season: 1,
+  bye_weeks: { from: 1, to: 16 },
+  allow_team_reuse: false,
+  postseason: false,
+  scoring: { win: 1, loss: 0, push: "half" },
+  tiebreakers: [],
+  survivor: { enabled: false, lives: 1 },
+  spread_picks: false,
+  reminder_hours: [],
+};
+
+// The picks UI and the picks table only have slots 1 and 2
+const MAX_PICKS_PER_WEEK = 2;
+
+function num(v: unknown, fallback: number) {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function weekRange(v: any, fallback: WeekRange): WeekRange {
+  if (!v || typeof v !== "object") return fallback;
+  return {
+    from: Math.trunc(num(v.from, fallback.from)),
+    to: Math.trunc(num(v.to, fallback.to)),
+  };
+}
+
+function tiebreaker(v: any): Tiebreaker | null {
+  if (!v || typeof v !== "object") return null;
+  if (v.type === "margin" || v.type === "upsets" || v.type === "head_to_head") {
+    return { type: v.type };
+  }
+  if (v.type === "recent_losses") {
+    return {
+      type: "recent_losses",
+      weeks: Math.max(1, Math.trunc(num(v.weeks, 3))),
+    };
+  }
+  return null;
+}
+
+/**
+ * Turns whatever is stored in leagues.rules into a complete LeagueRules.
+ */
+export function normalizeRules(raw: unknown): LeagueRules {
+  const r: any = raw && typeof raw === "object" ? raw : {};
+  const d = DEFAULT_RULES;
+
+  const picks_per_week: PicksPerWeekRule[] = Array.isArray(r.picks_per_week)
+    ? r.picks_per_week
+        .filter((x: any) => x && typeof x === "object")
+        .map((x: any) => ({
+          ...weekRange(x, { from: 1, to: 1 }),
+          picks: Math.min(
+            MAX_PICKS_PER_WEEK,
+            Math.max(1, Math.trunc(num(x.picks, 1)))
+          ),
+        }))
+    : d.picks_per_week;
+
+  return {
+    pick_mode: r.pick_mode === "confidence" ? "confidence" : d.pick_mode,
+    picks_per_week: picks_per_week.length ? picks_per_week : d.picks_per_week,
+    byes_per_season: Math.max(
+      0,
+      Math.trunc(num(r.byes_per_season, d.byes_per_season))
+    ),
+    bye_weeks: weekRange(r.bye_weeks, d.bye_weeks),
+    allow_team_reuse:
+      typeof r.allow_team_reuse === "boolean"
+        ? r.allow_team_reuse
+        : d.allow_team_reuse,
+    postseason:
+      typeof r.postseason === "boolean" ? r.postseason : d.postseason,
+    scoring: {
+      win: num(r.scoring?.win, d.scoring.win),
+      loss: num(r.scoring?.loss, d.scoring.loss),
+      push: ["half", "zero", "win"].includes(r.scoring?.push)
+        ? r.scoring.push
+        : d.scoring.push,
+    },
+    tiebreakers: Array.isArray(r.tiebreakers)
+      ? r.tiebreakers
+          .map(tiebreaker)
+          .filter((t: Tiebreaker | null): t is Tiebreaker => t !== null)
+      : d.tiebreakers,
+    survivor: {
+      enabled:
+        typeof r.survivor?.enabled === "boolean"
+          ? r.survivor.enabled
+          : d.survivor.enabled,
+      lives: Math.max(1, Math.trunc(num(r.survivor?.lives, d.survivor.lives))),
+    },
+    spread_picks:
+      typeof r.spread_picks === "boolean" ? r.spread_picks : d.spread_picks,
+    reminder_hours: Array.isArray(r.reminder_hours)
+      ? [...new Set<number>(r.reminder_hours.map((h: unknown) => num(h, 0)))]
+          .filter((h) => h > 0)
+          .sort((a, b) => b - a)
+      : d.reminder_hours,
+  };
+}
+
+/**
+ * Points a graded pick is worth. Pending picks are worth nothing (yet). In
+ * confidence mode a win is worth the pick's confidence (its slot) and a loss
+ * nothing; pushes follow scoring.push either way.
+ */
+export function pointsFor(rules: LeagueRules, result: PickResult, slot = 1) {
+  const { scoring } = rules;
+  const win = rules.pick_mode === "confidence" ? slot : scoring.win;
+  const loss = rules.pick_mode === "confidence" ? 0 : scoring.loss;
+
+  if (result === "win") return win;
+  if (result === "loss") return loss;
+  if (result === "push") {
+    if (scoring.push === "win") return win;
+    if (scoring.push === "half") return win / 2;
+    return 0;
+  }
+  return 0;
+}
+
+function inRange(range: WeekRange, week: number) {
+  return week >= range.from && week <= range.to;
+}
+
+/**
+ * Picks required for a week. Weeks not covered by any range need 1 pick.
+ */
+export function picksRequiredFor(rules: LeagueRules, week: number): 1 | 2 {
+  const rule = rules.picks_per_week.find((r) => inRange(r, week));
+  return (rule?.picks ?? 1) === 2 ? 2 : 1;
+}
+
+/**
+ * Whether picking a team in one week uses it up for the other (without
+ * allow_team_reuse). The playoffs start over: by week 18 a member has picked
+ * all 32 teams, so only postseason picks count against postseason weeks.
+ */
+export function sameTeamPool(a: number, b: number) {
+  return isPostseasonWeek(a) === isPostseasonWeek(b);
+}
+
+export function isByeWeek(rules: LeagueRules, week: number) {
+  return rules.byes_per_season > 0 && inRange(rules.bye_weeks, week);
+}
+
+function weeksLabel(range: WeekRange) {
+  if (range.from === range.to) return weekLabel(range.from);
+  if (isPostseasonWeek(range.from)) {
+    return `${weekLabel(range.from)}–${weekLabel(range.to)}`;
+  }
+  return `Weeks ${range.from}–${range.to}`;
+}
+
+function plural(n: number, one: string, many: string) {
+  return `${n} ${n === 1 ? one : many}`;
+}
+
+const SPREAD_RULE =
+  "Picks are graded against the spread: your team must cover its line (set at kickoff) to win";
+
+/**
+ * Human-readable rules, one line each, for the "How it works" section.
+ */
+export function describeRules(rules: LeagueRules): string[] {
+  if (rules.pick_mode === "confidence") return describeConfidenceRules(rules);
+
+  const lines = rules.picks_per_week
+    .filter((r) => rules.postseason || !isPostseasonWeek(r.from))
+    .map(
+      (r) =>
+        `${weeksLabel(r)}: pick ${r.picks} winning ${r.picks === 1 ? "team" : "teams"}`
+    );
+
+  if (rules.spread_picks) lines.push(SPREAD_RULE);
+
+  lines.push(
+    rules.postseason
+      ? "The league keeps playing through the playoffs, with every team available again"
+      : "The season ends after week 18"
+  );
+
+  lines.push(
+    rules.allow_team_reuse
+      ? "Teams may be picked again in later weeks"
+      : "No team can be picked more than once all season"
+  );
+
+  lines.push(
+    rules.byes_per_season > 0
+      ? `${plural(rules.byes_per_season, "bye week", "bye weeks")} allowed (${weeksLabel(
+          rules.bye_weeks
+        ).toLowerCase()})`
+      : "No bye weeks"
+  );
+
+  lines.push(
+    `Scoring: ${plural(rules.scoring.win, "point", "points")} per win, ${plural(
+      rules.scoring.loss,
+      "point",
+      "points"
+    )} per loss`
+  );
+
+  const pushPts = pointsFor(rules, "push");
+  lines.push(
+    `Tie games are pushes worth ${plural(pushPts, "point", "points")}${
+      rules.scoring.push === "half" ? " (half a win)" : ""
+    }`
+  );
+
+  if (rules.survivor.enabled) {
+    lines.push(
+      `Survivor: you’re out after ${plural(
+        rules.survivor.lives,
+        "loss",
+        "losses"
+      )} (a missed pick counts as a loss); last one standing wins`
+    );
+  }
+
+  if (rules.tiebreakers.length > 0) {
+    lines.push(
+      `Standings ties are broken by ${rules.tiebreakers
+        .map(tiebreakerLabel)
+        .map((l) => l.toLowerCase())
+        .join(", then ")}`
+    );
+  }
+
+  return lines;
+}
+
+function describeConfidenceRules(rules: LeagueRules): string[] {
+  const lines = [
+    "Confidence points: pick the winner of every game and rank your picks",
+    "With N games, your most confident pick is worth N points and your least 1",
+    "A correct pick scores its confidence points; a wrong pick scores 0",
+    ...(rules.spread_picks ? [SPREAD_RULE] : []),
+    rules.scoring.push === "zero"
+      ? "Tie games score 0"
+      : rules.scoring.push === "half"
+      ? "Tie games score half the pick’s points"
+      : "Tie games score the pick’s full points",
+    rules.postseason
+      ? "The league keeps playing through the playoffs, with every team available again"
+      : "The season ends after week 18",
+  ];
+
+  if (rules.byes_per_season > 0) {
+    lines.push(
+      `${plural(rules.byes_per_season, "bye week", "bye weeks")} allowed (${weeksLabel(
+        rules.bye_weeks
+      ).toLowerCase()})`
+    );
+  }
+
+  if (rules.tiebreakers.length > 0) {
+    lines.push(
+      `Standings ties are broken by ${rules.tiebreakers
+        .map(tiebreakerLabel)
+        .map((l) => l.toLowerCase())
+        .join(", then ")}`
+    );
+  }
+
+  return lines;
+}
+
+export function tiebreakerLabel(t: Tiebreaker) {
+  if (t.type === "margin") return "Margin of victory";
+  if (t.type === "recent_losses") {
+    return `Fewest losses, last ${plural(t.weeks, "week", "weeks")}`;
+  }
+  if (t.type === "upsets") return "Upset wins";
+  return "Head-to-head weeks";
+}
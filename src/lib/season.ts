@@ -0,0 +1,74 @@
+/**
+ * Season calendar. Postseason rounds are stored as weeks after the regular
+ * season (19 = Wild Card … 22 = Super Bowl), so picks, weeks and games keep
+ * a single week_number; providers are asked for ESPN's own numbering
+ * (season type 3, weeks 1–5, where week 4 is the Pro Bowl and skipped).
+ */
+
+export const REGULAR_SEASON_WEEKS = 18;
+
+export type PostseasonRound = {
+  week: number;
+  name: string;
+  /** Short label for narrow columns (standings grid) */
+  abbr: string;
+  provider_week: number;
+};
+
+export const POSTSEASON_ROUNDS: PostseasonRound[] = [
+  { week: 19, name: "Wild Card", abbr: "WC", provider_week: 1 },
+  { week: 20, name: "Divisional", abbr: "DIV", provider_week: 2 },
+  { week: 21, name: "Conference Championships", abbr: "CONF", provider_week: 3 },
+  { week: 22, name: "Super Bowl", abbr: "SB", provider_week: 5 },
+];
+
+export const LAST_WEEK = POSTSEASON_ROUNDS[POSTSEASON_ROUNDS.length - 1].week;
+
+export function isPostseasonWeek(week: number) {
+  return week > REGULAR_SEASON_WEEKS;
+}
+
+export function postseasonRound(week: number) {
+  return POSTSEASON_ROUNDS.find((r) => r.week === week) ?? null;
+}
+
+/**
+ * "Week 7", or the round name for postseason weeks.
+ */
+export function weekLabel(week: number) {
+  return postseasonRound(week)?.name ?? `Week ${week}`;
+}
+
+/**
+ * "W7", or the round's abbreviation for postseason weeks.
+ */
+export function weekShortLabel(week: number) {
+  return postseasonRound(week)?.abbr ?? `W${week}`;
+}
+
+/**
+ * Our week_number → the provider's (season_type, week) pair.
+ */
+export function providerWeek(week: number) {
+  const round = postseasonRound(week);
+  if (round) return { season_type: 3, week_number: round.provider_week };
+  return { season_type: 2, week_number: week };
+}
+
+/**
+ * All weeks a league plays, in order.
+ */
+export function seasonWeeks(includePostseason: boolean) {
+  const weeks = Array.from({ length: REGULAR_SEASON_WEEKS }, (_, i) => i + 1);
+  if (includePostseason) weeks.push(...POSTSEASON_ROUNDS.map((r) => r.week));
+  return weeks;
+}
+
+/**
+ * The week after `week`, or null when the season is over.
+ */
+export function nextWeek(week: number, includePostseason: boolean) {
+  const weeks = seasonWeeks(includePostseason);
+  const i = weeks.indexOf(week);
+  return i >= 0 && i < weeks.length - 1 ? weeks[i + 1] : null;
+}
@@ -0,0 +1,72 @@
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import type { LeagueRules } from "@/src/lib/rules";
+import { computeStandings, type StandingsRow } from "@/src/lib/standings";
+
+export type SeasonArchive = {
+  league_id: string;
+  season_year: number;
+  final_week: number;
+  rules: LeagueRules;
+  standings: StandingsRow[];
+  archived_at: string;
+};
+
+/**
+ * Snapshots a season's final standings (with the rules they were scored
+ * under) into season_archives. Re-running replaces the snapshot.
+ */
+export async function archiveSeason(args: {
+  league_id: string;
+  season_year: number;
+  final_week: number;
+  rules: LeagueRules;
+}) {
+  const { data: members, error: memErr } = await supabaseAdmin
+    .from("league_members")
+    .select("user_id,display_name")
+    .eq("league_id", args.league_id);
+
+  if (memErr) throw memErr;
+
+  const { data: results, error: resErr } = await supabaseAdmin
+    .from("pick_results")
+    .select("user_id,result,week_number,slot,team_abbr,points")
+    .eq("league_id", args.league_id)
+    .eq("season_year", args.season_year);
+
+  if (resErr) throw resErr;
+
+  // Scores for the tiebreakers
+  const { data: games, error: gamesErr } = await supabaseAdmin
+    .from("games")
+    .select(
+      "week_number,status,home_abbr,away_abbr,home_score,away_score,winner_abbr"
+    )
+    .eq("league_id", args.league_id)
+    .eq("season_year", args.season_year);
+
+  if (gamesErr) throw gamesErr;
+
+  const standings = computeStandings(
+    (members ?? []) as any,
+    (results ?? []) as any,
+    args.rules,
+    { results: (results ?? []) as any, games: (games ?? []) as any }
+  );
+
+  const { error: upErr } = await supabaseAdmin.from("season_archives").upsert(
+    {
+      league_id: args.league_id,
+      season_year: args.season_year,
+      final_week: args.final_week,
+      rules: args.rules,
+      standings,
+      archived_at: new Date().toISOString(),
+    },
+    { onConflict: "league_id,season_year" }
+  );
+
+  if (upErr) throw upErr;
+
+  return { standings };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from "vitest";
+import { normalizeRules } from "@/src/lib/rules";
+import {
+  csvCell,
+  tableCsv,
+  type SeasonExport,
+} from "@/src/lib/seasonExport";
+
+vi.mock("@/src/lib/supabaseAdmin", () => ({ supabaseAdmin: {} }));
+
+describe("csvCell", () => {
+  it("writes plain values as they are", () => {
+    expect(csvCell("Pat")).toBe("Pat");
+    expect(csvCell(-1)).toBe("-1");
+    expect(csvCell(true)).toBe("true");
+    expect(csvCell(null)).toBe("");
+  });
+
+  it("quotes commas, quotes and line breaks", () => {
+    expect(csvCell("Smith, Pat")).toBe('"Smith, Pat"');
+    expect(csvCell('Pat "P" Smith')).toBe('"Pat ""P"" Smith"');
+    expect(csvCell("a\nb")).toBe('"a\nb"');
+  });
+
+  it("keeps formula-like text from running in a spreadsheet", () => {
+    expect(csvCell("=HYPERLINK(\"x\")")).toBe('"\'=HYPERLINK(""x"")"');
+    expect(csvCell("+1")).toBe("'+1");
+    expect(csvCell("-2")).toBe("'-2");
+    expect(csvCell("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(csvCell("\tx")).toBe("'\tx");
+    expect(csvCell("\rx")).toBe("\"'\rx\"");
+  });
+});
+
+describe("tableCsv", () => {
+  it("writes a header row and one line per row", () => {
+    const data = {
+      league: { id: "league", name: "League" },
+      season_year: 2026,
+      rules: normalizeRules({}),
+      weeks: [1],
+      exported_at: "2026-09-14T00:00:00Z",
+      members: [
+        { user_id: "u1", display_name: "=cmd", role: "member" },
+        { user_id: "u2", display_name: "Lee, Sam", role: "commissioner" },
+      ],
+      picks: [],
+      byes: [],
+      results: [],
+      weekly_scores: [],
+    } satisfies SeasonExport;
+
+    expect(tableCsv(data, "members")).toBe(
+      [
+        "user_id,display_name,role",
+        "u1,'=cmd,member",
+        'u2,"Lee, Sam",commissioner',
+      ].join("\r\n")
+    );
+  });
+});
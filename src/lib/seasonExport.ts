@@ -0,0 +1,192 @@
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import { normalizeRules, type LeagueRules } from "@/src/lib/rules";
+import { computeWeeklyGrid, pickPoints } from "@/src/lib/standings";
+import { EXPORT_COLUMNS, type ExportTable } from "@/src/lib/exportTables";
+
+/**
+ * A league season as flat tables, for spreadsheets (one CSV per table) and
+ * archiving (all tables as one JSON document).
+ */
+
+type Row = Record<string, string | number | boolean | null>;
+
+export type SeasonExport = {
+  league: { id: string; name: string };
+  season_year: number;
+  rules: LeagueRules;
+  /** Weeks included; members only get weeks that have fully revealed */
+  weeks: number[];
+  exported_at: string;
+} & Record<ExportTable, Row[]>;
+
+export async function buildSeasonExport(args: {
+  league_id: string;
+  season_year: number;
+  /** Leave out weeks whose reveal_time hasn't passed */
+  revealedOnly: boolean;
+}): Promise<SeasonExport> {
+  const { league_id, season_year } = args;
+  const now = Date.now();
+
+  const { data: lg, error: lgErr } = await supabaseAdmin
+    .from("leagues")
+    .select("id,name,season_year,rules")
+    .eq("id", league_id)
+    .single();
+
+  if (lgErr) throw lgErr;
+
+  // Past seasons are scored under the rules they were archived with
+  let rules = normalizeRules(lg.rules);
+  if (season_year !== lg.season_year) {
+    const { data: archive, error: archErr } = await supabaseAdmin
+      .from("season_archives")
+      .select("rules")
+      .eq("league_id", league_id)
+      .eq("season_year", season_year)
+      .maybeSingle();
+
+    if (archErr) throw archErr;
+    if (archive) rules = normalizeRules(archive.rules);
+  }
+
+  const season = (table: string, columns: string) =>
+    supabaseAdmin
+      .from(table)
+      .select(columns)
+      .eq("league_id", league_id)
+      .eq("season_year", season_year);
+
+  const [members, weekRows, picks, byes, results, games] = await Promise.all([
+    supabaseAdmin
+      .from("league_members")
+      .select("user_id,display_name,role")
+      .eq("league_id", league_id)
+      .order("display_name", { ascending: true }),
+    season("weeks", "week_number,picks_required,lock_time,reveal_time"),
+    season("picks", "user_id,week_number,slot,team_abbr"),
+    season("byes", "user_id,week_number"),
+    season(
+      "pick_results",
+      "user_id,week_number,slot,team_abbr,result,points,spread"
+    ),
+    season(
+      "games",
+      "week_number,status,home_abbr,away_abbr,home_score,away_score,winner_abbr"
+    ),
+  ]);
+
+  for (const r of [members, weekRows, picks, byes, results, games]) {
+    if (r.error) throw r.error;
+  }
+
+  const weeks = ((weekRows.data ?? []) as any[])
+    .filter(
+      (w) =>
+        !args.revealedOnly ||
+        (!!w.reveal_time && new Date(w.reveal_time).getTime() <= now)
+    )
+    .map((w) => w.week_number as number)
+    .sort((a, b) => a - b);
+  const included = new Set(weeks);
+  const inWeeks = (rows: any[] | null) =>
+    (rows ?? []).filter((r) => included.has(r.week_number));
+
+  const memberRows = (members.data ?? []) as any[];
+  const nameOf = new Map<string, string>(
+    memberRows.map((m) => [m.user_id, m.display_name || "Member"])
+  );
+  const member = (user_id: string) => ({
+    user_id,
+    member: nameOf.get(user_id) ?? "Former member",
+  });
+
+  const bySlot = (a: any, b: any) =>
+    a.week_number - b.week_number ||
+    member(a.user_id).member.localeCompare(member(b.user_id).member) ||
+    a.slot - b.slot;
+
+  const resultRows = inWeeks(results.data);
+  const byeRows = inWeeks(byes.data);
+
+  const grid = computeWeeklyGrid(
+    memberRows,
+    resultRows,
+    byeRows,
+    rules,
+    weeks,
+    { results: resultRows, games: inWeeks(games.data) }
+  );
+
+  return {
+    league: { id: lg.id, name: lg.name },
+    season_year,
+    rules,
+    weeks,
+    exported_at: new Date(now).toISOString(),
+    members: memberRows.map((m) => ({
+      user_id: m.user_id,
+      display_name: m.display_name,
+      role: m.role,
+    })),
+    picks: inWeeks(picks.data)
+      .sort(bySlot)
+      .map((p) => ({
+        week_number: p.week_number,
+        ...member(p.user_id),
+        slot: p.slot,
+        team_abbr: p.team_abbr,
+      })),
+    byes: byeRows
+      .map((b) => ({ week_number: b.week_number, ...member(b.user_id) }))
+      .sort(
+        (a, b) =>
+          a.week_number - b.week_number || a.member.localeCompare(b.member)
+      ),
+    results: resultRows.sort(bySlot).map((r) => ({
+      week_number: r.week_number,
+      ...member(r.user_id),
+      slot: r.slot,
+      team_abbr: r.team_abbr,
+      spread: r.spread ?? null,
+      result: r.result,
+      points: r.result === "pending" ? null : pickPoints(rules, r),
+    })),
+    weekly_scores: grid.flatMap((row) =>
+      row.cells.map((c) => ({
+        week_number: c.week_number,
+        user_id: row.user_id,
+        member: row.name,
+        bye: c.bye,
+        wins: c.wins,
+        losses: c.losses,
+        pushes: c.pushes,
+        points: c.points,
+        cumulative: c.cumulative,
+      }))
+    ),
+  };
+}
+
+/**
+ * A CSV field, quoted when needed. Text that a spreadsheet would run as a
+ * formula (=, +, -, @, tab or CR first, e.g. a display name) gets a leading
+ * ' so it opens as text; numbers are written as they are.
+ */
+export function csvCell(v: Row[string]) {
+  let s = v == null ? "" : String(v);
+  if (typeof v === "string" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * One table of the export as CSV, with a header row.
+ */
+export function tableCsv(data: SeasonExport, table: ExportTable) {
+  const columns = EXPORT_COLUMNS[table];
+  const rows = data[table];
+  return [
+    columns.join(","),
+    ...rows.map((r) => columns.map((c) => csvCell(r[c])).join(",")),
+  ].join("\r\n");
+}
@@ -0,0 +1,77 @@
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+
+/**
+ * Resolves the signed-in user from the `Authorization: Bearer <access token>`
+ * header the browser sends (see authedFetch). Throws "Unauthorized".
+ */
+export async function getRequestUser(req: Request) {
+  const header = req.headers.get("authorization") ?? "";
+  const token = header.toLowerCase().startsWith("bearer ")
+    ? header.slice(7).trim()
+    : "";
+  if (!token) throw new Error("Unauthorized");
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data.user) throw new Error("Unauthorized");
+
+  return data.user;
+}
+
+/**
+ * The caller's league_members row for this league. Throws "Forbidden" if they
+ * are not a member.
+ */
+export async function requireMember(league_id: string, user_id: string) {
+  const { data, error } = await supabaseAdmin
+    .from("league_members")
+    .select("league_id,user_id,display_name,role")
+    .eq("league_id", league_id)
+    .eq("user_id", user_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error("Forbidden");
+
+  return data as {
+    league_id: string;
+    user_id: string;
+    display_name: string | null;
+    role: "member" | "commissioner";
+  };
+}
+
+/**
+ * Like requireMember, but the caller must be a commissioner of the league.
+ */
+export async function requireCommissioner(league_id: string, user_id: string) {
+  const member = await requireMember(league_id, user_id);
+  if (member.role !== "commissioner") throw new Error("Forbidden");
+  return member;
+}
+
+export function isCronRequest(req: Request) {
+  const isVercelCron = req.headers.get("x-vercel-cron") === "1";
+  const hasSecret =
+    !!process.env.CRON_SECRET &&
+    req.headers.get("x-cron-secret") === process.env.CRON_SECRET;
+  return isVercelCron || hasSecret;
+}
+
+/**
+ * For the cron routes that commissioners can also run from /admin: lets the
+ * scheduler in with the cron secret, or a signed-in commissioner of
+ * `league_id`.
+ */
+export async function requireCronOrCommissioner(req: Request, league_id: string) {
+  if (isCronRequest(req)) return { via: "cron" as const, user: null };
+
+  const user = await getRequestUser(req);
+  await requireCommissioner(league_id, user.id);
+  return { via: "commissioner" as const, user };
+}
+
+export function errorStatus(e: any) {
+  if (e?.message === "Unauthorized") return 401;
+  if (e?.message === "Forbidden") return 403;
+  return 500;
+}
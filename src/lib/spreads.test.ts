@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { gradePick } from "@/src/lib/grading";
+import {
+  formatSpread,
+  gradeAgainstSpread,
+  parseSpreadFile,
+  teamSpread,
+} from "@/src/lib/spreads";
+
+describe("parseSpreadFile", () => {
+  it("reads a team,spread CSV with PK lines", () => {
+    expect(parseSpreadFile("Team,Spread\nkc,-3.5\nDEN,pk\n")).toEqual({
+      lines: [
+        { team: "KC", spread: -3.5 },
+        { team: "DEN", spread: 0 },
+      ],
+      errors: [],
+    });
+  });
+
+  it("reads JSON arrays and { lines }", () => {
+    const lines = [{ team: "PHI", spread: 2.5 }];
+    expect(parseSpreadFile(JSON.stringify(lines)).lines).toEqual(lines);
+    expect(parseSpreadFile(JSON.stringify({ lines })).lines).toEqual(lines);
+  });
+
+  it("reports bad rows by spreadsheet row number", () => {
+    expect(parseSpreadFile("team,spread\nKC,abc\n,3").errors).toEqual([
+      "Row 2: invalid spread.",
+      "Row 3: missing team.",
+    ]);
+    expect(parseSpreadFile("abbr,line\nKC,3").errors).toEqual([
+      'CSV needs a "team,spread" header row.',
+    ]);
+  });
+});
+
+describe("teamSpread", () => {
+  const game = {
+    home_abbr: "KC",
+    away_abbr: "DEN",
+    home_spread: -3,
+    locked_home_spread: -6.5,
+  };
+
+  it("grades against the line frozen at kickoff", () => {
+    expect(teamSpread(game, "KC")).toBe(-6.5);
+    expect(teamSpread(game, "DEN")).toBe(6.5);
+  });
+
+  it("falls back to the current line, or none", () => {
+    expect(teamSpread({ ...game, locked_home_spread: null }, "DEN")).toBe(3);
+    expect(teamSpread({ home_abbr: "KC", away_abbr: "DEN" }, "KC")).toBe(
+      null
+    );
+  });
+});
+
+describe("gradeAgainstSpread", () => {
+  it("wins by covering and pushes when the line lands", () => {
+    expect(gradeAgainstSpread(27, 20, -6.5)).toBe("win");
+    expect(gradeAgainstSpread(27, 20, -7)).toBe("push");
+    expect(gradeAgainstSpread(27, 20, -7.5)).toBe("loss");
+    expect(gradeAgainstSpread(20, 27, 7.5)).toBe("win");
+  });
+
+  it("grades a final through gradePick with the team's line", () => {
+    const g = {
+      status: "final",
+      home_abbr: "KC",
+      away_abbr: "DEN",
+      home_score: 24,
+      away_score: 21,
+      winner_abbr: "KC",
+    };
+    expect(gradePick(g, "KC", { allFinal: true, spread: -3 })).toBe("push");
+    expect(gradePick(g, "DEN", { allFinal: true, spread: 3.5 })).toBe("win");
+  });
+});
+
+describe("formatSpread", () => {
+  it("signs lines and calls zero a pick'em", () => {
+    expect(formatSpread(-3.5)).toBe("-3.5");
+    expect(formatSpread(7)).toBe("+7");
+    expect(formatSpread(0)).toBe("PK");
+    expect(formatSpread(null)).toBe("");
+  });
+});
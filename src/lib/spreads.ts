@@ -0,0 +1,123 @@
+import type { PickResult } from "@/src/lib/rules";
+
+/**
+ * Point spreads for against-the-spread leagues (rules.spread_picks). Lines
+ * are imported by a commissioner from a CSV or JSON file; there is no live
+ * odds feed. A game stores its line from the home side (games.home_spread,
+ * -3.5 = home favored by 3.5) and freezes it into locked_home_spread at
+ * kickoff; picks are graded against the frozen line.
+ */
+
+export type SpreadLine = { team: string; spread: number };
+
+export type SpreadGame = {
+  home_abbr: string;
+  away_abbr: string;
+  home_spread?: number | null;
+  locked_home_spread?: number | null;
+};
+
+function spreadValue(v: unknown): number | null {
+  const s = String(v ?? "").trim().toUpperCase();
+  if (s === "PK" || s === "PICK" || s === "EVEN") return 0;
+  if (s === "") return null;
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Reads a lines file: JSON (`[{ "team": "KC", "spread": -3.5 }]`, or
+ * `{ "lines": [...] }`) or CSV with a `team,spread` header. "PK" is a
+ * zero spread. Bad rows come back as errors (with their row number)
+ * rather than being skipped.
+ */
+export function parseSpreadFile(text: string): {
+  lines: SpreadLine[];
+  errors: string[];
+} {
+  const lines: SpreadLine[] = [];
+  const errors: string[] = [];
+  const trimmed = text.trim();
+
+  const add = (row: number, team: unknown, spread: unknown) => {
+    const abbr = String(team ?? "").trim().toUpperCase();
+    const value = spreadValue(spread);
+    if (!abbr) errors.push(`Row ${row}: missing team.`);
+    else if (value === null) errors.push(`Row ${row}: invalid spread.`);
+    else lines.push({ team: abbr, spread: value });
+  };
+
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    let json: any;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      return { lines, errors: ["File is not valid JSON."] };
+    }
+
+    const rows = Array.isArray(json) ? json : json?.lines;
+    if (!Array.isArray(rows)) {
+      return { lines, errors: ["Expected an array of { team, spread }."] };
+    }
+    rows.forEach((r: any, i: number) => add(i + 1, r?.team, r?.spread));
+    return { lines, errors };
+  }
+
+  const rows = trimmed
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .map((l) => l.split(",").map((c) => c.trim()));
+
+  const header = (rows.shift() ?? []).map((c) => c.toLowerCase());
+  const teamCol = header.indexOf("team");
+  const spreadCol = header.indexOf("spread");
+  if (teamCol < 0 || spreadCol < 0) {
+    return { lines, errors: ['CSV needs a "team,spread" header row.'] };
+  }
+
+  // Row numbers count the header, like a spreadsheet
+  rows.forEach((r, i) => add(i + 2, r[teamCol], r[spreadCol]));
+  return { lines, errors };
+}
+
+/**
+ * The line a game is graded against: frozen at kickoff, else the current one.
+ */
+export function gameSpread(g: SpreadGame): number | null {
+  const v = g.locked_home_spread ?? g.home_spread;
+  return v == null ? null : Number(v);
+}
+
+/**
+ * `team`'s side of a home-based line (the away team gets the opposite).
+ */
+export function teamSpread(g: SpreadGame, team: string): number | null {
+  const home = gameSpread(g);
+  if (home === null) return null;
+  return team === g.home_abbr ? home : -home;
+}
+
+/**
+ * "-3.5", "+7", or "PK".
+ */
+export function formatSpread(spread: number | null | undefined) {
+  if (spread == null) return "";
+  if (spread === 0) return "PK";
+  return spread > 0 ? `+${spread}` : String(spread);
+}
+
+/**
+ * Grades a final score against `team`'s line: it wins by covering, pushes
+ * when the line lands exactly.
+ */
+export function gradeAgainstSpread(
+  teamScore: number,
+  opponentScore: number,
+  spread: number
+): PickResult {
+  const margin = teamScore + spread - opponentScore;
+  if (margin > 0) return "win";
+  if (margin < 0) return "loss";
+  return "push";
+}
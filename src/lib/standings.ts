@@ -0,0 +1,204 @@
+import { pointsFor, type LeagueRules, type PickResult } from "@/src/lib/rules";
+import { breakTies, type TiebreakData } from "@/src/lib/tiebreakers";
+
+export type StandingsMember = {
+  user_id: string;
+  display_name: string | null;
+};
+
+export type GradedPick = {
+  user_id: string;
+  result: PickResult;
+  /** Confidence value in confidence leagues */
+  slot?: number;
+  /** Points stored by grade-week, when available */
+  points?: number | null;
+};
+
+/**
+ * Points for a pick_results row: what grade-week stored, else from the rules.
+ */
+export function pickPoints(rules: LeagueRules, r: GradedPick) {
+  return r.points != null
+    ? Number(r.points)
+    : pointsFor(rules, r.result, r.slot);
+}
+
+export type StandingsRow = {
+  user_id: string;
+  name: string;
+  wins: number;
+  losses: number;
+  pushes: number;
+  pending: number;
+  points: number;
+  /** Tiebreaker that placed a row level with others, e.g. "Upset wins: 3" */
+  tiebreak?: string | null;
+};
+
+/**
+ * Season standings from pick_results rows. Every member gets a row, even
+ * with no results yet. Sorted by points, then wins desc, losses asc; rows
+ * still level go through the league's tiebreakers (when `tiebreakData` is
+ * given), then pending asc.
+ */
+export function computeStandings(
+  members: StandingsMember[],
+  results: GradedPick[],
+  rules: LeagueRules,
+  tiebreakData?: TiebreakData
+): StandingsRow[] {
+  const nameByUser = new Map<string, string>();
+  members.forEach((m) => nameByUser.set(m.user_id, m.display_name || "Member"));
+
+  const agg = new Map<string, StandingsRow>();
+  const rowFor = (user_id: string) => {
+    let cur = agg.get(user_id);
+    if (!cur) {
+      cur = {
+        user_id,
+        name: nameByUser.get(user_id) || "Member",
+        wins: 0,
+        losses: 0,
+        pushes: 0,
+        pending: 0,
+        points: 0,
+      };
+      agg.set(user_id, cur);
+    }
+    return cur;
+  };
+
+  members.forEach((m) => rowFor(m.user_id));
+
+  results.forEach((r) => {
+    const cur = rowFor(r.user_id);
+    if (r.result === "win") cur.wins += 1;
+    else if (r.result === "loss") cur.losses += 1;
+    else if (r.result === "push") cur.pushes += 1;
+    else cur.pending += 1;
+    cur.points += pickPoints(rules, r);
+  });
+
+  const out = [...agg.values()];
+
+  out.sort((a, b) => {
+    if (b.points !== a.points) return b.points - a.points;
+    if (b.wins !== a.wins) return b.wins - a.wins;
+    if (a.losses !== b.losses) return a.losses - b.losses;
+    return a.pending - b.pending;
+  });
+
+  if (!tiebreakData || rules.tiebreakers.length === 0) return out;
+
+  const level = (a: StandingsRow, b: StandingsRow) =>
+    a.points === b.points && a.wins === b.wins && a.losses === b.losses;
+
+  const broken: StandingsRow[] = [];
+  for (let i = 0; i < out.length; ) {
+    let j = i + 1;
+    while (j < out.length && level(out[i], out[j])) j++;
+
+    const group = out.slice(i, j);
+    if (group.length === 1) {
+      broken.push({ ...group[0], tiebreak: null });
+    } else {
+      const { ordered, applied } = breakTies(group, rules, tiebreakData);
+      ordered.forEach((r) =>
+        broken.push({ ...r, tiebreak: applied.get(r.user_id) ?? null })
+      );
+    }
+    i = j;
+  }
+
+  return broken;
+}
+
+export type WeeklyGradedPick = GradedPick & {
+  week_number: number;
+  slot: number;
+  team_abbr: string;
+};
+
+export type ByeWeek = { user_id: string; week_number: number };
+
+export type WeekCell = {
+  week_number: number;
+  picks: {
+    slot: number;
+    team_abbr: string;
+    result: PickResult;
+    points: number;
+  }[];
+  bye: boolean;
+  wins: number;
+  losses: number;
+  pushes: number;
+  points: number;
+  /** Season points through the end of this week */
+  cumulative: number;
+};
+
+export type GridRow = {
+  user_id: string;
+  name: string;
+  cells: WeekCell[];
+  total: StandingsRow;
+};
+
+/**
+ * Week-by-week standings: one cell per member per week with that week's
+ * picks, results and bye, plus a running points total. Rows come out in
+ * the same order as computeStandings.
+ */
+export function computeWeeklyGrid(
+  members: StandingsMember[],
+  results: WeeklyGradedPick[],
+  byes: ByeWeek[],
+  rules: LeagueRules,
+  weeks: number[],
+  tiebreakData?: TiebreakData
+): GridRow[] {
+  const totals = computeStandings(members, results, rules, tiebreakData);
+
+  const key = (user_id: string, week: number) => `${user_id}:${week}`;
+  const resultsByKey = new Map<string, WeeklyGradedPick[]>();
+  results.forEach((r) => {
+    const k = key(r.user_id, r.week_number);
+    resultsByKey.set(k, [...(resultsByKey.get(k) ?? []), r]);
+  });
+  const byeKeys = new Set(byes.map((b) => key(b.user_id, b.week_number)));
+
+  return totals.map((total) => {
+    let cumulative = 0;
+
+    const cells = weeks.map((week_number) => {
+      const picks = (resultsByKey.get(key(total.user_id, week_number)) ?? [])
+        .slice()
+        .sort((a, b) => a.slot - b.slot)
+        .map((r) => ({
+          slot: r.slot,
+          team_abbr: r.team_abbr,
+          result: r.result,
+          points: pickPoints(rules, r),
+        }));
+
+      const cell: WeekCell = {
+        week_number,
+        picks,
+        bye: byeKeys.has(key(total.user_id, week_number)),
+        wins: picks.filter((p) => p.result === "win").length,
+        losses: picks.filter((p) => p.result === "loss").length,
+        pushes: picks.filter((p) => p.result === "push").length,
+        points: picks.reduce((sum, p) => sum + p.points, 0),
+        cumulative: 0,
+      };
+
+      cumulative += cell.points;
+      cell.cumulative = cumulative;
+      return cell;
+    });
+
+    return { user_id: total.user_id, name: total.name, cells, total };
+  });
+}
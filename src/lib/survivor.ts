@@ -0,0 +1,178 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LeagueRules, PickResult } from "@/src/lib/rules";
+
+/**
+ * Survivor mode (rules.survivor): a member is out once they reach
+ * `rules.survivor.lives` losses. A required pick that wasn't made (no bye)
+ * counts as a loss once the week has fully revealed, but only from the week
+ * the member joined: weeks that revealed before league_members.joined_at
+ * aren't held against them. The pool is won when
+ * one member is left; if everyone left goes out in the same week, they
+ * share it.
+ */
+
+export type SurvivorWeek = {
+  week_number: number;
+  picks_required: number;
+  reveal_time: string;
+};
+
+export type SurvivorInputs = {
+  weeks: SurvivorWeek[];
+  /** Picks made, one row per pick (from picks) */
+  picks: { user_id: string; week_number: number }[];
+  /** Graded picks (from pick_results) */
+  results: { user_id: string; week_number: number; result: PickResult }[];
+  byes: { user_id: string; week_number: number }[];
+  /** When each member joined; null = from the start */
+  members: { user_id: string; joined_at: string | null }[];
+};
+
+export type SurvivorStatus = {
+  user_id: string;
+  losses: number;
+  /** Of which missed picks */
+  missed: number;
+  lives_left: number;
+  /** Week the member went out, or null while alive */
+  eliminated_week: number | null;
+};
+
+export type SurvivorSummary = {
+  statuses: Map<string, SurvivorStatus>;
+  alive: string[];
+  /** Set once the pool is decided */
+  winners: string[];
+};
+
+export function survivorStatus(
+  user_id: string,
+  inputs: SurvivorInputs,
+  rules: LeagueRules,
+  now = Date.now()
+): SurvivorStatus {
+  const lives = rules.survivor.lives;
+  let losses = 0;
+  let missed = 0;
+  let eliminated_week: number | null = null;
+
+  const joinedAt = inputs.members.find((m) => m.user_id === user_id)?.joined_at;
+  const joined = joinedAt ? new Date(joinedAt).getTime() : null;
+
+  const weeks = inputs.weeks
+    .slice()
+    .sort((a, b) => a.week_number - b.week_number);
+
+  for (const w of weeks) {
+    const lost = inputs.results.filter(
+      (r) =>
+        r.user_id === user_id &&
+        r.week_number === w.week_number &&
+        r.result === "loss"
+    ).length;
+
+    let missedThisWeek = 0;
+    const reveal = new Date(w.reveal_time).getTime();
+    const revealed = reveal <= now;
+    const joinedBefore = joined === null || joined < reveal;
+    const tookBye = inputs.byes.some(
+      (b) => b.user_id === user_id && b.week_number === w.week_number
+    );
+    if (revealed && joinedBefore && !tookBye) {
+      const made = inputs.picks.filter(
+        (p) => p.user_id === user_id && p.week_number === w.week_number
+      ).length;
+      missedThisWeek = Math.max(0, w.picks_required - made);
+    }
+
+    losses += lost + missedThisWeek;
+    missed += missedThisWeek;
+
+    if (eliminated_week === null && losses >= lives) {
+      eliminated_week = w.week_number;
+    }
+  }
+
+  return {
+    user_id,
+    losses,
+    missed,
+    lives_left: Math.max(0, lives - losses),
+    eliminated_week,
+  };
+}
+
+export function computeSurvivor(
+  members: { user_id: string }[],
+  inputs: SurvivorInputs,
+  rules: LeagueRules,
+  now = Date.now()
+): SurvivorSummary {
+  const statuses = new Map<string, SurvivorStatus>();
+  for (const m of members) {
+    statuses.set(m.user_id, survivorStatus(m.user_id, inputs, rules, now));
+  }
+
+  const all = [...statuses.values()];
+  const alive = all
+    .filter((s) => s.eliminated_week === null)
+    .map((s) => s.user_id);
+
+  let winners: string[] = [];
+  if (all.length > 1 && alive.length === 1) {
+    winners = alive;
+  } else if (all.length > 1 && alive.length === 0) {
+    const last = Math.max(...all.map((s) => s.eliminated_week ?? 0));
+    winners = all
+      .filter((s) => s.eliminated_week === last)
+      .map((s) => s.user_id);
+  }
+
+  return { statuses, alive, winners };
+}
+
+/**
+ * Loads a season's survivor inputs. Works with the browser client (RLS
+ * shows what's revealed) and the service-role client alike.
+ */
+export async function fetchSurvivorInputs(
+  client: SupabaseClient,
+  league_id: string,
+  season_year: number,
+  user_id?: string
+): Promise<SurvivorInputs> {
+  const scope = { league_id, season_year };
+  const mine = user_id ? { ...scope, user_id } : scope;
+
+  const [weeksRes, picksRes, resultsRes, byesRes, membersRes] =
+    await Promise.all([
+      client
+        .from("weeks")
+        .select("week_number,picks_required,reveal_time")
+        .match(scope),
+      client.from("picks").select("user_id,week_number").match(mine),
+      client
+        .from("pick_results")
+        .select("user_id,week_number,result")
+        .match(mine),
+      client.from("byes").select("user_id,week_number").match(mine),
+      client
+        .from("league_members")
+        .select("user_id,joined_at")
+        .match(user_id ? { league_id, user_id } : { league_id }),
+    ]);
+
+  if (weeksRes.error) throw weeksRes.error;
+  if (picksRes.error) throw picksRes.error;
+  if (resultsRes.error) throw resultsRes.error;
+  if (byesRes.error) throw byesRes.error;
+  if (membersRes.error) throw membersRes.error;
+
+  return {
+    weeks: (weeksRes.data ?? []) as SurvivorWeek[],
+    picks: (picksRes.data ?? []) as SurvivorInputs["picks"],
+    results: (resultsRes.data ?? []) as SurvivorInputs["results"],
+    byes: (byesRes.data ?? []) as SurvivorInputs["byes"],
+    members: (membersRes.data ?? []) as SurvivorInputs["members"],
+  };
+}
@@ -0,0 +1,95 @@
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import type { ScoreProvider } from "@/src/lib/providers";
+import { providerWeek } from "@/src/lib/season";
+
+export type SyncGamesResult =
+  | { ok: true; provider: string; upserted: number }
+  | {
+      ok: false;
+      provider: string;
+      code: "fetch_failed" | "no_events";
+      reason: string;
+      provider_status?: number | null;
+      provider_error?: string;
+      upserted: 0;
+    };
+
+/**
+ * Pulls a week's games from the league's score provider and upserts them
+ * into `games`. `week_number` is ours (postseason rounds are weeks 19–22);
+ * the provider is asked for its own season type/week. Provider trouble comes
+ * back as ok:false (retry later) rather than throwing; DB errors throw.
+ */
+export async function syncGames(args: {
+  league_id: string;
+  season_year: number;
+  week_number: number;
+  provider: ScoreProvider;
+}): Promise<SyncGamesResult> {
+  const { provider } = args;
+
+  const res = await provider.fetchScores({
+    season_year: args.season_year,
+    ...providerWeek(args.week_number),
+  });
+
+  if (!res.ok) {
+    return {
+      ok: false,
+      provider: provider.name,
+      code: "fetch_failed",
+      reason: `${provider.name} fetch failed; will retry later`,
+      provider_status: res.status,
+      provider_error: res.error,
+      upserted: 0,
+    };
+  }
+
+  if (res.games.length === 0) {
+    return {
+      ok: false,
+      provider: provider.name,
+      code: "no_events",
+      reason: `${provider.name} returned 0 events; will retry later`,
+      upserted: 0,
+    };
+  }
+
+  // Results a commissioner set by hand win over the provider
+  const { data: overridden, error: ovErr } = await supabaseAdmin
+    .from("games")
+    .select("game_id")
+    .eq("league_id", args.league_id)
+    .eq("season_year", args.season_year)
+    .eq("result_override", true);
+
+  if (ovErr) throw ovErr;
+
+  const skip = new Set((overridden ?? []).map((g: any) => String(g.game_id)));
+
+  // Shown as "last synced" on the matchups page
+  const synced_at = new Date().toISOString();
+
+  const rows = res.games
+    .filter((g) => !skip.has(g.game_id))
+    .map((g) => ({
+      league_id: args.league_id,
+      season_year: args.season_year,
+      week_number: args.week_number,
+      provider: provider.name,
+      synced_at,
+      ...g,
+    }));
+
+  if (rows.length === 0) {
+    return { ok: true, provider: provider.name, upserted: 0 };
+  }
+
+  const { error: upErr } = await supabaseAdmin
+    .from("games")
+    .upsert(rows, { onConflict: "league_id,season_year,game_id" });
+
+  if (upErr) throw upErr;
+
+  return { ok: true, provider: provider.name, upserted: rows.length };
+}
@@ -0,0 +1,64 @@
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import { weekLockIso } from "@/src/lib/locks";
+import { picksRequiredFor, type LeagueRules } from "@/src/lib/rules";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Upserts the `weeks` row for a league/week from the synced games: picks
+ * required from the league rules, lock/reveal at the last kickoff. Returns
+ * ok:false (retry later) when the week has no games yet, unless
+ * allow_fallback_lock asks for a lock 24h from now instead.
+ */
+export async function syncWeekConfig(args: {
+  league_id: string;
+  season_year: number;
+  week_number: number;
+  rules: LeagueRules;
+  allow_fallback_lock?: boolean;
+}) {
+  const picks_required = picksRequiredFor(args.rules, args.week_number);
+
+  const { data: games, error: gamesErr } = await supabaseAdmin
+    .from("games")
+    .select("kickoff_time")
+    .eq("league_id", args.league_id)
+    .eq("season_year", args.season_year)
+    .eq("week_number", args.week_number);
+
+  if (gamesErr) throw gamesErr;
+
+  if (!games?.length && !args.allow_fallback_lock) {
+    return {
+      ok: false as const,
+      reason: "No games found in DB for league/week; will retry later",
+    };
+  }
+
+  // Picks lock per game; the week locks (and fully reveals) at the last kickoff
+  const lockIso =
+    weekLockIso(games ?? []) ?? new Date(Date.now() + DAY_MS).toISOString();
+  const revealIso = lockIso;
+
+  const { error: weekErr } = await supabaseAdmin.from("weeks").upsert(
+    {
+      league_id: args.league_id,
+      season_year: args.season_year,
+      week_number: args.week_number,
+      picks_required,
+      lock_time: lockIso,
+      reveal_time: revealIso,
+    },
+    { onConflict: "league_id,season_year,week_number" }
+  );
+
+  if (weekErr) throw weekErr;
+
+  return {
+    ok: true as const,
+    fallback_lock: !games?.length,
+    picks_required,
+    lock_time: lockIso,
+    reveal_time: revealIso,
+  };
+}
@@ -0,0 +1,251 @@
+import {
+  pointsFor,
+  tiebreakerLabel,
+  type LeagueRules,
+  type PickResult,
+  type Tiebreaker,
+} from "@/src/lib/rules";
+
+/**
+ * Standings tiebreakers (rules.tiebreakers), computed from pick_results and
+ * games. Each tiebreaker is applied only to members still level after the
+ * ones before it; head-to-head is recomputed within each remaining group.
+ */
+
+export type TiebreakPick = {
+  user_id: string;
+  week_number: number;
+  team_abbr: string;
+  result: PickResult;
+  slot?: number;
+};
+
+export type TiebreakGame = {
+  week_number: number;
+  status: string;
+  home_abbr: string;
+  away_abbr: string;
+  home_score: number | null;
+  away_score: number | null;
+  winner_abbr: string | null;
+};
+
+export type TiebreakData = {
+  results: TiebreakPick[];
+  games: TiebreakGame[];
+};
+
+type Metric = {
+  /** Higher sorts first; "fewest" metrics are negated */
+  value: (user_id: string) => number;
+  display: (user_id: string) => string;
+};
+
+const weekTeam = (week: number, team: string) => `${week}:${team}`;
+
+function signed(n: number) {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+function isGraded(r: TiebreakPick) {
+  return r.result !== "pending";
+}
+
+function finalScores(data: TiebreakData) {
+  const byWeekTeam = new Map<string, { mine: number; theirs: number }>();
+  for (const g of data.games) {
+    if (g.status !== "final" || g.home_score == null || g.away_score == null) {
+      continue;
+    }
+    const home = Number(g.home_score);
+    const away = Number(g.away_score);
+    byWeekTeam.set(weekTeam(g.week_number, g.home_abbr), {
+      mine: home,
+      theirs: away,
+    });
+    byWeekTeam.set(weekTeam(g.week_number, g.away_abbr), {
+      mine: away,
+      theirs: home,
+    });
+  }
+  return byWeekTeam;
+}
+
+/**
+ * Winners who went into their game with the worse record (win % over the
+ * earlier weeks; a team with no games yet counts as .500).
+ */
+function upsetWinners(data: TiebreakData) {
+  const record = new Map<string, { w: number; g: number }>();
+  const pct = (team: string) => {
+    const r = record.get(team);
+    return r && r.g > 0 ? r.w / r.g : 0.5;
+  };
+
+  const weeks = [...new Set(data.games.map((g) => g.week_number))].sort(
+    (a, b) => a - b
+  );
+  const upsets = new Set<string>();
+
+  for (const week of weeks) {
+    const finals = data.games.filter(
+      (g) => g.week_number === week && g.status === "final"
+    );
+
+    for (const g of finals) {
+      if (!g.winner_abbr) continue;
+      const loser = g.winner_abbr === g.home_abbr ? g.away_abbr : g.home_abbr;
+      if (pct(g.winner_abbr) < pct(loser)) {
+        upsets.add(weekTeam(week, g.winner_abbr));
+      }
+    }
+
+    for (const g of finals) {
+      for (const team of [g.home_abbr, g.away_abbr]) {
+        const r = record.get(team) ?? { w: 0, g: 0 };
+        r.g += 1;
+        if (!g.winner_abbr) r.w += 0.5;
+        else if (g.winner_abbr === team) r.w += 1;
+        record.set(team, r);
+      }
+    }
+  }
+
+  return upsets;
+}
+
+function metricFor(
+  tb: Tiebreaker,
+  group: string[],
+  data: TiebreakData,
+  rules: LeagueRules
+): Metric {
+  const graded = data.results.filter(isGraded);
+  const mine = (user_id: string) => graded.filter((r) => r.user_id === user_id);
+
+  if (tb.type === "margin") {
+    const scores = finalScores(data);
+    const margin = (user_id: string) =>
+      mine(user_id).reduce((sum, r) => {
+        const s = scores.get(weekTeam(r.week_number, r.team_abbr));
+        return s ? sum + (s.mine - s.theirs) : sum;
+      }, 0);
+    return { value: margin, display: (u) => signed(margin(u)) };
+  }
+
+  if (tb.type === "recent_losses") {
+    const weeks = [...new Set(graded.map((r) => r.week_number))]
+      .sort((a, b) => a - b)
+      .slice(-tb.weeks);
+    const losses = (user_id: string) =>
+      mine(user_id).filter(
+        (r) => r.result === "loss" && weeks.includes(r.week_number)
+      ).length;
+    return { value: (u) => -losses(u), display: (u) => String(losses(u)) };
+  }
+
+  if (tb.type === "upsets") {
+    const upsets = upsetWinners(data);
+    const count = (user_id: string) =>
+      mine(user_id).filter(
+        (r) =>
+          r.result === "win" && upsets.has(weekTeam(r.week_number, r.team_abbr))
+      ).length;
+    return { value: count, display: (u) => String(count(u)) };
+  }
+
+  // head_to_head: compare weekly points against every other tied member
+  const weekPoints = new Map<string, Map<number, number>>();
+  for (const r of graded) {
+    const weeks = weekPoints.get(r.user_id) ?? new Map<number, number>();
+    weeks.set(
+      r.week_number,
+      (weeks.get(r.week_number) ?? 0) + pointsFor(rules, r.result, r.slot)
+    );
+    weekPoints.set(r.user_id, weeks);
+  }
+
+  const h2h = (user_id: string) => {
+    let w = 0;
+    let l = 0;
+    const own = weekPoints.get(user_id) ?? new Map<number, number>();
+    for (const other of group) {
+      if (other === user_id) continue;
+      const theirs = weekPoints.get(other) ?? new Map<number, number>();
+      for (const [week, pts] of own) {
+        if (!theirs.has(week)) continue;
+        if (pts > theirs.get(week)!) w += 1;
+        else if (pts < theirs.get(week)!) l += 1;
+      }
+    }
+    return { w, l };
+  };
+
+  return {
+    value: (u) => {
+      const { w, l } = h2h(u);
+      return w - l;
+    },
+    display: (u) => {
+      const { w, l } = h2h(u);
+      return `${w}-${l}`;
+    },
+  };
+}
+
+/**
+ * Orders a group of members who are level on points, wins and losses.
+ * Returns the new order and, per member, the tiebreaker that placed them
+ * (e.g. "Margin of victory: +34"), or "Tied" when the chain runs out.
+ * Members the chain can't separate keep their incoming order.
+ */
+export function breakTies<T extends { user_id: string }>(
+  group: T[],
+  rules: LeagueRules,
+  data: TiebreakData
+): { ordered: T[]; applied: Map<string, string> } {
+  const applied = new Map<string, string>();
+
+  function resolve(rows: T[], depth: number): T[] {
+    if (rows.length < 2) return rows;
+
+    const tb = rules.tiebreakers[depth];
+    if (!tb) {
+      rows.forEach((r) => applied.set(r.user_id, "Tied"));
+      return rows;
+    }
+
+    const metric = metricFor(
+      tb,
+      rows.map((r) => r.user_id),
+      data,
+      rules
+    );
+    const value = new Map(rows.map((r) => [r.user_id, metric.value(r.user_id)]));
+    const sorted = rows
+      .slice()
+      .sort((a, b) => value.get(b.user_id)! - value.get(a.user_id)!);
+
+    // Split into runs of equal value
+    const runs: T[][] = [];
+    for (const r of sorted) {
+      const last = runs[runs.length - 1];
+      if (last && value.get(last[0].user_id) === value.get(r.user_id)) {
+        last.push(r);
+      } else {
+        runs.push([r]);
+      }
+    }
+
+    if (runs.length > 1) {
+      const label = tiebreakerLabel(tb);
+      rows.forEach((r) =>
+        applied.set(r.user_id, `${label}: ${metric.display(r.user_id)}`)
+      );
+    }
+
+    return runs.flatMap((run) => resolve(run, depth + 1));
+  }
+
+  return { ordered: resolve(group, 0), applied };
+}
@@ -12,21 +12,38 @@ type RequireAuthOptions = {
    */
   requireMembership?: boolean;
 
+  /**
+   * When set, membership is checked for this league specifically instead of
+   * "any league"
+   */
+  leagueId?: string;
+
   /**
    * Routes that should NOT enforce membership (avoid redirect loops)
    */
   membershipBypassPaths?: readonly string[];
+
+  /**
+   * If true (with leagueId), the user must be a commissioner of that league;
+   * everyone else is sent back to the league's picks page
+   */
+  requireCommissioner?: boolean;
 };
 
+export type MemberRole = "member" | "commissioner";
+
 export function useRequireAuth(options: RequireAuthOptions = {}) {
   const router = useRouter();
   const pathname = usePathname();
 
   const requireMembership = options.requireMembership ?? true;
+  const leagueId = options.leagueId;
+  const requireCommissioner = options.requireCommissioner ?? false;
   const membershipBypassPaths =
     options.membershipBypassPaths ?? DEFAULT_BYPASS_PATHS;
 
   const [userId, setUserId] = useState<string | null>(null);
+  const [role, setRole] = useState<MemberRole | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -56,10 +73,14 @@ export function useRequireAuth(options: RequireAuthOptions = {}) {
       );
 
       if (requireMembership && !bypass) {
-        const { data: memberRow, error: memberErr } = await supabase
+        let memberQuery = supabase
           .from("league_members")
-          .select("league_id")
-          .eq("user_id", uid)
+          .select("league_id,role")
+          .eq("user_id", uid);
+
+        if (leagueId) memberQuery = memberQuery.eq("league_id", leagueId);
+
+        const { data: memberRow, error: memberErr } = await memberQuery
           .limit(1)
           .maybeSingle();
 
@@ -77,6 +98,18 @@ export function useRequireAuth(options: RequireAuthOptions = {}) {
           setLoading(false);
           return;
         }
+
+        const memberRole: MemberRole =
+          leagueId && memberRow.role === "commissioner"
+            ? "commissioner"
+            : "member";
+        setRole(memberRole);
+
+        if (requireCommissioner && memberRole !== "commissioner") {
+          router.replace(leagueId ? `/l/${leagueId}/picks` : "/");
+          setLoading(false);
+          return;
+        }
       }
 
       setLoading(false);
@@ -87,7 +120,14 @@ export function useRequireAuth(options: RequireAuthOptions = {}) {
     return () => {
       cancelled = true;
     };
-  }, [router, pathname, requireMembership, membershipBypassPaths]);
-
-  return { userId, loading };
+  }, [
+    router,
+    pathname,
+    requireMembership,
+    membershipBypassPaths,
+    leagueId,
+    requireCommissioner,
+  ]);
+
+  return { userId, role, loading };
 }
@@ -0,0 +1,242 @@
+import { createHmac } from "node:crypto";
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import type { WebhookEvent, WebhookFormat } from "@/src/lib/webhooks/types";
+
+/**
+ * Outgoing webhooks. An event is queued as one webhook_deliveries row per
+ * subscribed destination, delivered straight away, and retried with backoff
+ * (by /api/dispatch-webhooks) until it succeeds or runs out of attempts.
+ */
+
+export type DeliveryResult = {
+  queued: number;
+  delivered: number;
+  failed: number;
+};
+
+/** Minutes to wait before each retry; the last failure gives up */
+const RETRY_MINUTES = [1, 5, 30, 120];
+const MAX_ATTEMPTS = RETRY_MINUTES.length + 1;
+const TIMEOUT_MS = 10_000;
+/** How long a claimed delivery is ours before another run may take it */
+const LEASE_SECONDS = 120;
+
+// Discord rejects messages over 2000 characters; Slack is more lenient
+const MAX_CHAT_CHARS = 1900;
+
+function chatText(event: WebhookEvent, bold: (s: string) => string) {
+  let text = [bold(event.title), ...event.lines].join("\n");
+  if (text.length > MAX_CHAT_CHARS) {
+    text = `${text.slice(0, MAX_CHAT_CHARS)}\n…`;
+  }
+  return text;
+}
+
+/**
+ * Signature for the generic JSON format: hex HMAC-SHA256 of
+ * `${timestamp}.${body}` with the destination's secret. Receivers should
+ * recompute it and reject stale timestamps.
+ */
+export function signWebhookBody(
+  secret: string,
+  timestamp: string,
+  body: string
+) {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+function buildRequest(
+  hook: { format: WebhookFormat; secret: string | null },
+  event: WebhookEvent,
+  delivery_id: number
+) {
+  const headers: Record<string, string> = {
+    "content-type": "application/json",
+  };
+
+  if (hook.format === "discord") {
+    const body = JSON.stringify({
+      username: "Pick’em",
+      content: chatText(event, (s) => `**${s}**`),
+    });
+    return { headers, body };
+  }
+
+  if (hook.format === "slack") {
+    const body = JSON.stringify({ text: chatText(event, (s) => `*${s}*`) });
+    return { headers, body };
+  }
+
+  const body = JSON.stringify({
+    id: delivery_id,
+    event: event.type,
+    league: event.league,
+    season_year: event.season_year,
+    week_number: event.week_number,
+    title: event.title,
+    data: event.data,
+  });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  headers["x-pickem-event"] = event.type;
+  headers["x-pickem-delivery"] = String(delivery_id);
+  headers["x-pickem-timestamp"] = timestamp;
+  if (hook.secret) {
+    headers["x-pickem-signature"] = `sha256=${signWebhookBody(
+      hook.secret,
+      timestamp,
+      body
+    )}`;
+  }
+
+  return { headers, body };
+}
+
+async function attempt(d: any, hook: any): Promise<boolean> {
+  const attempts = d.attempts + 1;
+
+  let last_status: number | null = null;
+  let last_error: string | null = null;
+
+  try {
+    const { headers, body } = buildRequest(hook, d.payload, d.id);
+    const res = await fetch(hook.url, {
+      method: "POST",
+      headers,
+      body,
+      cache: "no-store",
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    last_status = res.status;
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      last_error = text.slice(0, 500) || res.statusText || "HTTP error";
+    }
+  } catch (e: any) {
+    last_error = e?.message ?? String(e);
+  }
+
+  const ok = last_error === null;
+  const update = ok
+    ? {
+        status: "delivered",
+        claimed_until: null,
+        attempts,
+        last_status,
+        last_error: null,
+        delivered_at: new Date().toISOString(),
+      }
+    : {
+        status: attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+        claimed_until: null,
+        attempts,
+        last_status,
+        last_error,
+        next_attempt_at: new Date(
+          Date.now() + (RETRY_MINUTES[attempts - 1] ?? 0) * 60_000
+        ).toISOString(),
+      };
+
+  const { error } = await supabaseAdmin
+    .from("webhook_deliveries")
+    .update(update)
+    .eq("id", d.id)
+    .eq("status", "sending");
+
+  if (error) throw error;
+  return ok;
+}
+
+/**
+ * Attempts every pending delivery that is due: for one league, or just the
+ * given delivery ids. Deliveries are claimed first (claim_webhook_deliveries
+ * RPC), so overlapping runs never send the same one twice. Disabled
+ * destinations are left queued.
+ */
+export async function deliverPending(args: {
+  league_id?: string;
+  ids?: number[];
+}): Promise<DeliveryResult> {
+  const { data: claimed, error } = await supabaseAdmin.rpc(
+    "claim_webhook_deliveries",
+    {
+      p_league_id: args.league_id ?? null,
+      p_ids: args.ids ?? null,
+      p_lease_seconds: LEASE_SECONDS,
+    }
+  );
+  if (error) throw error;
+
+  const result: DeliveryResult = { queued: 0, delivered: 0, failed: 0 };
+
+  const deliveries = (claimed ?? []) as any[];
+  if (deliveries.length === 0) return result;
+
+  const { data: hooks, error: hooksErr } = await supabaseAdmin
+    .from("webhooks")
+    .select("id,url,format,secret")
+    .in("id", [...new Set(deliveries.map((d) => d.webhook_id))]);
+  if (hooksErr) throw hooksErr;
+
+  const hookById = new Map((hooks ?? []).map((h: any) => [h.id, h]));
+
+  for (const d of deliveries.sort((a, b) => a.id - b.id)) {
+    if (await attempt(d, hookById.get(d.webhook_id))) result.delivered++;
+    else result.failed++;
+  }
+
+  return result;
+}
+
+/**
+ * Queues `event` for every enabled destination of its league subscribed to
+ * it (created by `occurred_at`, so a new destination doesn't get a backlog),
+ * then tries to deliver right away. Re-emitting the same event key is a
+ * no-op per destination.
+ */
+export async function emitLeagueEvent(
+  event: WebhookEvent,
+  opts: { occurred_at?: string; webhook_id?: string } = {}
+): Promise<DeliveryResult> {
+  let q = supabaseAdmin
+    .from("webhooks")
+    .select("id")
+    .eq("league_id", event.league.id)
+    .eq("enabled", true)
+    .lte("created_at", opts.occurred_at ?? new Date().toISOString());
+
+  q = opts.webhook_id
+    ? q.eq("id", opts.webhook_id)
+    : q.contains("events", [event.type]);
+
+  const { data: hooks, error: hooksErr } = await q;
+  if (hooksErr) throw hooksErr;
+
+  if (!hooks || hooks.length === 0) {
+    return { queued: 0, delivered: 0, failed: 0 };
+  }
+
+  const { data: queued, error: queueErr } = await supabaseAdmin
+    .from("webhook_deliveries")
+    .upsert(
+      hooks.map((h: any) => ({
+        webhook_id: h.id,
+        league_id: event.league.id,
+        event: event.type,
+        event_key: event.key,
+        payload: event,
+      })),
+      { onConflict: "webhook_id,event_key", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (queueErr) throw queueErr;
+
+  const ids = (queued ?? []).map((d: any) => d.id as number);
+  if (ids.length === 0) return { queued: 0, delivered: 0, failed: 0 };
+
+  const sent = await deliverPending({ ids });
+  return { ...sent, queued: ids.length };
+}
@@ -0,0 +1,243 @@
+import { supabaseAdmin } from "@/src/lib/supabaseAdmin";
+import { normalizeRules, type LeagueRules } from "@/src/lib/rules";
+import { weekLabel } from "@/src/lib/season";
+import { computeStandings } from "@/src/lib/standings";
+import type { WebhookEvent } from "@/src/lib/webhooks/types";
+
+/**
+ * Builds the webhook events for a league's week from the database.
+ */
+
+export type EventLeague = {
+  id: string;
+  name: string;
+  season_year: number;
+  timezone: string | null;
+  rules: LeagueRules;
+};
+
+export async function fetchEventLeague(
+  league_id: string
+): Promise<EventLeague & { current_week: number }> {
+  const { data, error } = await supabaseAdmin
+    .from("leagues")
+    .select("id,name,season_year,current_week,timezone,rules")
+    .eq("id", league_id)
+    .single();
+
+  if (error) throw error;
+  return { ...data, rules: normalizeRules(data.rules) } as EventLeague & {
+    current_week: number;
+  };
+}
+
+function fmtIn(league: EventLeague, iso: string) {
+  return new Date(iso).toLocaleString("en-US", {
+    timeZone: league.timezone || undefined,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
+
+function baseEvent(
+  league: EventLeague,
+  type: WebhookEvent["type"],
+  week_number: number
+) {
+  return {
+    type,
+    key: `${type}:${league.season_year}:${week_number}`,
+    league: { id: league.id, name: league.name },
+    season_year: league.season_year,
+    week_number,
+  };
+}
+
+async function fetchMembers(league_id: string) {
+  const { data, error } = await supabaseAdmin
+    .from("league_members")
+    .select("user_id,display_name")
+    .eq("league_id", league_id)
+    .order("display_name", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as { user_id: string; display_name: string | null }[];
+}
+
+/**
+ * Everyone's picks (or bye) for a week that has fully revealed.
+ */
+export async function weekRevealedEvent(
+  league: EventLeague,
+  week_number: number
+): Promise<WebhookEvent> {
+  const members = await fetchMembers(league.id);
+
+  const { data: picks, error: picksErr } = await supabaseAdmin
+    .from("picks")
+    .select("user_id,slot,team_abbr")
+    .eq("league_id", league.id)
+    .eq("season_year", league.season_year)
+    .eq("week_number", week_number);
+
+  if (picksErr) throw picksErr;
+
+  const { data: byes, error: byesErr } = await supabaseAdmin
+    .from("byes")
+    .select("user_id")
+    .eq("league_id", league.id)
+    .eq("season_year", league.season_year)
+    .eq("week_number", week_number);
+
+  if (byesErr) throw byesErr;
+
+  const confidence = league.rules.pick_mode === "confidence";
+  const byeUsers = new Set((byes ?? []).map((b: any) => b.user_id));
+
+  const rows = members.map((m) => {
+    const mine = (picks ?? [])
+      .filter((p: any) => p.user_id === m.user_id)
+      // Confidence leagues list the surest pick first
+      .sort((a: any, b: any) =>
+        confidence ? b.slot - a.slot : a.slot - b.slot
+      )
+      .map((p: any) => ({ slot: p.slot as number, team_abbr: p.team_abbr }));
+
+    return {
+      name: m.display_name || "Member",
+      bye: byeUsers.has(m.user_id),
+      picks: mine,
+    };
+  });
+
+  return {
+    ...baseEvent(league, "week_revealed", week_number),
+    title: `${league.name} — ${weekLabel(week_number)} picks are in`,
+    lines: rows.map((r) => {
+      const picked = r.picks
+        .map((p) => (confidence ? `${p.team_abbr} ${p.slot}` : p.team_abbr))
+        .join(", ");
+      return `${r.name}: ${r.bye ? "BYE" : picked || "no picks"}`;
+    }),
+    data: { members: rows },
+  };
+}
+
+/**
+ * A finished week's results and the season standings after it.
+ */
+export async function weekGradedEvent(
+  league: EventLeague,
+  week_number: number
+): Promise<WebhookEvent> {
+  const members = await fetchMembers(league.id);
+
+  const { data: results, error: resErr } = await supabaseAdmin
+    .from("pick_results")
+    .select("user_id,result,week_number,slot,points")
+    .eq("league_id", league.id)
+    .eq("season_year", league.season_year)
+    .lte("week_number", week_number);
+
+  if (resErr) throw resErr;
+
+  const all = (results ?? []) as any[];
+  const standings = computeStandings(members, all, league.rules);
+  const thisWeek = computeStandings(
+    members,
+    all.filter((r) => r.week_number === week_number),
+    league.rules
+  );
+  const weekOf = new Map(thisWeek.map((r) => [r.user_id, r]));
+
+  const rows = standings.map((r, i) => {
+    const w = weekOf.get(r.user_id)!;
+    return {
+      rank: i + 1,
+      name: r.name,
+      points: r.points,
+      wins: r.wins,
+      losses: r.losses,
+      pushes: r.pushes,
+      week: {
+        points: w.points,
+        wins: w.wins,
+        losses: w.losses,
+        pushes: w.pushes,
+      },
+    };
+  });
+
+  const record = (x: { wins: number; losses: number; pushes: number }) =>
+    `${x.wins}-${x.losses}${x.pushes > 0 ? `-${x.pushes}` : ""}`;
+
+  return {
+    ...baseEvent(league, "week_graded", week_number),
+    title: `${league.name} — ${weekLabel(week_number)} is final`,
+    lines: rows.map(
+      (r) =>
+        `${r.rank}. ${r.name} — ${r.points} pts (${record(r.week)} this week, +${
+          r.week.points
+        })`
+    ),
+    data: { standings: rows },
+  };
+}
+
+/**
+ * The league moved to a new week; picks are open.
+ */
+export async function weekAdvancedEvent(
+  league: EventLeague,
+  from_week: number,
+  to_week: number
+): Promise<WebhookEvent> {
+  const { data: games, error: gamesErr } = await supabaseAdmin
+    .from("games")
+    .select("kickoff_time")
+    .eq("league_id", league.id)
+    .eq("season_year", league.season_year)
+    .eq("week_number", to_week)
+    .order("kickoff_time", { ascending: true });
+
+  if (gamesErr) throw gamesErr;
+
+  const kickoffs = (games ?? []).map((g: any) => g.kickoff_time as string);
+  const first = kickoffs[0] ?? null;
+  const last = kickoffs[kickoffs.length - 1] ?? null;
+
+  const lines = [`${kickoffs.length} games this week.`];
+  if (first && last) {
+    lines.push(
+      `First kickoff ${fmtIn(league, first)}; last ${fmtIn(league, last)}.`
+    );
+  }
+  lines.push("Each pick locks at its game’s kickoff.");
+
+  return {
+    ...baseEvent(league, "week_advanced", to_week),
+    title: `${league.name} — ${weekLabel(to_week)} picks are open`,
+    lines,
+    data: { from_week, to_week, games: kickoffs.length, first, last },
+  };
+}
+
+/**
+ * A one-off message to check a destination is wired up.
+ */
+export function testEvent(
+  league: EventLeague,
+  week_number: number
+): WebhookEvent {
+  return {
+    ...baseEvent(league, "test", week_number),
+    key: `test:${Date.now()}`,
+    title: `${league.name} — webhook test`,
+    lines: ["If you can read this, the webhook works."],
+    data: {},
+  };
+}
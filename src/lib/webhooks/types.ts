@@ -0,0 +1,36 @@
+/**
+ * Webhook shapes shared by the delivery code (deliver.ts) and the admin page.
+ */
+
+export type WebhookFormat = "discord" | "slack" | "json";
+
+export const WEBHOOK_FORMATS: { format: WebhookFormat; label: string }[] = [
+  { format: "discord", label: "Discord" },
+  { format: "slack", label: "Slack" },
+  { format: "json", label: "Generic JSON (signed)" },
+];
+
+export type WebhookEventType =
+  | "week_revealed"
+  | "week_graded"
+  | "week_advanced"
+  | "test";
+
+export const WEBHOOK_EVENTS: { type: WebhookEventType; label: string }[] = [
+  { type: "week_revealed", label: "Week revealed (everyone’s picks)" },
+  { type: "week_graded", label: "Week graded (results & standings)" },
+  { type: "week_advanced", label: "Week advanced (picks open)" },
+];
+
+export type WebhookEvent = {
+  type: WebhookEventType;
+  /** Unique per league and event, e.g. "week_graded:2025:7" */
+  key: string;
+  league: { id: string; name: string };
+  season_year: number;
+  week_number: number;
+  /** Chat formats post the title and lines as a message */
+  title: string;
+  lines: string[];
+  data: Record<string, unknown>;
+};
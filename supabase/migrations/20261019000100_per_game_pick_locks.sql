@@ -0,0 +1,77 @@
+-- Per-game pick locking.
+--
+-- A pick locks (can no longer be created, changed or deleted) and is revealed
+-- to the rest of the league at the kickoff of the game its team plays in.
+-- weeks.lock_time / reveal_time are now the LAST kickoff of the week.
+
+create or replace function public.team_kicked_off(
+  p_league_id uuid,
+  p_season_year int,
+  p_week_number int,
+  p_team_abbr text
+) returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from games g
+    where g.league_id = p_league_id
+      and g.season_year = p_season_year
+      and g.week_number = p_week_number
+      and p_team_abbr in (g.home_abbr, g.away_abbr)
+      and g.kickoff_time <= now()
+  );
+$$;
+
+-- Reveal: league members can see a pick once its team's game has kicked off
+drop policy if exists "picks_select_after_game_kickoff" on public.picks;
+create policy "picks_select_after_game_kickoff"
+  on public.picks
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from league_members m
+      where m.league_id = picks.league_id
+        and m.user_id = auth.uid()
+    )
+    and public.team_kicked_off(league_id, season_year, week_number, team_abbr)
+  );
+
+-- Lock: restrictive, so these apply on top of the existing write policies
+drop policy if exists "picks_insert_before_game_kickoff" on public.picks;
+create policy "picks_insert_before_game_kickoff"
+  on public.picks
+  as restrictive
+  for insert
+  to authenticated
+  with check (
+    not public.team_kicked_off(league_id, season_year, week_number, team_abbr)
+  );
+
+drop policy if exists "picks_update_before_game_kickoff" on public.picks;
+create policy "picks_update_before_game_kickoff"
+  on public.picks
+  as restrictive
+  for update
+  to authenticated
+  using (
+    not public.team_kicked_off(league_id, season_year, week_number, team_abbr)
+  )
+  with check (
+    not public.team_kicked_off(league_id, season_year, week_number, team_abbr)
+  );
+
+drop policy if exists "picks_delete_before_game_kickoff" on public.picks;
+create policy "picks_delete_before_game_kickoff"
+  on public.picks
+  as restrictive
+  for delete
+  to authenticated
+  using (
+    not public.team_kicked_off(league_id, season_year, week_number, team_abbr)
+  );
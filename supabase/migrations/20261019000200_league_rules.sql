@@ -0,0 +1,18 @@
+-- Per-league rules (see src/lib/rules.ts for the shape and defaults).
+--
+-- Missing keys fall back to the app defaults, so '{}' keeps the classic rules:
+-- 2 picks in weeks 1–16, 1 pick in weeks 17–18, each team once a season,
+-- 1 bye in weeks 1–16, 1 point per win.
+--
+-- Example:
+--   {
+--     "picks_per_week": [{ "from": 1, "to": 16, "picks": 2 },
+--                        { "from": 17, "to": 18, "picks": 1 }],
+--     "byes_per_season": 1,
+--     "bye_weeks": { "from": 1, "to": 16 },
+--     "allow_team_reuse": false,
+--     "scoring": { "win": 1, "loss": 0 }
+--   }
+
+alter table public.leagues
+  add column if not exists rules jsonb not null default '{}'::jsonb;
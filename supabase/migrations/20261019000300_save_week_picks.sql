@@ -0,0 +1,72 @@
+-- Server-side pick submission.
+--
+-- POST /api/picks validates a submission against the league rules and then
+-- calls save_week_picks, which applies it in a single transaction. The
+-- browser no longer writes picks or byes directly.
+
+create or replace function public.save_week_picks(
+  p_league_id uuid,
+  p_season_year int,
+  p_week_number int,
+  p_user_id uuid,
+  p_bye boolean,
+  p_picks jsonb -- [{ "slot": 1, "team_abbr": "KC" }, ...]
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_bye then
+    insert into byes (league_id, season_year, week_number, user_id)
+    values (p_league_id, p_season_year, p_week_number, p_user_id)
+    on conflict do nothing;
+
+    delete from picks
+    where league_id = p_league_id
+      and season_year = p_season_year
+      and week_number = p_week_number
+      and user_id = p_user_id;
+
+    return;
+  end if;
+
+  delete from byes
+  where league_id = p_league_id
+    and season_year = p_season_year
+    and week_number = p_week_number
+    and user_id = p_user_id;
+
+  -- Drop slots that are no longer part of the submission
+  delete from picks
+  where league_id = p_league_id
+    and season_year = p_season_year
+    and week_number = p_week_number
+    and user_id = p_user_id
+    and slot not in (
+      select (x ->> 'slot')::int from jsonb_array_elements(p_picks) x
+    );
+
+  insert into picks (league_id, season_year, week_number, user_id, slot, team_abbr)
+  select
+    p_league_id,
+    p_season_year,
+    p_week_number,
+    p_user_id,
+    (x ->> 'slot')::int,
+    x ->> 'team_abbr'
+  from jsonb_array_elements(p_picks) x
+  on conflict (league_id, season_year, week_number, user_id, slot)
+  do update set team_abbr = excluded.team_abbr
+  where picks.team_abbr is distinct from excluded.team_abbr;
+end;
+$$;
+
+revoke all on function public.save_week_picks(uuid, int, int, uuid, boolean, jsonb)
+  from public, anon, authenticated;
+grant execute on function public.save_week_picks(uuid, int, int, uuid, boolean, jsonb)
+  to service_role;
+
+-- All pick/bye writes go through the API now
+revoke insert, update, delete on public.picks from anon, authenticated;
+revoke insert, update, delete on public.byes from anon, authenticated;
@@ -0,0 +1,10 @@
+-- Tie games are graded as pushes. How a push scores is a league rule
+-- (leagues.rules -> scoring.push: "half" | "zero" | "win"), so only the
+-- allowed result values change here.
+
+alter table public.pick_results
+  drop constraint if exists pick_results_result_check;
+
+alter table public.pick_results
+  add constraint pick_results_result_check
+  check (result in ('win', 'loss', 'push', 'pending'));
@@ -0,0 +1,17 @@
+-- grade-week now grades each pick as soon as its game is final. Publish
+-- pick_results changes so the standings page updates while a week is in
+-- progress.
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'pick_results'
+  ) then
+    alter publication supabase_realtime add table public.pick_results;
+  end if;
+end;
+$$;
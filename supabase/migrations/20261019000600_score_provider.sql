@@ -0,0 +1,12 @@
+-- Score provider per league (src/lib/providers): 'espn' (live) or 'fixture'
+-- (local JSON files under fixtures/scores, for offline simulation).
+
+alter table public.leagues
+  add column if not exists score_provider text not null default 'espn';
+
+alter table public.leagues
+  drop constraint if exists leagues_score_provider_check;
+
+alter table public.leagues
+  add constraint leagues_score_provider_check
+  check (score_provider in ('espn', 'fixture'));
@@ -0,0 +1,29 @@
+-- Season rollover (POST /api/rollover-season) archives each finished
+-- season's final standings here before moving the league to the next
+-- season_year. Picks, byes and results stay in place, keyed by season_year.
+
+create table if not exists public.season_archives (
+  league_id uuid not null references public.leagues (id) on delete cascade,
+  season_year int not null,
+  final_week int not null,
+  rules jsonb not null default '{}'::jsonb,
+  standings jsonb not null default '[]'::jsonb, -- StandingsRow[] (src/lib/standings.ts)
+  archived_at timestamptz not null default now(),
+  primary key (league_id, season_year)
+);
+
+alter table public.season_archives enable row level security;
+
+drop policy if exists "season_archives_select_members" on public.season_archives;
+create policy "season_archives_select_members"
+  on public.season_archives
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from league_members m
+      where m.league_id = season_archives.league_id
+        and m.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,38 @@
+-- Commissioner admin console (/l/<league>/admin).
+--
+-- league_members.role marks who can run the admin console and the cron
+-- routes with their own session. Promote the first commissioner by hand:
+--   update league_members set role = 'commissioner'
+--    where league_id = '<league>' and user_id = '<user>';
+
+alter table public.league_members
+  add column if not exists role text not null default 'member';
+
+alter table public.league_members
+  drop constraint if exists league_members_role_check;
+alter table public.league_members
+  add constraint league_members_role_check
+  check (role in ('member', 'commissioner'));
+
+-- Roles only change through the service role (POST /api/admin/members)
+create or replace function public.league_members_guard_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.role is distinct from coalesce(old.role, 'member')
+     and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'Only a commissioner can change member roles';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists league_members_guard_role on public.league_members;
+create trigger league_members_guard_role
+  before insert or update on public.league_members
+  for each row execute function public.league_members_guard_role();
+
+-- A commissioner-corrected result; sync-games leaves these games alone
+alter table public.games
+  add column if not exists result_override boolean not null default false;
@@ -0,0 +1,193 @@
+-- Pick history (audit trail).
+--
+-- Every create / change / delete of a pick or bye is recorded by trigger,
+-- with the server timestamp, so "I changed that before lock" can be checked.
+-- The row's user is whose pick it is; actor_id is who made the change
+-- (save_week_picks sets pickem.actor_id for the transaction).
+
+create table if not exists public.pick_events (
+  id bigint generated always as identity primary key,
+  league_id uuid not null references public.leagues (id) on delete cascade,
+  season_year int not null,
+  week_number int not null,
+  user_id uuid not null,
+  actor_id uuid,
+  kind text not null check (kind in ('pick', 'bye')),
+  slot int, -- null for byes
+  action text not null check (action in ('create', 'change', 'delete')),
+  old_team text,
+  new_team text,
+  created_at timestamptz not null default clock_timestamp()
+);
+
+create index if not exists pick_events_week_idx
+  on public.pick_events (league_id, season_year, week_number, created_at);
+
+create or replace function public.pick_events_actor()
+returns uuid
+language sql
+stable
+as $$
+  select coalesce(
+    nullif(current_setting('pickem.actor_id', true), '')::uuid,
+    auth.uid()
+  );
+$$;
+
+create or replace function public.log_pick_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+begin
+  if tg_op = 'DELETE' then r := old; else r := new; end if;
+
+  if tg_op = 'UPDATE' and new.team_abbr is not distinct from old.team_abbr then
+    return null;
+  end if;
+
+  insert into pick_events (
+    league_id, season_year, week_number, user_id, actor_id,
+    kind, slot, action, old_team, new_team
+  ) values (
+    r.league_id, r.season_year, r.week_number, r.user_id,
+    coalesce(public.pick_events_actor(), r.user_id),
+    'pick', r.slot,
+    case tg_op when 'INSERT' then 'create' when 'UPDATE' then 'change' else 'delete' end,
+    case when tg_op = 'INSERT' then null else old.team_abbr end,
+    case when tg_op = 'DELETE' then null else new.team_abbr end
+  );
+  return null;
+end;
+$$;
+
+create or replace function public.log_bye_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+begin
+  if tg_op = 'DELETE' then r := old; else r := new; end if;
+
+  insert into pick_events (
+    league_id, season_year, week_number, user_id, actor_id,
+    kind, action
+  ) values (
+    r.league_id, r.season_year, r.week_number, r.user_id,
+    coalesce(public.pick_events_actor(), r.user_id),
+    'bye',
+    case tg_op when 'INSERT' then 'create' else 'delete' end
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists picks_log_event on public.picks;
+create trigger picks_log_event
+  after insert or update or delete on public.picks
+  for each row execute function public.log_pick_event();
+
+drop trigger if exists byes_log_event on public.byes;
+create trigger byes_log_event
+  after insert or delete on public.byes
+  for each row execute function public.log_bye_event();
+
+-- Record the caller as the actor for every change in the transaction
+create or replace function public.save_week_picks(
+  p_league_id uuid,
+  p_season_year int,
+  p_week_number int,
+  p_user_id uuid,
+  p_bye boolean,
+  p_picks jsonb -- [{ "slot": 1, "team_abbr": "KC" }, ...]
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform set_config('pickem.actor_id', p_user_id::text, true);
+
+  if p_bye then
+    insert into byes (league_id, season_year, week_number, user_id)
+    values (p_league_id, p_season_year, p_week_number, p_user_id)
+    on conflict do nothing;
+
+    delete from picks
+    where league_id = p_league_id
+      and season_year = p_season_year
+      and week_number = p_week_number
+      and user_id = p_user_id;
+
+    return;
+  end if;
+
+  delete from byes
+  where league_id = p_league_id
+    and season_year = p_season_year
+    and week_number = p_week_number
+    and user_id = p_user_id;
+
+  -- Drop slots that are no longer part of the submission
+  delete from picks
+  where league_id = p_league_id
+    and season_year = p_season_year
+    and week_number = p_week_number
+    and user_id = p_user_id
+    and slot not in (
+      select (x ->> 'slot')::int from jsonb_array_elements(p_picks) x
+    );
+
+  insert into picks (league_id, season_year, week_number, user_id, slot, team_abbr)
+  select
+    p_league_id,
+    p_season_year,
+    p_week_number,
+    p_user_id,
+    (x ->> 'slot')::int,
+    x ->> 'team_abbr'
+  from jsonb_array_elements(p_picks) x
+  on conflict (league_id, season_year, week_number, user_id, slot)
+  do update set team_abbr = excluded.team_abbr
+  where picks.team_abbr is distinct from excluded.team_abbr;
+end;
+$$;
+
+-- Read-only for everyone; only the triggers write here
+alter table public.pick_events enable row level security;
+revoke insert, update, delete on public.pick_events from anon, authenticated;
+
+-- Members see a week's history once the week has fully revealed (history
+-- would otherwise leak picks whose games haven't kicked off), their own
+-- history any time, and commissioners see everything.
+drop policy if exists "pick_events_select" on public.pick_events;
+create policy "pick_events_select"
+  on public.pick_events
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from league_members m
+      where m.league_id = pick_events.league_id
+        and m.user_id = auth.uid()
+        and (
+          m.role = 'commissioner'
+          or pick_events.user_id = auth.uid()
+          or exists (
+            select 1
+            from weeks w
+            where w.league_id = pick_events.league_id
+              and w.season_year = pick_events.season_year
+              and w.week_number = pick_events.week_number
+              and w.reveal_time <= now()
+          )
+        )
+    )
+  );
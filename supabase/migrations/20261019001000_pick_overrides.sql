@@ -0,0 +1,186 @@
+-- Commissioner pick overrides (POST /api/admin/picks).
+--
+-- A commissioner can enter or change any member's picks or bye for a week,
+-- including after lock, with a mandatory reason. The override goes through
+-- save_week_picks like a normal submission, so it lands in pick_events with
+-- the commissioner as actor and the reason attached, and the pick itself is
+-- flagged (override_by / override_reason) for the week page.
+
+alter table public.pick_events add column if not exists reason text;
+
+alter table public.picks add column if not exists override_by uuid;
+alter table public.picks add column if not exists override_reason text;
+
+-- Stamp (or clear) the override flag whenever a pick is written
+create or replace function public.stamp_pick_override()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.override_reason := nullif(current_setting('pickem.reason', true), '');
+  new.override_by := case
+    when new.override_reason is null then null
+    else nullif(current_setting('pickem.actor_id', true), '')::uuid
+  end;
+  return new;
+end;
+$$;
+
+drop trigger if exists picks_stamp_override on public.picks;
+create trigger picks_stamp_override
+  before insert or update of team_abbr on public.picks
+  for each row execute function public.stamp_pick_override();
+
+create or replace function public.log_pick_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+begin
+  if tg_op = 'DELETE' then r := old; else r := new; end if;
+
+  if tg_op = 'UPDATE' and new.team_abbr is not distinct from old.team_abbr then
+    return null;
+  end if;
+
+  insert into pick_events (
+    league_id, season_year, week_number, user_id, actor_id,
+    kind, slot, action, old_team, new_team, reason
+  ) values (
+    r.league_id, r.season_year, r.week_number, r.user_id,
+    coalesce(public.pick_events_actor(), r.user_id),
+    'pick', r.slot,
+    case tg_op when 'INSERT' then 'create' when 'UPDATE' then 'change' else 'delete' end,
+    case when tg_op = 'INSERT' then null else old.team_abbr end,
+    case when tg_op = 'DELETE' then null else new.team_abbr end,
+    nullif(current_setting('pickem.reason', true), '')
+  );
+  return null;
+end;
+$$;
+
+create or replace function public.log_bye_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+begin
+  if tg_op = 'DELETE' then r := old; else r := new; end if;
+
+  insert into pick_events (
+    league_id, season_year, week_number, user_id, actor_id,
+    kind, action, reason
+  ) values (
+    r.league_id, r.season_year, r.week_number, r.user_id,
+    coalesce(public.pick_events_actor(), r.user_id),
+    'bye',
+    case tg_op when 'INSERT' then 'create' else 'delete' end,
+    nullif(current_setting('pickem.reason', true), '')
+  );
+  return null;
+end;
+$$;
+
+-- A member's own save clears any override context; an override sets it first
+create or replace function public.save_week_picks(
+  p_league_id uuid,
+  p_season_year int,
+  p_week_number int,
+  p_user_id uuid,
+  p_bye boolean,
+  p_picks jsonb -- [{ "slot": 1, "team_abbr": "KC" }, ...]
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(current_setting('pickem.reason', true), '') = '' then
+    perform set_config('pickem.actor_id', p_user_id::text, true);
+  end if;
+
+  if p_bye then
+    insert into byes (league_id, season_year, week_number, user_id)
+    values (p_league_id, p_season_year, p_week_number, p_user_id)
+    on conflict do nothing;
+
+    delete from picks
+    where league_id = p_league_id
+      and season_year = p_season_year
+      and week_number = p_week_number
+      and user_id = p_user_id;
+
+    return;
+  end if;
+
+  delete from byes
+  where league_id = p_league_id
+    and season_year = p_season_year
+    and week_number = p_week_number
+    and user_id = p_user_id;
+
+  -- Drop slots that are no longer part of the submission
+  delete from picks
+  where league_id = p_league_id
+    and season_year = p_season_year
+    and week_number = p_week_number
+    and user_id = p_user_id
+    and slot not in (
+      select (x ->> 'slot')::int from jsonb_array_elements(p_picks) x
+    );
+
+  insert into picks (league_id, season_year, week_number, user_id, slot, team_abbr)
+  select
+    p_league_id,
+    p_season_year,
+    p_week_number,
+    p_user_id,
+    (x ->> 'slot')::int,
+    x ->> 'team_abbr'
+  from jsonb_array_elements(p_picks) x
+  on conflict (league_id, season_year, week_number, user_id, slot)
+  do update set team_abbr = excluded.team_abbr
+  where picks.team_abbr is distinct from excluded.team_abbr;
+end;
+$$;
+
+create or replace function public.override_week_picks(
+  p_league_id uuid,
+  p_season_year int,
+  p_week_number int,
+  p_user_id uuid,
+  p_bye boolean,
+  p_picks jsonb,
+  p_actor_id uuid,
+  p_reason text
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'An override needs a reason';
+  end if;
+
+  perform set_config('pickem.actor_id', p_actor_id::text, true);
+  perform set_config('pickem.reason', trim(p_reason), true);
+
+  perform public.save_week_picks(
+    p_league_id, p_season_year, p_week_number, p_user_id, p_bye, p_picks
+  );
+
+  perform set_config('pickem.reason', '', true);
+end;
+$$;
+
+revoke all on function public.override_week_picks(uuid, int, int, uuid, boolean, jsonb, uuid, text)
+  from public, anon, authenticated;
+grant execute on function public.override_week_picks(uuid, int, int, uuid, boolean, jsonb, uuid, text)
+  to service_role;
@@ -0,0 +1,18 @@
+-- Live scores on the matchups page: publish games changes over realtime,
+-- and stamp each row with the time sync-games last wrote it.
+
+alter table public.games add column if not exists synced_at timestamptz;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'games'
+  ) then
+    alter publication supabase_realtime add table public.games;
+  end if;
+end;
+$$;
@@ -0,0 +1,25 @@
+-- Week-by-week standings grid shows who used their bye when. Members can
+-- see the league's byes for a week once that week has fully revealed, the
+-- same point at which every pick is visible.
+
+drop policy if exists "byes_select_after_reveal" on public.byes;
+create policy "byes_select_after_reveal"
+  on public.byes
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from league_members m
+      where m.league_id = byes.league_id
+        and m.user_id = auth.uid()
+    )
+    and exists (
+      select 1
+      from weeks w
+      where w.league_id = byes.league_id
+        and w.season_year = byes.season_year
+        and w.week_number = byes.week_number
+        and w.reveal_time <= now()
+    )
+  );
@@ -0,0 +1,16 @@
+-- Confidence-points mode (rules.pick_mode = 'confidence').
+--
+-- Members pick a winner for every game and rank them; a pick's slot IS its
+-- confidence value (1..number of games), so the existing primary key keeps
+-- the values unique per member/week and save_week_picks works unchanged.
+-- grade-week stores each graded pick's points in pick_results.points.
+
+alter table public.picks drop constraint if exists picks_slot_check;
+alter table public.picks
+  add constraint picks_slot_check check (slot >= 1);
+
+alter table public.pick_results drop constraint if exists pick_results_slot_check;
+alter table public.pick_results
+  add constraint pick_results_slot_check check (slot >= 1);
+
+alter table public.pick_results add column if not exists points numeric;
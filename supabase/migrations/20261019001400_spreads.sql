@@ -0,0 +1,13 @@
+-- Against-the-spread picking (rules.spread_picks).
+--
+-- games.home_spread is the line from the home side (-3.5 = home favored by
+-- 3.5), imported by a commissioner from a CSV/JSON file. grade-week copies it
+-- into locked_home_spread once the game kicks off; picks are graded against
+-- that frozen line, and pick_results.spread keeps the picked team's side.
+-- sync-games upserts only provider columns, so it never touches the lines.
+
+alter table public.games add column if not exists home_spread numeric;
+alter table public.games add column if not exists locked_home_spread numeric;
+alter table public.games add column if not exists spread_updated_at timestamptz;
+
+alter table public.pick_results add column if not exists spread numeric;
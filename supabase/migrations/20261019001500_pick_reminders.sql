@@ -0,0 +1,50 @@
+-- Pick reminder emails (POST /api/send-reminders).
+--
+-- user_settings holds per-user preferences; email_reminders = false opts a
+-- user out of reminders in every league. Users edit their own row from the
+-- home page. reminder_sends records each reminder sent, so a member gets at
+-- most one email per interval (rules.reminder_hours) per week.
+
+create table if not exists public.user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  email_reminders boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_settings enable row level security;
+
+drop policy if exists "user_settings_select_own" on public.user_settings;
+create policy "user_settings_select_own"
+  on public.user_settings
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "user_settings_insert_own" on public.user_settings;
+create policy "user_settings_insert_own"
+  on public.user_settings
+  for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists "user_settings_update_own" on public.user_settings;
+create policy "user_settings_update_own"
+  on public.user_settings
+  for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create table if not exists public.reminder_sends (
+  league_id uuid not null references public.leagues (id) on delete cascade,
+  season_year int not null,
+  week_number int not null,
+  user_id uuid not null,
+  hours_before numeric not null,
+  sent_at timestamptz not null default now(),
+  primary key (league_id, season_year, week_number, user_id, hours_before)
+);
+
+-- Written by the cron route with the service role only
+alter table public.reminder_sends enable row level security;
+revoke insert, update, delete on public.reminder_sends from anon, authenticated;
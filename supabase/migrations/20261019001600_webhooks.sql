@@ -0,0 +1,77 @@
+-- Outgoing webhooks (src/lib/webhooks/).
+--
+-- A league can post to any number of destinations: Discord or Slack
+-- incoming webhooks, or a generic JSON endpoint whose requests are signed
+-- with the destination's secret (HMAC-SHA256). Each event a destination is
+-- subscribed to becomes one webhook_deliveries row, keyed by event_key so an
+-- event is only ever delivered once per destination; failed deliveries are
+-- retried with backoff by POST /api/dispatch-webhooks.
+--
+-- Commissioners read both tables; all writes go through the admin API.
+
+create table if not exists public.webhooks (
+  id uuid primary key default gen_random_uuid(),
+  league_id uuid not null references public.leagues (id) on delete cascade,
+  url text not null,
+  format text not null check (format in ('discord', 'slack', 'json')),
+  secret text,
+  events text[] not null default array['week_revealed', 'week_graded', 'week_advanced'],
+  enabled boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.webhook_deliveries (
+  id bigint generated always as identity primary key,
+  webhook_id uuid not null references public.webhooks (id) on delete cascade,
+  league_id uuid not null references public.leagues (id) on delete cascade,
+  event text not null,
+  event_key text not null,
+  payload jsonb not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'delivered', 'failed')),
+  attempts int not null default 0,
+  last_status int,
+  last_error text,
+  next_attempt_at timestamptz not null default now(),
+  delivered_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (webhook_id, event_key)
+);
+
+create index if not exists webhook_deliveries_pending_idx
+  on public.webhook_deliveries (status, next_attempt_at);
+
+alter table public.webhooks enable row level security;
+alter table public.webhook_deliveries enable row level security;
+revoke insert, update, delete on public.webhooks from anon, authenticated;
+revoke insert, update, delete on public.webhook_deliveries from anon, authenticated;
+
+drop policy if exists "webhooks_select_commissioner" on public.webhooks;
+create policy "webhooks_select_commissioner"
+  on public.webhooks
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from league_members m
+      where m.league_id = webhooks.league_id
+        and m.user_id = auth.uid()
+        and m.role = 'commissioner'
+    )
+  );
+
+drop policy if exists "webhook_deliveries_select_commissioner" on public.webhook_deliveries;
+create policy "webhook_deliveries_select_commissioner"
+  on public.webhook_deliveries
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from league_members m
+      where m.league_id = webhook_deliveries.league_id
+        and m.user_id = auth.uid()
+        and m.role = 'commissioner'
+    )
+  );
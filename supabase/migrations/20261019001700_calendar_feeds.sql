@@ -0,0 +1,22 @@
+-- Per-user iCalendar feeds (GET /api/calendar/<token>.ics).
+--
+-- The token in the feed URL is the only credential a calendar app can send,
+-- so it's stored here rather than derived from anything guessable. Users
+-- read their own row; the token is created and rotated through
+-- POST /api/calendar-token with the service role.
+
+create table if not exists public.calendar_feeds (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  token text not null unique,
+  created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+revoke insert, update, delete on public.calendar_feeds from anon, authenticated;
+
+drop policy if exists "calendar_feeds_select_own" on public.calendar_feeds;
+create policy "calendar_feeds_select_own"
+  on public.calendar_feeds
+  for select
+  to authenticated
+  using (user_id = auth.uid());
@@ -0,0 +1,160 @@
+-- Invite codes (app/l/[leagueId]/admin/invites, /join?code=XYZ).
+--
+-- A league can have any number of invite codes, each optionally expiring
+-- and/or limited to a number of uses, and revocable. join_league now
+-- checks the code against league_invites and records who joined with which
+-- code in league_joins. The league's existing leagues.invite_code, if any,
+-- carries over as an unlimited code so links already shared keep working.
+--
+-- Commissioners read both tables; codes are managed through the admin API.
+
+create table if not exists public.league_invites (
+  id uuid primary key default gen_random_uuid(),
+  league_id uuid not null references public.leagues (id) on delete cascade,
+  code text not null unique check (code = upper(code)),
+  label text,
+  expires_at timestamptz,
+  max_uses int check (max_uses is null or max_uses > 0),
+  uses int not null default 0,
+  revoked_at timestamptz,
+  created_by uuid,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists league_invites_league_idx
+  on public.league_invites (league_id);
+
+create table if not exists public.league_joins (
+  id bigint generated always as identity primary key,
+  league_id uuid not null references public.leagues (id) on delete cascade,
+  user_id uuid not null,
+  invite_id uuid references public.league_invites (id) on delete set null,
+  code text not null,
+  joined_at timestamptz not null default now()
+);
+
+create index if not exists league_joins_league_idx
+  on public.league_joins (league_id, joined_at desc);
+
+do $$
+begin
+  if exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'leagues'
+      and column_name = 'invite_code'
+  ) then
+    insert into public.league_invites (league_id, code, label)
+    select id, upper(trim(invite_code)), 'Original code'
+    from public.leagues
+    where coalesce(trim(invite_code), '') <> ''
+    on conflict (code) do nothing;
+  end if;
+end;
+$$;
+
+alter table public.league_invites enable row level security;
+alter table public.league_joins enable row level security;
+revoke insert, update, delete on public.league_invites from anon, authenticated;
+revoke insert, update, delete on public.league_joins from anon, authenticated;
+
+drop policy if exists "league_invites_select_commissioner" on public.league_invites;
+create policy "league_invites_select_commissioner"
+  on public.league_invites
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from league_members m
+      where m.league_id = league_invites.league_id
+        and m.user_id = auth.uid()
+        and m.role = 'commissioner'
+    )
+  );
+
+drop policy if exists "league_joins_select_commissioner" on public.league_joins;
+create policy "league_joins_select_commissioner"
+  on public.league_joins
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from league_members m
+      where m.league_id = league_joins.league_id
+        and m.user_id = auth.uid()
+        and m.role = 'commissioner'
+    )
+  );
+
+-- Joins the caller to the code's league and returns its id. Joining a
+-- league you're already in just returns it (and doesn't use up the code).
+create or replace function public.join_league(p_invite_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_invite league_invites%rowtype;
+begin
+  if v_user is null then
+    raise exception 'Sign in to join a league';
+  end if;
+
+  -- Locked so two people can't both take a code's last use
+  select * into v_invite
+  from league_invites
+  where code = upper(trim(p_invite_code))
+  for update;
+
+  if not found or v_invite.revoked_at is not null then
+    raise exception 'That invite code isn''t valid';
+  end if;
+
+  if exists (
+    select 1
+    from league_members
+    where league_id = v_invite.league_id
+      and user_id = v_user
+  ) then
+    return v_invite.league_id;
+  end if;
+
+  if v_invite.expires_at is not null and v_invite.expires_at <= now() then
+    raise exception 'That invite code has expired';
+  end if;
+
+  if v_invite.max_uses is not null and v_invite.uses >= v_invite.max_uses then
+    raise exception 'That invite code has been used up';
+  end if;
+
+  -- Display names are kept the same across a user's leagues
+  insert into league_members (league_id, user_id, role, display_name)
+  values (
+    v_invite.league_id,
+    v_user,
+    'member',
+    (
+      select display_name
+      from league_members
+      where user_id = v_user
+        and display_name is not null
+      limit 1
+    )
+  );
+
+  update league_invites set uses = uses + 1 where id = v_invite.id;
+
+  insert into league_joins (league_id, user_id, invite_id, code)
+  values (v_invite.league_id, v_user, v_invite.id, v_invite.code);
+
+  return v_invite.league_id;
+end;
+$$;
+
+revoke all on function public.join_league(text) from public, anon;
+grant execute on function public.join_league(text) to authenticated;
@@ -0,0 +1,25 @@
+-- grade-week writes a pending pick_results row, team included, for every
+-- pick as soon as the week is graded, before kickoff. Hold other members'
+-- rows back the way picks are: visible once the team's game has kicked off
+-- (picks_select_after_game_kickoff) or the week has revealed. Restrictive,
+-- so it applies on top of the existing select policy; members always see
+-- their own rows.
+
+drop policy if exists "pick_results_select_after_reveal" on public.pick_results;
+create policy "pick_results_select_after_reveal"
+  on public.pick_results
+  as restrictive
+  for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or public.team_kicked_off(league_id, season_year, week_number, team_abbr)
+    or exists (
+      select 1
+      from weeks w
+      where w.league_id = pick_results.league_id
+        and w.season_year = pick_results.season_year
+        and w.week_number = pick_results.week_number
+        and w.reveal_time <= now()
+    )
+  );
@@ -0,0 +1,127 @@
+-- Past-season import (POST /api/admin/history-import) in one transaction.
+--
+-- Replaces the given seasons' weeks, picks, pick_results and byes with the
+-- imported rows, so a failure leaves the seasons as they were. Seasons that
+-- already have data are refused unless p_replace is set. Writes are
+-- attributed to the commissioner with the reason "history import", so
+-- pick_events doesn't show them as the members' own edits.
+
+create or replace function public.import_history(
+  p_league_id uuid,
+  p_actor_id uuid,
+  p_replace boolean,
+  p_weeks jsonb, -- [{ "season_year", "week_number", "picks_required" }]
+  p_picks jsonb, -- [{ "season_year", "week_number", "user_id", "slot",
+                 --    "team_abbr", "result", "points" }]
+  p_byes jsonb -- [{ "season_year", "week_number", "user_id" }]
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_seasons int[];
+  v_taken int;
+begin
+  select array_agg(distinct (x ->> 'season_year')::int) into v_seasons
+  from jsonb_array_elements(p_weeks) x;
+
+  if v_seasons is null then
+    return;
+  end if;
+
+  if exists (
+    select 1
+    from leagues
+    where id = p_league_id
+      and season_year <= any (v_seasons)
+  ) then
+    raise exception 'Only past seasons can be imported';
+  end if;
+
+  if not p_replace then
+    select min(t.season_year) into v_taken
+    from (
+      select season_year from weeks
+      where league_id = p_league_id and season_year = any (v_seasons)
+      union all
+      select season_year from picks
+      where league_id = p_league_id and season_year = any (v_seasons)
+      union all
+      select season_year from byes
+      where league_id = p_league_id and season_year = any (v_seasons)
+      union all
+      select season_year from season_archives
+      where league_id = p_league_id and season_year = any (v_seasons)
+    ) t;
+
+    if v_taken is not null then
+      raise exception 'Season % already has data', v_taken;
+    end if;
+  end if;
+
+  perform set_config('pickem.actor_id', p_actor_id::text, true);
+  perform set_config('pickem.reason', 'history import', true);
+
+  delete from pick_results
+  where league_id = p_league_id and season_year = any (v_seasons);
+  delete from picks
+  where league_id = p_league_id and season_year = any (v_seasons);
+  delete from byes
+  where league_id = p_league_id and season_year = any (v_seasons);
+  delete from weeks
+  where league_id = p_league_id and season_year = any (v_seasons);
+
+  -- Historic kickoffs aren't known; the weeks lock and reveal right away
+  insert into weeks (
+    league_id, season_year, week_number, picks_required, lock_time, reveal_time
+  )
+  select
+    p_league_id,
+    (x ->> 'season_year')::int,
+    (x ->> 'week_number')::int,
+    (x ->> 'picks_required')::int,
+    now(),
+    now()
+  from jsonb_array_elements(p_weeks) x;
+
+  insert into picks (league_id, season_year, week_number, user_id, slot, team_abbr)
+  select
+    p_league_id,
+    (x ->> 'season_year')::int,
+    (x ->> 'week_number')::int,
+    (x ->> 'user_id')::uuid,
+    (x ->> 'slot')::int,
+    x ->> 'team_abbr'
+  from jsonb_array_elements(p_picks) x;
+
+  insert into pick_results (
+    league_id, season_year, week_number, user_id, slot, team_abbr, result, points
+  )
+  select
+    p_league_id,
+    (x ->> 'season_year')::int,
+    (x ->> 'week_number')::int,
+    (x ->> 'user_id')::uuid,
+    (x ->> 'slot')::int,
+    x ->> 'team_abbr',
+    x ->> 'result',
+    (x ->> 'points')::numeric
+  from jsonb_array_elements(p_picks) x;
+
+  insert into byes (league_id, season_year, week_number, user_id)
+  select
+    p_league_id,
+    (x ->> 'season_year')::int,
+    (x ->> 'week_number')::int,
+    (x ->> 'user_id')::uuid
+  from jsonb_array_elements(p_byes) x;
+
+  perform set_config('pickem.reason', '', true);
+end;
+$$;
+
+revoke all on function public.import_history(uuid, uuid, boolean, jsonb, jsonb, jsonb)
+  from public, anon, authenticated;
+grant execute on function public.import_history(uuid, uuid, boolean, jsonb, jsonb, jsonb)
+  to service_role;
@@ -0,0 +1,59 @@
+-- Override flag on byes, and on every override write.
+--
+-- Byes get the same override_by / override_reason stamp as picks, so a
+-- commissioner-entered bye is marked on the week page. override_week_picks
+-- also stamps the member's rows for the week after saving, so an override
+-- that re-saves the same team or an existing bye (which the upsert leaves
+-- untouched) is still flagged.
+
+alter table public.byes add column if not exists override_by uuid;
+alter table public.byes add column if not exists override_reason text;
+
+drop trigger if exists byes_stamp_override on public.byes;
+create trigger byes_stamp_override
+  before insert on public.byes
+  for each row execute function public.stamp_pick_override();
+
+create or replace function public.override_week_picks(
+  p_league_id uuid,
+  p_season_year int,
+  p_week_number int,
+  p_user_id uuid,
+  p_bye boolean,
+  p_picks jsonb,
+  p_actor_id uuid,
+  p_reason text
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'An override needs a reason';
+  end if;
+
+  perform set_config('pickem.actor_id', p_actor_id::text, true);
+  perform set_config('pickem.reason', trim(p_reason), true);
+
+  perform public.save_week_picks(
+    p_league_id, p_season_year, p_week_number, p_user_id, p_bye, p_picks
+  );
+
+  update picks
+  set override_by = p_actor_id, override_reason = trim(p_reason)
+  where league_id = p_league_id
+    and season_year = p_season_year
+    and week_number = p_week_number
+    and user_id = p_user_id;
+
+  update byes
+  set override_by = p_actor_id, override_reason = trim(p_reason)
+  where league_id = p_league_id
+    and season_year = p_season_year
+    and week_number = p_week_number
+    and user_id = p_user_id;
+
+  perform set_config('pickem.reason', '', true);
+end;
+$$;
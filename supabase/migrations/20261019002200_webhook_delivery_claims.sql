@@ -0,0 +1,54 @@
+-- Claim webhook deliveries before sending them.
+--
+-- Overlapping dispatch runs (cron and a manual trigger, or an event emitted
+-- while the cron retries) could both pick up the same pending delivery and
+-- POST it twice. claim_webhook_deliveries moves due rows to 'sending' with a
+-- lease, skipping rows another run has locked; the sender then records the
+-- outcome. A lease that runs out (the run died mid-send) makes the row
+-- claimable again.
+
+alter table public.webhook_deliveries
+  drop constraint if exists webhook_deliveries_status_check;
+alter table public.webhook_deliveries
+  add constraint webhook_deliveries_status_check
+  check (status in ('pending', 'sending', 'delivered', 'failed'));
+
+alter table public.webhook_deliveries
+  add column if not exists claimed_until timestamptz;
+
+create or replace function public.claim_webhook_deliveries(
+  p_league_id uuid, -- null = any league
+  p_ids bigint[], -- null = any delivery
+  p_lease_seconds int
+) returns setof public.webhook_deliveries
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  update webhook_deliveries d
+  set status = 'sending',
+      claimed_until = now() + make_interval(secs => p_lease_seconds)
+  where d.id in (
+    select x.id
+    from webhook_deliveries x
+    join webhooks w on w.id = x.webhook_id
+    where w.enabled
+      and (
+        (x.status = 'pending' and x.next_attempt_at <= now())
+        or (x.status = 'sending' and x.claimed_until <= now())
+      )
+      and (p_league_id is null or x.league_id = p_league_id)
+      and (p_ids is null or x.id = any (p_ids))
+    order by x.id
+    for update of x skip locked
+  )
+  returning d.*;
+end;
+$$;
+
+revoke all on function public.claim_webhook_deliveries(uuid, bigint[], int)
+  from public, anon, authenticated;
+grant execute on function public.claim_webhook_deliveries(uuid, bigint[], int)
+  to service_role;
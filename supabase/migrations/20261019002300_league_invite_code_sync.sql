@@ -0,0 +1,47 @@
+-- Keep leagues.invite_code joinable.
+--
+-- 20261019001800 copied each league's invite_code into league_invites once,
+-- but join_league only looks codes up in league_invites, so a league created
+-- (or given a new invite_code) after that had a code nobody could use. A
+-- trigger now adds the league's invite_code as an unlimited code whenever
+-- it's set, and leagues created in between are caught up here. Codes
+-- already taken by another league are left alone.
+
+create or replace function public.add_league_invite_code()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(trim(new.invite_code), '') <> '' then
+    insert into league_invites (league_id, code, label)
+    values (new.id, upper(trim(new.invite_code)), 'Original code')
+    on conflict (code) do nothing;
+  end if;
+  return null;
+end;
+$$;
+
+do $$
+begin
+  if exists (
+    select 1
+    from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'leagues'
+      and column_name = 'invite_code'
+  ) then
+    drop trigger if exists leagues_add_invite_code on public.leagues;
+    create trigger leagues_add_invite_code
+      after insert or update of invite_code on public.leagues
+      for each row execute function public.add_league_invite_code();
+
+    insert into public.league_invites (league_id, code, label)
+    select id, upper(trim(invite_code)), 'Original code'
+    from public.leagues
+    where coalesce(trim(invite_code), '') <> ''
+    on conflict (code) do nothing;
+  end if;
+end;
+$$;
@@ -0,0 +1,20 @@
+-- When each member joined their league (src/lib/survivor.ts).
+--
+-- A survivor run starts from the week a member joined: weeks that had
+-- already revealed by then don't count as missed picks. Members from before
+-- this column keep null (in from the start); those who joined with an
+-- invite code get their league_joins time.
+
+alter table public.league_members add column if not exists joined_at timestamptz;
+alter table public.league_members alter column joined_at set default now();
+
+update public.league_members m
+set joined_at = j.joined_at
+from (
+  select league_id, user_id, min(joined_at) as joined_at
+  from public.league_joins
+  group by league_id, user_id
+) j
+where m.league_id = j.league_id
+  and m.user_id = j.user_id
+  and m.joined_at is null;
@@ -0,0 +1,32 @@
+-- Commissioners no longer read pick history before reveal.
+--
+-- pick_events_select let commissioners see every member's history live,
+-- which gave away picks whose games hadn't kicked off. Everyone now gets the
+-- member rule: their own history any time, the league's once the week has
+-- revealed. The admin history page reads through GET /api/admin/history,
+-- which serves a week's full history once the week has locked.
+
+drop policy if exists "pick_events_select" on public.pick_events;
+create policy "pick_events_select"
+  on public.pick_events
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from league_members m
+      where m.league_id = pick_events.league_id
+        and m.user_id = auth.uid()
+        and (
+          pick_events.user_id = auth.uid()
+          or exists (
+            select 1
+            from weeks w
+            where w.league_id = pick_events.league_id
+              and w.season_year = pick_events.season_year
+              and w.week_number = pick_events.week_number
+              and w.reveal_time <= now()
+          )
+        )
+    )
+  );
@@ -0,0 +1,228 @@
+-- Enforce the pick rules in save_week_picks itself.
+--
+-- The API validated kickoff locks, the bye limit and team reuse against rows
+-- it read before calling save_week_picks, so two overlapping submissions (or
+-- a submission racing a kickoff) could both pass and both be written. The
+-- function now locks the member's rows for the season and re-checks those
+-- rules inside the transaction. The API keeps its own validation for
+-- friendly per-field messages; a rule that fails here raises with the
+-- PickErrorCode as the hint and the team (if any) as the detail.
+--
+-- Overrides (pickem.reason set, see override_week_picks) skip the lock
+-- checks like they do in the API; the bye limit and team reuse still apply.
+
+create or replace function public.save_week_picks(
+  p_league_id uuid,
+  p_season_year int,
+  p_week_number int,
+  p_user_id uuid,
+  p_bye boolean,
+  p_picks jsonb -- [{ "slot": 1, "team_abbr": "KC" }, ...]
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_override boolean :=
+    coalesce(current_setting('pickem.reason', true), '') <> '';
+  v_rules jsonb;
+  v_byes_per_season int;
+  v_team text;
+begin
+  if not v_override then
+    perform set_config('pickem.actor_id', p_user_id::text, true);
+  end if;
+
+  -- One save per member at a time: the membership row serializes saves
+  -- that insert new rows, and the member's existing rows are locked too
+  perform 1
+  from league_members m
+  where m.league_id = p_league_id
+    and m.user_id = p_user_id
+  for update;
+
+  perform 1
+  from picks p
+  where p.league_id = p_league_id
+    and p.season_year = p_season_year
+    and p.user_id = p_user_id
+  for update;
+
+  perform 1
+  from byes b
+  where b.league_id = p_league_id
+    and b.season_year = p_season_year
+    and b.user_id = p_user_id
+  for update;
+
+  select coalesce(l.rules, '{}'::jsonb) into v_rules
+  from leagues l
+  where l.id = p_league_id;
+
+  if not v_override then
+    if exists (
+      select 1
+      from weeks w
+      where w.league_id = p_league_id
+        and w.season_year = p_season_year
+        and w.week_number = p_week_number
+        and w.lock_time <= now()
+    ) then
+      raise exception 'This week is locked — every game has kicked off.'
+        using hint = 'week_locked';
+    end if;
+
+    -- A saved pick can't be changed or dropped once its game has started
+    select p.team_abbr into v_team
+    from picks p
+    where p.league_id = p_league_id
+      and p.season_year = p_season_year
+      and p.week_number = p_week_number
+      and p.user_id = p_user_id
+      and (
+        p_bye
+        or p.team_abbr is distinct from (
+          select x ->> 'team_abbr'
+          from jsonb_array_elements(p_picks) x
+          where (x ->> 'slot')::int = p.slot
+        )
+      )
+      and public.team_kicked_off(
+        p_league_id, p_season_year, p_week_number, p.team_abbr
+      )
+    limit 1;
+
+    if v_team is not null then
+      raise exception '% is locked — its game has already kicked off.', v_team
+        using hint = 'slot_locked', detail = v_team;
+    end if;
+
+    -- ...and a team can't be newly picked once its game has started
+    if not p_bye then
+      select x ->> 'team_abbr' into v_team
+      from jsonb_array_elements(p_picks) x
+      where not exists (
+          select 1
+          from picks p
+          where p.league_id = p_league_id
+            and p.season_year = p_season_year
+            and p.week_number = p_week_number
+            and p.user_id = p_user_id
+            and p.slot = (x ->> 'slot')::int
+            and p.team_abbr = x ->> 'team_abbr'
+        )
+        and public.team_kicked_off(
+          p_league_id, p_season_year, p_week_number, x ->> 'team_abbr'
+        )
+      limit 1;
+
+      if v_team is not null then
+        raise exception '% has already kicked off and can''t be picked.',
+          v_team
+          using hint = 'team_locked', detail = v_team;
+      end if;
+    end if;
+  end if;
+
+  if p_bye then
+    -- Same default as DEFAULT_RULES.byes_per_season (rules.ts)
+    v_byes_per_season := case
+      when jsonb_typeof(v_rules -> 'byes_per_season') = 'number'
+        then greatest(0, trunc((v_rules ->> 'byes_per_season')::numeric)::int)
+      else 1
+    end;
+
+    if not exists (
+      select 1
+      from byes b
+      where b.league_id = p_league_id
+        and b.season_year = p_season_year
+        and b.week_number = p_week_number
+        and b.user_id = p_user_id
+    ) and (
+      select count(*)
+      from byes b
+      where b.league_id = p_league_id
+        and b.season_year = p_season_year
+        and b.week_number <> p_week_number
+        and b.user_id = p_user_id
+    ) >= v_byes_per_season then
+      raise exception 'You have no byes left this season.'
+        using hint = 'no_byes_left';
+    end if;
+
+    insert into byes (league_id, season_year, week_number, user_id)
+    values (p_league_id, p_season_year, p_week_number, p_user_id)
+    on conflict do nothing;
+
+    delete from picks
+    where league_id = p_league_id
+      and season_year = p_season_year
+      and week_number = p_week_number
+      and user_id = p_user_id;
+
+    return;
+  end if;
+
+  -- Each team once per pool: the regular season (weeks 1–18) and the
+  -- playoffs are separate pools (sameTeamPool in rules.ts). Confidence
+  -- leagues pick every game, so reuse doesn't apply there.
+  if v_rules -> 'allow_team_reuse' is distinct from 'true'::jsonb
+    and v_rules ->> 'pick_mode' is distinct from 'confidence'
+  then
+    select x ->> 'team_abbr' into v_team
+    from jsonb_array_elements(p_picks) x
+    where exists (
+      select 1
+      from picks p
+      where p.league_id = p_league_id
+        and p.season_year = p_season_year
+        and p.user_id = p_user_id
+        and p.week_number <> p_week_number
+        and (p.week_number > 18) = (p_week_number > 18)
+        and p.team_abbr = x ->> 'team_abbr'
+    )
+    limit 1;
+
+    if v_team is not null then
+      raise exception 'You already used % this season.', v_team
+        using hint = 'team_used', detail = v_team;
+    end if;
+  end if;
+
+  delete from byes
+  where league_id = p_league_id
+    and season_year = p_season_year
+    and week_number = p_week_number
+    and user_id = p_user_id;
+
+  -- Drop slots that are no longer part of the submission
+  delete from picks
+  where league_id = p_league_id
+    and season_year = p_season_year
+    and week_number = p_week_number
+    and user_id = p_user_id
+    and slot not in (
+      select (x ->> 'slot')::int from jsonb_array_elements(p_picks) x
+    );
+
+  insert into picks (league_id, season_year, week_number, user_id, slot, team_abbr)
+  select
+    p_league_id,
+    p_season_year,
+    p_week_number,
+    p_user_id,
+    (x ->> 'slot')::int,
+    x ->> 'team_abbr'
+  from jsonb_array_elements(p_picks) x
+  on conflict (league_id, season_year, week_number, user_id, slot)
+  do update set team_abbr = excluded.team_abbr
+  where picks.team_abbr is distinct from excluded.team_abbr;
+end;
+$$;
+
+revoke all on function public.save_week_picks(uuid, int, int, uuid, boolean, jsonb)
+  from public, anon, authenticated;
+grant execute on function public.save_week_picks(uuid, int, int, uuid, boolean, jsonb)
+  to service_role;
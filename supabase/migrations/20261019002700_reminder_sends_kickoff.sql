@@ -0,0 +1,32 @@
+-- Key reminder_sends by the kickoff a reminder was for.
+--
+-- Reminders count down to the week's next kickoff, which moves on as games
+-- lock. Keyed only by week and interval, a member reminded before Thursday's
+-- game was never reminded before Sunday's. kickoff_time joins the key, so
+-- each interval is sent once per kickoff. Existing rows are dated to the
+-- week's first kickoff, the only one reminders targeted before.
+
+alter table public.reminder_sends
+  add column if not exists kickoff_time timestamptz;
+
+update public.reminder_sends r
+set kickoff_time = coalesce(
+  (
+    select min(g.kickoff_time)
+    from games g
+    where g.league_id = r.league_id
+      and g.season_year = r.season_year
+      and g.week_number = r.week_number
+  ),
+  r.sent_at
+)
+where r.kickoff_time is null;
+
+alter table public.reminder_sends alter column kickoff_time set not null;
+
+alter table public.reminder_sends drop constraint if exists reminder_sends_pkey;
+alter table public.reminder_sends
+  add constraint reminder_sends_pkey
+  primary key (
+    league_id, season_year, week_number, user_id, hours_before, kickoff_time
+  );
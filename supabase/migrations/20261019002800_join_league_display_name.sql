@@ -0,0 +1,89 @@
+-- Give a member joining their first league a display name.
+--
+-- join_league copied display_name from the user's other leagues only, so
+-- whoever joined their first league showed up unnamed. It now falls back to
+-- the name in the user's auth metadata (display_name, name or full_name),
+-- then to the part of their email before the @.
+
+-- Joins the caller to the code's league and returns its id. Joining a
+-- league you're already in just returns it (and doesn't use up the code).
+create or replace function public.join_league(p_invite_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_invite league_invites%rowtype;
+begin
+  if v_user is null then
+    raise exception 'Sign in to join a league';
+  end if;
+
+  -- Locked so two people can't both take a code's last use
+  select * into v_invite
+  from league_invites
+  where code = upper(trim(p_invite_code))
+  for update;
+
+  if not found or v_invite.revoked_at is not null then
+    raise exception 'That invite code isn''t valid';
+  end if;
+
+  if exists (
+    select 1
+    from league_members
+    where league_id = v_invite.league_id
+      and user_id = v_user
+  ) then
+    return v_invite.league_id;
+  end if;
+
+  if v_invite.expires_at is not null and v_invite.expires_at <= now() then
+    raise exception 'That invite code has expired';
+  end if;
+
+  if v_invite.max_uses is not null and v_invite.uses >= v_invite.max_uses then
+    raise exception 'That invite code has been used up';
+  end if;
+
+  -- Display names are kept the same across a user's leagues; a first
+  -- league starts from the name given at sign-up, or the email's local part
+  insert into league_members (league_id, user_id, role, display_name)
+  values (
+    v_invite.league_id,
+    v_user,
+    'member',
+    coalesce(
+      (
+        select display_name
+        from league_members
+        where user_id = v_user
+          and display_name is not null
+        limit 1
+      ),
+      (
+        select coalesce(
+          nullif(trim(u.raw_user_meta_data ->> 'display_name'), ''),
+          nullif(trim(u.raw_user_meta_data ->> 'name'), ''),
+          nullif(trim(u.raw_user_meta_data ->> 'full_name'), ''),
+          nullif(split_part(u.email, '@', 1), '')
+        )
+        from auth.users u
+        where u.id = v_user
+      )
+    )
+  );
+
+  update league_invites set uses = uses + 1 where id = v_invite.id;
+
+  insert into league_joins (league_id, user_id, invite_id, code)
+  values (v_invite.league_id, v_user, v_invite.id, v_invite.code);
+
+  return v_invite.league_id;
+end;
+$$;
+
+revoke all on function public.join_league(text) from public, anon;
+grant execute on function public.join_league(text) to authenticated;
@@ -0,0 +1,10 @@
+-- Record forced season rollovers.
+--
+-- POST /api/rollover-season with force skips the "season is over" check.
+-- The archive row it writes now says so: forced_at, and forced_by for a
+-- commissioner (null when the scheduler forced it).
+
+alter table public.season_archives
+  add column if not exists forced_at timestamptz;
+alter table public.season_archives
+  add column if not exists forced_by uuid;